@@ -0,0 +1,189 @@
+// Storyboard ↔ node bindings stored as plugin data
+// Every node the plugin creates carries the storyboard and entity it belongs to, so the
+// maps in SceneManager/CharacterManager can be rebuilt from the canvas on re-open,
+// whatever the user renamed or moved.
+
+/**
+ * Bump when the binding keys change meaning. Written on every bound node but not read yet:
+ * there is only one schema so far, so a version that changes it must add the migration
+ */
+export const BINDING_SCHEMA_VERSION = 1
+
+export const PLUGIN_DATA_KEYS = {
+    STORYBOARD_ID: 'storyboardId',
+    ENTITY_TYPE: 'entityType',
+    ENTITY_ID: 'entityId',
+    SCHEMA_VERSION: 'schemaVersion',
+    ACT_NUMBER: 'actNumber',  // Act sections only
+    IMAGE_URL: 'imageUrl',  // Image rectangles only: URL the image was loaded from
+    MEDIA_ID: 'mediaId',  // Image variants only
+    VARIANT_GROUP: 'variantGroup',  // Variant strips only: SceneImageVariants.group shown
+    PANEL_PART: 'panelPart'  // Layers of design-file panels, act frames and character sheets (see panels.ts)
+}
+
+export type BindingEntityType =
+    | 'scene'
+    | 'scene-image'
+    | 'scene-variants'
+    | 'scene-variant'
+    | 'connector'
+    | 'act'
+    | 'scenes-section'
+    | 'scene-card-set'
+    | 'character'
+    | 'character-image'
+    | 'character-link'
+    | 'characters-section'
+    | 'print-sheet'
+
+export interface NodeBinding {
+    storyboardId: string
+    entityType: BindingEntityType
+    /** Scene/character id, `from->to` ids for connectors and character links, act number for act sections and frames, page number for print sheets */
+    entityId: string
+}
+
+export function connectorEntityId(fromSceneId: string, toSceneId: string): string {
+    return `${fromSceneId}->${toSceneId}`
+}
+
+export function bindNode(node: BaseNode, binding: NodeBinding): void {
+    node.setPluginData(PLUGIN_DATA_KEYS.STORYBOARD_ID, binding.storyboardId)
+    node.setPluginData(PLUGIN_DATA_KEYS.ENTITY_TYPE, binding.entityType)
+    node.setPluginData(PLUGIN_DATA_KEYS.ENTITY_ID, binding.entityId)
+    node.setPluginData(PLUGIN_DATA_KEYS.SCHEMA_VERSION, String(BINDING_SCHEMA_VERSION))
+}
+
+/**
+ * Read the binding of a node
+ * @returns null if the node was not created by the plugin (or predates bindings)
+ */
+export function readBinding(node: BaseNode): NodeBinding | null {
+    const entityType = node.getPluginData(PLUGIN_DATA_KEYS.ENTITY_TYPE)
+    if (!entityType) {
+        return null
+    }
+
+    return {
+        storyboardId: node.getPluginData(PLUGIN_DATA_KEYS.STORYBOARD_ID),
+        entityType: entityType as BindingEntityType,
+        entityId: node.getPluginData(PLUGIN_DATA_KEYS.ENTITY_ID)
+    }
+}
+
+export interface CanvasIndex {
+    scenesSection: SectionNode | null
+    /** Section in FigJam, auto-layout frame of character sheets in design files */
+    charactersSection: SectionNode | FrameNode | null
+    actSections: Map<number, SectionNode>
+    /** Act frames of design files, by act number */
+    actFrames: Map<number, FrameNode>
+    /** "Scene Card" component set of design files */
+    sceneCardSet: ComponentSetNode | null
+    scenes: Map<string, SceneNode>
+    sceneImages: Map<string, RectangleNode>
+    /** Contact strips of image variants, by scene id */
+    variantStrips: Map<string, FrameNode>
+    connectors: Map<string, ConnectorNode>
+    characters: Map<string, SceneNode>
+    characterImages: Map<string, RectangleNode>
+    characterLinks: Map<string, ConnectorNode>
+}
+
+/**
+ * Collect every bound node on a page
+ * Sections are shared by all storyboards on the page; scenes, images, connectors and
+ * characters of other storyboards are skipped.
+ * @param page Page to scan
+ * @param storyboardId Storyboard being synced (empty = accept any)
+ */
+export function indexCanvas(page: PageNode, storyboardId: string): CanvasIndex {
+    const index: CanvasIndex = {
+        scenesSection: null,
+        charactersSection: null,
+        actSections: new Map(),
+        actFrames: new Map(),
+        sceneCardSet: null,
+        scenes: new Map(),
+        sceneImages: new Map(),
+        variantStrips: new Map(),
+        connectors: new Map(),
+        characters: new Map(),
+        characterImages: new Map(),
+        characterLinks: new Map()
+    }
+
+    const nodes = page.findAllWithCriteria({ pluginData: { keys: [PLUGIN_DATA_KEYS.ENTITY_TYPE] } })
+    for (const node of nodes) {
+        const binding = readBinding(node)
+        if (!binding || node.removed) {
+            continue
+        }
+
+        const otherStoryboard = storyboardId !== '' && binding.storyboardId !== '' && binding.storyboardId !== storyboardId
+
+        switch (binding.entityType) {
+        case 'scenes-section':
+            if (node.type === 'SECTION' && !index.scenesSection) {
+                index.scenesSection = node
+            }
+            break
+        case 'scene-card-set':
+            if (node.type === 'COMPONENT_SET' && !index.sceneCardSet) {
+                index.sceneCardSet = node
+            }
+            break
+        case 'characters-section':
+            if ((node.type === 'SECTION' || node.type === 'FRAME') && !index.charactersSection) {
+                index.charactersSection = node
+            }
+            break
+        case 'act': {
+            const actNumber = parseInt(node.getPluginData(PLUGIN_DATA_KEYS.ACT_NUMBER), 10)
+            if (node.type === 'SECTION' && !isNaN(actNumber) && !index.actSections.has(actNumber)) {
+                index.actSections.set(actNumber, node)
+            } else if (node.type === 'FRAME' && !isNaN(actNumber) && !index.actFrames.has(actNumber)) {
+                index.actFrames.set(actNumber, node)
+            }
+            break
+        }
+        case 'scene':
+            if (!otherStoryboard && binding.entityId) {
+                index.scenes.set(binding.entityId, node)
+            }
+            break
+        case 'scene-image':
+            if (!otherStoryboard && binding.entityId && node.type === 'RECTANGLE') {
+                index.sceneImages.set(binding.entityId, node)
+            }
+            break
+        case 'scene-variants':
+            if (!otherStoryboard && binding.entityId && node.type === 'FRAME') {
+                index.variantStrips.set(binding.entityId, node)
+            }
+            break
+        case 'connector':
+            if (!otherStoryboard && binding.entityId && node.type === 'CONNECTOR') {
+                index.connectors.set(binding.entityId, node)
+            }
+            break
+        case 'character':
+            if (!otherStoryboard && binding.entityId) {
+                index.characters.set(binding.entityId, node)
+            }
+            break
+        case 'character-image':
+            if (!otherStoryboard && binding.entityId && node.type === 'RECTANGLE') {
+                index.characterImages.set(binding.entityId, node)
+            }
+            break
+        case 'character-link':
+            if (!otherStoryboard && binding.entityId && node.type === 'CONNECTOR') {
+                index.characterLinks.set(binding.entityId, node)
+            }
+            break
+        }
+    }
+
+    return index
+}
\ No newline at end of file
@@ -1,16 +1,147 @@
 // SuperStoryboard Figma Plugin - Real-time Sync
 /// <reference types="@figma/plugin-typings" />
 
-import { Scene, StoryboardV2, Character, Act } from './types'
+import { PROTOCOL_VERSION, validateUIMessage } from './protocol'
+import { PRINT_LAYOUT, paginateScenes, createPrintSheet } from './print'
+import {
+    bindNode,
+    CanvasIndex,
+    indexCanvas,
+    readBinding,
+    PLUGIN_DATA_KEYS,
+    connectorEntityId
+} from './bindings'
+import {
+    LAYOUT,
+    ActBox,
+    CHARACTER_LAYOUT,
+    SceneSlot,
+    CELL_WIDTH,
+    CELL_HEIGHT,
+    getStickyY,
+    getStickyRow,
+    getSceneActNumber,
+    LayoutEngine,
+    LayoutResult,
+    createLayoutEngine
+} from './layout'
+import {
+    Act,
+    Scene,
+    Character,
+    SceneEdit,
+    SceneReorder,
+    SceneOrderChange,
+    StoryboardV2,
+    MessageOfType,
+    ExtractedContext,
+    PluginToUIMessage,
+    UIToPluginMessage,
+    StoryboardLayout,
+    FigmaNodeBinding,
+    EditableSceneFields,
+    SceneImageVariants
+} from './types'
+import {
+    PANEL_LAYOUT,
+    getPanelPart,
+    isPanelFrame,
+    stackFrames,
+    setPanelImage,
+    loadPanelFonts,
+    getActPanelRow,
+    renderActFrame,
+    createActFrame,
+    getShotVariant,
+    renderSceneCard,
+    getSceneCardImage,
+    createSceneCardSet,
+    getSceneCardVariant,
+    renderCharacterSheet,
+    createCharacterSheet,
+    createCharacterSheetsFrame
+} from './panels'
 
 const DEBUG = true
 
+// Line prefixes used by formatSceneText (and parsed back by parseSceneText)
+const DIALOGUE_PREFIX = '💬 '
+const NOTES_PREFIX = '📝 '
+const DURATION_PREFIX = '⏱ '
+
+// Character stickies when Character.color is not set
+const DEFAULT_CHARACTER_COLOR: RGB = { r: 0.3, g: 0.6, b: 0.9 }  // Blue
+
+// Act colors when Act.color is not set, picked by act number (act 0 = cold open gets the last one)
+const ACT_PALETTE = [
+    { h: 30, s: 0.8, l: 0.75, emoji: '🟧' },  // Orange
+    { h: 120, s: 0.7, l: 0.7, emoji: '🟩' },  // Green
+    { h: 280, s: 0.7, l: 0.75, emoji: '🟪' },  // Purple
+    { h: 210, s: 0.7, l: 0.75, emoji: '🟦' },  // Blue
+    { h: 50, s: 0.85, l: 0.7, emoji: '🟨' },  // Yellow
+    { h: 0, s: 0.7, l: 0.75, emoji: '🟥' },  // Red
+    { h: 25, s: 0.35, l: 0.6, emoji: '🟫' }  // Brown
+]
+
 function log(...args: unknown[]) {
     if (DEBUG) {
         console.log('[SuperStoryboard]', ...args)
     }
 }
 
+// Same scene data apart from updatedAt. Workers write media without touching updatedAt, so a row
+// carrying the updatedAt of our own edit may still hold changes of theirs
+function isSameSceneContent(a: Scene, b: Scene): boolean {
+    const fields = Object.keys(a).concat(Object.keys(b)) as (keyof Scene)[]
+    return fields.every(field => field === 'updatedAt' || JSON.stringify(a[field]) === JSON.stringify(b[field]))
+}
+
+// Figma image from imageUrl (fill of image rectangles and design-file panels)
+async function loadImage(imageUrl: string): Promise<Image> {
+    // Fetch image from URL
+    const response = await fetch(imageUrl)
+    if (!response.ok) {
+        throw new Error(`Failed to fetch image: ${response.status}`)
+    }
+
+    // Convert to Uint8Array
+    const arrayBuffer = await response.arrayBuffer()
+    const imageBytes = new Uint8Array(arrayBuffer)
+
+    // Create Figma image
+    return figma.createImage(imageBytes)
+}
+
+// Rectangle with the image at imageUrl as fill (scene images, character references, generated media)
+async function createImageNode(imageUrl: string, width: number, height: number): Promise<RectangleNode> {
+    log('Creating image from URL:', imageUrl)
+
+    try {
+        const image = await loadImage(imageUrl)
+
+        // Create rectangle to hold the image
+        const rect = figma.createRectangle()
+        rect.resize(width, height)
+
+        // Apply image fill
+        rect.fills = [{
+            type: 'IMAGE',
+            scaleMode: 'FILL',
+            imageHash: image.hash
+        }]
+
+        // Add rounded corners
+        rect.cornerRadius = 8
+
+        log('Image created successfully')
+        return rect
+
+    } catch (error) {
+        log('Error creating image:', error)
+        throw error
+    }
+}
+
 // ============================================================================
 // SCENE MANAGER
 // ============================================================================
@@ -18,9 +149,24 @@ function log(...args: unknown[]) {
 class SceneManager {
     private sceneNodeMap: Map<string, SceneNode>
     private imageNodeMap: Map<string, RectangleNode>
+    private connectorNodeMap: Map<string, ConnectorNode> = new Map()
+    private variantStripMap: Map<string, FrameNode> = new Map()
+    private storyboardId = ''
     private scenesFrame: SectionNode | null = null
     private actFrames: Map<number, SectionNode> = new Map()
+    private panelActFrames: Map<number, FrameNode> = new Map()  // Design files (see panels.ts)
+    private sceneCardSet: ComponentSetNode | null = null
     private acts: Act[] = []
+    private layoutEngine: LayoutEngine = createLayoutEngine()
+
+    // Last known scene data and the sticky text the plugin itself rendered for it.
+    // Used to tell user edits apart from our own writes (canvas → DB sync)
+    private sceneDataMap: Map<string, Scene> = new Map()
+    private renderedTextMap: Map<string, string> = new Map()
+
+    // sceneId → scene as saved by edits pushed to the DB, so the realtime echo is not re-rendered
+    private pendingEchoes: Map<string, Scene> = new Map()
+    private placedPositionMap: Map<string, string> = new Map()  // Sticky position the plugin last set, to tell drags apart
 
     constructor() {
         this.sceneNodeMap = new Map()
@@ -32,6 +178,28 @@ class SceneManager {
         log('Acts structure set:', acts)
     }
 
+    setLayout(layout?: StoryboardLayout) {
+        this.layoutEngine = createLayoutEngine(layout)
+        log('Layout strategy set:', this.layoutEngine.strategy)
+    }
+
+    getLayoutStrategy() {
+        return this.layoutEngine.strategy
+    }
+
+    setScenes(scenes: Scene[]) {
+        // Full scene list from a sync, so act sections and slots are sized for every scene
+        // before the first one is created
+        this.sceneDataMap.clear()
+        for (const scene of scenes) {
+            this.sceneDataMap.set(scene.id, scene)
+        }
+    }
+
+    private computeLayout(): LayoutResult {
+        return this.layoutEngine.layout(Array.from(this.sceneDataMap.values()), this.acts)
+    }
+
     findExistingNode(nodeId: string): StickyNode | null {
         // Find existing sticky note by Figma node ID
         try {
@@ -45,45 +213,115 @@ class SceneManager {
         return null
     }
 
-    initializeFromCanvas(): void {
-        // Scan canvas for existing sticky notes with scene data
+    initializeFromCanvas(index: CanvasIndex, storyboardId: string): void {
+        // Rebuild node maps from the bound nodes on the canvas
         // This is called before sync to preserve existing nodes
         log('Initializing from canvas...')
+        this.storyboardId = storyboardId
 
         // Clear old references first
-        this.scenesFrame = null
-        this.actFrames.clear()
-
-        const scenesSection = figma.currentPage.findChild(node => node.name === '📝 SCENES') as SectionNode | null
-        if (scenesSection && !scenesSection.removed) {
-            this.scenesFrame = scenesSection
-            log('Found existing SCENES section')
-
-            // Find act sections
-            scenesSection.findAll(node => node.type === 'SECTION' && node.name.startsWith('🟧')).forEach(section => {
-                const sectionNode = section as SectionNode
-                if (!sectionNode.removed) {
-                    this.actFrames.set(1, sectionNode)
-                    log('Found existing Act 1 section')
-                }
-            })
-            scenesSection.findAll(node => node.type === 'SECTION' && node.name.startsWith('🟩')).forEach(section => {
-                const sectionNode = section as SectionNode
-                if (!sectionNode.removed) {
-                    this.actFrames.set(2, sectionNode)
-                    log('Found existing Act 2 section')
-                }
-            })
-            scenesSection.findAll(node => node.type === 'SECTION' && node.name.startsWith('🟪')).forEach(section => {
-                const sectionNode = section as SectionNode
-                if (!sectionNode.removed) {
-                    this.actFrames.set(3, sectionNode)
-                    log('Found existing Act 3 section')
+        this.scenesFrame = index.scenesSection
+        this.actFrames = new Map(index.actSections)
+        this.panelActFrames = new Map(index.actFrames)
+        this.sceneCardSet = index.sceneCardSet
+        this.sceneNodeMap = new Map(index.scenes)
+        this.imageNodeMap = new Map(index.sceneImages)
+        this.variantStripMap = new Map(index.variantStrips)
+        this.connectorNodeMap = new Map(index.connectors)
+
+        // Canvases created before bindings: find sections by name and tag them
+        if (!this.scenesFrame) {
+            const legacySection = figma.currentPage.findChild(node => node.type === 'SECTION' && node.name === '📝 SCENES')
+            if (legacySection && !legacySection.removed) {
+                this.scenesFrame = legacySection as SectionNode
+                bindNode(this.scenesFrame, { storyboardId, entityType: 'scenes-section', entityId: '' })
+            }
+        }
+        if (this.scenesFrame && this.actFrames.size === 0) {
+            for (const node of this.scenesFrame.findAll(child => child.type === 'SECTION')) {
+                const section = node as SectionNode
+                const actNumber = this.readActNumber(section)
+                if (actNumber !== null && !section.removed) {
+                    this.actFrames.set(actNumber, section)
                 }
-            })
-        } else {
-            log('No existing SCENES section found, will create new')
+            }
+        }
+
+        log('Canvas index:', {
+            scenesSection: !!this.scenesFrame,
+            acts: this.actFrames.size + this.panelActFrames.size,
+            scenes: this.sceneNodeMap.size,
+            images: this.imageNodeMap.size,
+            connectors: this.connectorNodeMap.size
+        })
+    }
+
+    private readActNumber(section: SectionNode): number | null {
+        const stored = section.getPluginData(PLUGIN_DATA_KEYS.ACT_NUMBER)
+        if (stored !== '') {
+            const actNumber = parseInt(stored, 10)
+            return isNaN(actNumber) ? null : actNumber
+        }
+
+        // Legacy sections: act number from the emoji prefix, then store it
+        const legacyPrefixes: Record<string, number> = { '🟧': 1, '🟩': 2, '🟪': 3 }
+        for (const prefix of Object.keys(legacyPrefixes)) {
+            if (section.name.startsWith(prefix)) {
+                this.markActSection(section, legacyPrefixes[prefix])
+                return legacyPrefixes[prefix]
+            }
+        }
+        return null
+    }
+
+    private markActSection(section: SectionNode | FrameNode, actNumber: number): void {
+        bindNode(section, { storyboardId: this.storyboardId, entityType: 'act', entityId: String(actNumber) })
+        section.setPluginData(PLUGIN_DATA_KEYS.ACT_NUMBER, String(actNumber))
+    }
+
+    private bindSceneImage(imageNode: RectangleNode, scene: Scene): void {
+        bindNode(imageNode, { storyboardId: scene.storyboardId, entityType: 'scene-image', entityId: scene.id })
+        imageNode.setPluginData(PLUGIN_DATA_KEYS.IMAGE_URL, scene.imageUrl)
+    }
+
+    getScenes(): Scene[] {
+        return Array.from(this.sceneDataMap.values())
+    }
+
+    getSceneNode(sceneId: string): SceneNode | undefined {
+        return this.sceneNodeMap.get(sceneId)
+    }
+
+    // Sticky (or panel) and image of a scene, for zooming the viewport to it
+    getSceneViewNodes(sceneId: string): SceneNode[] {
+        const nodes: SceneNode[] = []
+        const node = this.sceneNodeMap.get(sceneId)
+        if (node && !node.removed) {
+            nodes.push(node)
+        }
+        const imageNode = this.imageNodeMap.get(sceneId)
+        if (imageNode && !imageNode.removed) {
+            nodes.push(imageNode)
+        }
+        return nodes
+    }
+
+    getSceneStoryboardId(sceneId: string): string | undefined {
+        const scene = this.sceneDataMap.get(sceneId)
+        return scene ? scene.storyboardId : undefined
+    }
+
+    getSceneImageUrl(sceneId: string): string | undefined {
+        // URL of the image shown on canvas, else the one in the last known scene data
+        const imageNode = this.imageNodeMap.get(sceneId)
+        if (imageNode && !imageNode.removed) {
+            const imageUrl = imageNode.getPluginData(PLUGIN_DATA_KEYS.IMAGE_URL)
+            if (imageUrl) {
+                return imageUrl
+            }
         }
+        const scene = this.sceneDataMap.get(sceneId)
+        return scene && scene.imageUrl ? scene.imageUrl : undefined
     }
 
     createScenesFrame(): SectionNode {
@@ -91,6 +329,7 @@ class SceneManager {
 
         const section = figma.createSection()
         section.name = '📝 SCENES'
+        bindNode(section, { storyboardId: this.storyboardId, entityType: 'scenes-section', entityId: '' })
         section.x = 50
         section.y = 50
 
@@ -113,70 +352,442 @@ class SceneManager {
             return
         }
 
+        if (!this.layoutEngine.usesActSections) {
+            log('Skipping act sections - not used by layout:', this.layoutEngine.strategy)
+            return
+        }
+
         log('Creating act sections...')
 
-        const actColors = {
-            1: { h: 30, s: 0.8, l: 0.75, name: '🟧 Act 1' },  // Orange
-            2: { h: 120, s: 0.7, l: 0.7, name: '🟩 Act 2' },  // Green
-            3: { h: 280, s: 0.7, l: 0.75, name: '🟪 Act 3' }  // Purple
+        const layout = this.computeLayout()
+        for (const act of this.acts) {
+            const box = layout.actBoxes.get(act.number)
+            if (box) {
+                this.createActSection(act, box)
+            }
+        }
+        this.fitScenesFrame()
+    }
+
+    refreshActSections(): void {
+        // Storyboard row changed: rename existing act sections, add sections for new acts
+        if (!this.scenesFrame || this.scenesFrame.removed) {
+            log('Skipping act refresh - no valid scenes section')
+            return
         }
 
-        // Constants for spacing calculations (same as in createNewScene)
-        const STICKY_WIDTH = 600  // 1.5x wider
-        const STICKY_SPACING = 50
-        const SECTION_PADDING = 100
-        const ACT_SECTION_GAP = 300  // Gap between act sections
-        const IMAGE_HEIGHT = 300  // Scene image height (1.5x)
-        const IMAGE_MARGIN = 20  // Gap between image and sticky
-        const STICKY_HEIGHT_ESTIMATE = 800  // Estimated max sticky note height
-        const SECTION_VERTICAL_PADDING = 200  // Top + bottom padding
+        const layout = this.computeLayout()
 
-        let offsetX = 100
+        let offsetX = LAYOUT.SECTION_PADDING
+        for (const section of this.actFrames.values()) {
+            if (!section.removed) {
+                offsetX = Math.max(offsetX, section.x + section.width + LAYOUT.ACT_SECTION_GAP)
+            }
+        }
 
         for (const act of this.acts) {
-            const actColor = actColors[act.number as keyof typeof actColors]
-            if (!actColor) continue
+            const existing = this.actFrames.get(act.number)
+
+            if (existing && !existing.removed) {
+                this.applyActSectionStyle(existing, act)
+                continue
+            }
+
+            // New acts go right of the existing sections; Re-layout puts them in place
+            const box = layout.actBoxes.get(act.number)
+            if (!box || !this.layoutEngine.usesActSections) {
+                continue
+            }
+            const actSection = this.createActSection(act, { ...box, x: offsetX })
+            if (actSection) {
+                offsetX += actSection.width + LAYOUT.ACT_SECTION_GAP
+            }
+        }
+        this.fitScenesFrame()
+
+        log('Act sections refreshed')
+    }
+
+    hasMissingActSections(): boolean {
+        return this.acts.some(act => {
+            const section = this.actFrames.get(act.number)
+            return !section || section.removed
+        })
+    }
+
+    private getActStyle(actNumber: number): { color: RGB; label: string } {
+        // Act.color wins; otherwise a palette color by act number
+        const act = this.acts.find(item => item.number === actNumber)
+        const paletteIndex = ((actNumber - 1) % ACT_PALETTE.length + ACT_PALETTE.length) % ACT_PALETTE.length
+        const palette = ACT_PALETTE[paletteIndex]
+
+        const customColor = act && act.color ? this.hexToRgb(act.color) : null
+        return {
+            color: customColor || this.hslToRgb(palette.h, palette.s, palette.l),
+            label: `${customColor ? '🎬' : palette.emoji} Act ${actNumber}`
+        }
+    }
+
+    private getActName(actNumber: number): string {
+        const act = this.acts.find(item => item.number === actNumber)
+        const label = this.getActStyle(actNumber).label
+        return act && act.name ? `${label}: ${act.name}` : label
+    }
+
+    private applyActSectionStyle(section: SectionNode, act: Act): void {
+        const style = this.getActStyle(act.number)
+        section.name = this.getActName(act.number)
+
+        // Semi-transparent background
+        section.fills = [{
+            type: 'SOLID',
+            color: style.color,
+            opacity: 0.1
+        }]
+    }
+
+    private createActSection(act: Act, box: ActBox): SectionNode | null {
+        if (!this.scenesFrame || this.scenesFrame.removed) {
+            return null
+        }
+
+        const actSection = figma.createSection()
+        this.applyActSectionStyle(actSection, act)
+        this.markActSection(actSection, act.number)
+        actSection.x = box.x
+        actSection.y = box.y
+
+        // Set size BEFORE adding to parent
+        actSection.resizeWithoutConstraints(box.width, box.height)
+
+        this.scenesFrame.appendChild(actSection)
+        this.actFrames.set(act.number, actSection)
+
+        log(`Created act section: ${act.name} (${box.width}x${box.height}px)`)
+        return actSection
+    }
+
+    private getSlotContainer(slot: SceneSlot): SectionNode | null {
+        // Act section of the slot, falling back to the main SCENES section
+        if (slot.actNumber !== null) {
+            const actSection = this.actFrames.get(slot.actNumber)
+            if (actSection && !actSection.removed) {
+                return actSection
+            }
+        }
+        return this.scenesFrame && !this.scenesFrame.removed ? this.scenesFrame : null
+    }
+
+    private isSlotTaken(container: BaseNode, x: number, y: number, sceneId: string): boolean {
+        for (const [otherId, node] of this.sceneNodeMap) {
+            if (otherId === sceneId || node.removed || node.parent !== container) {
+                continue
+            }
+            if (Math.abs(node.x - x) < CELL_WIDTH / 2 && Math.abs(node.y - y) < CELL_HEIGHT / 2) {
+                return true
+            }
+        }
+        return false
+    }
+
+    private getSlotForNewScene(scene: Scene): SceneSlot {
+        // Slot by sceneNumber; if an existing scene still sits there (not re-laid out yet),
+        // append after the right-most scene of the same section instead of overlapping it
+        this.sceneDataMap.set(scene.id, scene)
+        const slot = this.computeLayout().slots.get(scene.id) as SceneSlot
+        const container = this.getSlotContainer(slot) || figma.currentPage
+
+        if (!this.isSlotTaken(container, slot.x, getStickyY(slot), scene.id)) {
+            return slot
+        }
+
+        let x = slot.x
+        for (const [otherId, node] of this.sceneNodeMap) {
+            if (otherId !== scene.id && !node.removed && node.parent === container) {
+                x = Math.max(x, node.x + CELL_WIDTH)
+            }
+        }
+        log('Slot taken, appending scene at x:', x)
+        return { ...slot, x }
+    }
+
+    private placeSceneNodes(sceneId: string, node: SceneNode, slot: SceneSlot): void {
+        // Move sticky (and its image above it) into the slot's section
+        const container = this.getSlotContainer(slot) || figma.currentPage
+        const imageNode = this.imageNodeMap.get(sceneId)
+
+        if (imageNode && !imageNode.removed) {
+            if (imageNode.parent !== container) {
+                container.appendChild(imageNode)
+            }
+            imageNode.x = slot.x
+            imageNode.y = slot.y
+        }
+
+        if (node.parent !== container) {
+            container.appendChild(node)
+        }
+        node.x = slot.x
+        node.y = getStickyY(slot)
+        this.placedPositionMap.set(sceneId, this.getPositionKey(node))
+        this.positionVariantStrip(sceneId)
+
+        if (container.type === 'SECTION') {
+            this.fitSection(container, slot.x + CELL_WIDTH + LAYOUT.SECTION_PADDING, slot.y + CELL_HEIGHT + LAYOUT.SECTION_PADDING)
+        }
+    }
+
+    private fitSection(section: SectionNode, minWidth: number, minHeight: number): void {
+        // Sections don't grow with their content: enlarge when a scene lands outside
+        if (section.width < minWidth || section.height < minHeight) {
+            section.resizeWithoutConstraints(Math.max(section.width, minWidth), Math.max(section.height, minHeight))
+        }
+    }
+
+    private fitScenesFrame(): void {
+        if (!this.scenesFrame || this.scenesFrame.removed) {
+            return
+        }
+        for (const section of this.actFrames.values()) {
+            if (!section.removed) {
+                this.fitSection(this.scenesFrame, section.x + section.width + LAYOUT.SECTION_PADDING, section.y + section.height + LAYOUT.SECTION_PADDING)
+            }
+        }
+    }
+
+    async relayout(): Promise<number> {
+        // Reposition every tracked scene deterministically by sceneNumber
+        if (figma.editorType !== 'figjam') {
+            return await this.relayoutPanels()
+        }
+
+        if (!this.scenesFrame || this.scenesFrame.removed) {
+            this.createScenesFrame()
+        }
+
+        const layout = this.computeLayout()
+
+        if (this.layoutEngine.usesActSections) {
+            for (const act of this.acts) {
+                const box = layout.actBoxes.get(act.number)
+                if (!box) continue
+
+                const section = this.actFrames.get(act.number)
+                if (section && !section.removed) {
+                    section.x = box.x
+                    section.y = box.y
+                    section.resizeWithoutConstraints(box.width, box.height)
+                } else {
+                    this.createActSection(act, box)
+                }
+            }
+        }
+
+        let moved = 0
+        for (const [sceneId, slot] of layout.slots) {
+            const node = this.sceneNodeMap.get(sceneId)
+            if (!node || node.removed) continue
+
+            this.placeSceneNodes(sceneId, node, slot)
+            moved++
+        }
+
+        // Act sections left empty by a layout without acts (flow) are removed
+        if (!this.layoutEngine.usesActSections) {
+            for (const [actNumber, section] of this.actFrames) {
+                if (!section.removed && section.children.length === 0) {
+                    section.remove()
+                    this.actFrames.delete(actNumber)
+                }
+            }
+        }
+        this.fitScenesFrame()
+
+        log(`Re-layout (${this.layoutEngine.strategy}) moved ${moved} scenes`)
+        return moved
+    }
+
+    // ------------------------------------------------------------------------
+    // Design files: panels in act frames (see panels.ts)
+    // ------------------------------------------------------------------------
+
+    private async getSceneCardSet(): Promise<ComponentSetNode> {
+        // Reused when on the page (designers restyle it there), else created left of the act frames
+        // with a variant for every shot type of the synced scenes
+        if (this.sceneCardSet && !this.sceneCardSet.removed) {
+            return this.sceneCardSet
+        }
+
+        await loadPanelFonts()
+        const shots: string[] = []
+        for (const scene of Array.from(this.sceneDataMap.values()).sort((a, b) => a.sceneNumber - b.sceneNumber)) {
+            const shot = getShotVariant(scene.shotType)
+            if (shots.indexOf(shot) === -1) {
+                shots.push(shot)
+            }
+        }
+
+        const set = createSceneCardSet(shots)
+        bindNode(set, { storyboardId: this.storyboardId, entityType: 'scene-card-set', entityId: '' })
+        const first = this.getSortedActFrames()[0]
+        set.x = (first ? first.x : PANEL_LAYOUT.ORIGIN_X) - set.width - PANEL_LAYOUT.ACT_GAP
+        set.y = first ? first.y : PANEL_LAYOUT.ORIGIN_Y
+        this.sceneCardSet = set
+
+        log('Scene Card component set created with variants:', shots)
+        return set
+    }
+
+    private async createPanel(scene: Scene): Promise<InstanceNode> {
+        const set = await this.getSceneCardSet()
+        const variant = await getSceneCardVariant(set, getShotVariant(scene.shotType))
+        const card = variant.createInstance()
+        await this.renderPanel(card, scene)
+        return card
+    }
+
+    private async renderPanel(card: InstanceNode, scene: Scene): Promise<void> {
+        // Scene fields as property overrides (a new shot type adds its variant first),
+        // then act frame, position and image
+        await getSceneCardVariant(await this.getSceneCardSet(), getShotVariant(scene.shotType))
+        if (await renderSceneCard(card, scene)) {
+            card.setPluginData(PLUGIN_DATA_KEYS.IMAGE_URL, '')
+        }
+        this.placePanel(card, scene)
+        this.arrangeActFrames()
+        await this.updatePanelImage(card, scene)
+    }
+
+    private async updatePanelImage(card: InstanceNode, scene: Scene): Promise<void> {
+        // Fill override of the card's image layer, loaded again only when imageUrl changed
+        const imageUrl = scene.imageUrl || ''
+        if (card.getPluginData(PLUGIN_DATA_KEYS.IMAGE_URL) === imageUrl) {
+            return
+        }
+
+        const imageLayer = await getSceneCardImage(card)
+        if (!imageLayer) {
+            log('Scene card has no image layer:', scene.id)
+            return
+        }
+
+        try {
+            setPanelImage(imageLayer, imageUrl ? await loadImage(imageUrl) : null, imageUrl, card)
+            log('Card image updated for scene:', scene.id)
+        } catch (error) {
+            log('Failed to load card image:', error)
+        }
+    }
+
+    private getPanelRow(actNumber: number): FrameNode {
+        // Row of the act frame, (re)created if the frame or its row was deleted
+        let frame = this.panelActFrames.get(actNumber)
+        let row = frame && !frame.removed ? getActPanelRow(frame) : null
+
+        if (!frame || frame.removed || !row) {
+            const first = this.getSortedActFrames()[0]
+            frame = createActFrame()
+            this.markActSection(frame, actNumber)
+            frame.x = first ? first.x : PANEL_LAYOUT.ORIGIN_X
+            frame.y = first ? first.y : PANEL_LAYOUT.ORIGIN_Y
+            figma.currentPage.appendChild(frame)
+            this.panelActFrames.set(actNumber, frame)
+            row = getActPanelRow(frame) as FrameNode
+            log('Created act frame:', actNumber)
+        }
+
+        renderActFrame(frame, this.getActName(actNumber), this.getActStyle(actNumber).color)
+        return row
+    }
+
+    private placePanel(panel: SceneNode, scene: Scene): void {
+        // Into the row of its act frame, after the panels with a lower sceneNumber
+        const row = this.getPanelRow(getSceneActNumber(scene, this.acts))
 
-            // Calculate dynamic size based on scene count in this act
-            // Default to 5 scenes if sceneRange not defined, otherwise use actual range
-            let scenesInAct = 5  // Default assumption
-            if (act.sceneRange && act.sceneRange.length === 2) {
-                scenesInAct = act.sceneRange[1] - act.sceneRange[0] + 1
+        let index = 0
+        for (const child of row.children) {
+            const binding = readBinding(child)
+            const other = binding && child.id !== panel.id ? this.sceneDataMap.get(binding.entityId) : undefined
+            if (other && (other.sceneNumber < scene.sceneNumber || (other.sceneNumber === scene.sceneNumber && other.id < scene.id))) {
+                index++
             }
+        }
 
-            // Width needed for this act = padding + (scenes * (width + spacing)) + padding
-            const actWidth = (SECTION_PADDING * 2) + (scenesInAct * (STICKY_WIDTH + STICKY_SPACING))
-            // Height: image + margin + sticky + padding (updated for larger image)
-            const actHeight = IMAGE_HEIGHT + IMAGE_MARGIN + STICKY_HEIGHT_ESTIMATE + SECTION_VERTICAL_PADDING
+        if (panel.parent === row) {
+            if (row.children.indexOf(panel) === index) {
+                return
+            }
+            // insertChild counts positions without the panel itself
+            figma.currentPage.appendChild(panel)
+        }
+        row.insertChild(index, panel)
+    }
 
-            const actSection = figma.createSection()
-            actSection.name = `${actColor.name}: ${act.name}`
-            actSection.x = offsetX
-            actSection.y = 100
+    private getSortedActFrames(): FrameNode[] {
+        return Array.from(this.panelActFrames.entries())
+            .filter(entry => !entry[1].removed)
+            .sort((a, b) => a[0] - b[0])
+            .map(entry => entry[1])
+    }
 
-            // Set size BEFORE adding to parent
-            actSection.resizeWithoutConstraints(actWidth, actHeight)
+    private arrangeActFrames(): void {
+        // Act frames without panels whose act is gone are removed, the rest stacked by act number
+        for (const [actNumber, frame] of this.panelActFrames) {
+            const row = frame.removed ? null : getActPanelRow(frame)
+            const isEmpty = !row || row.children.length === 0
+            if (frame.removed || (isEmpty && !this.acts.some(act => act.number === actNumber))) {
+                if (!frame.removed) {
+                    frame.remove()
+                }
+                this.panelActFrames.delete(actNumber)
+            }
+        }
+        stackFrames(this.getSortedActFrames())
+    }
 
-            // Semi-transparent background
-            const bgColor = this.hslToRgb(actColor.h, actColor.s, actColor.l)
-            actSection.fills = [{
-                type: 'SOLID',
-                color: bgColor,
-                opacity: 0.1
-            }]
+    async refreshActFrames(): Promise<void> {
+        // Storyboard row changed: rename and recolor act frames
+        await loadPanelFonts()
+        for (const [actNumber, frame] of this.panelActFrames) {
+            if (!frame.removed) {
+                renderActFrame(frame, this.getActName(actNumber), this.getActStyle(actNumber).color)
+            }
+        }
+        this.arrangeActFrames()
+    }
 
-            this.scenesFrame.appendChild(actSection)
-            this.actFrames.set(act.number, actSection)
+    private async relayoutPanels(): Promise<number> {
+        await loadPanelFonts()
 
-            offsetX += actWidth + ACT_SECTION_GAP
+        let moved = 0
+        for (const [sceneId, node] of this.sceneNodeMap) {
+            const scene = this.sceneDataMap.get(sceneId)
+            if (!scene || node.removed || node.type !== 'INSTANCE') continue
 
-            log(`Created act section: ${act.name} (${scenesInAct} scenes, ${actWidth}x${actHeight}px)`)
+            this.placePanel(node, scene)
+            moved++
         }
+        this.arrangeActFrames()
+
+        log(`Re-layout (panels) moved ${moved} scenes`)
+        return moved
     }
 
     async createOrUpdateScene(scene: Scene): Promise<string | undefined> {
         log('Creating or updating scene:', scene.id)
 
+        // Node bound to this scene on the canvas (see initializeFromCanvas)
+        const boundNode = this.sceneNodeMap.get(scene.id)
+        if (boundNode && !boundNode.removed) {
+            log('Found bound node, updating:', boundNode.id)
+            if (boundNode.type === 'STICKY') {
+                await this.updateExistingScene(boundNode, scene)
+            } else {
+                await this.updateScene(scene)
+            }
+            return boundNode.id
+        }
+
         // Try to find existing node if figmaNodeId is provided
         let existingNode: StickyNode | null = null
         if (scene.figmaNodeId) {
@@ -184,6 +795,7 @@ class SceneManager {
             if (existingNode) {
                 log('Found existing node, updating:', scene.figmaNodeId)
                 await this.updateExistingScene(existingNode, scene)
+                bindNode(existingNode, { storyboardId: scene.storyboardId, entityType: 'scene', entityId: scene.id })
                 this.sceneNodeMap.set(scene.id, existingNode)
                 return scene.figmaNodeId
             } else {
@@ -209,35 +821,24 @@ class SceneManager {
                     this.createScenesFrame()
                 }
 
-                // Ensure act frames exist if acts are defined
-                if (this.acts.length > 0 && this.actFrames.size === 0) {
-                    this.createActSections()
+                // Ensure act frames exist for every act
+                if (this.hasMissingActSections()) {
+                    if (this.actFrames.size === 0) {
+                        this.createActSections()
+                    } else {
+                        this.refreshActSections()
+                    }
                 }
 
-                // Spacing constants
-                const STICKY_WIDTH = 600  // 1.5x wider
-                const STICKY_SPACING = 50
-                const SECTION_PADDING = 100
-                const IMAGE_WIDTH = 450  // 1.5x wider (matches sticky proportion)
-                const IMAGE_HEIGHT = 300  // 1.5x taller (keep aspect ratio)
-                const IMAGE_MARGIN = 20  // Gap between image and sticky
-
-                // Add to act section if exists, otherwise to scenes section
-                const actNumber = scene.actNumber || 1
-                const actSection = this.actFrames.get(actNumber)
-
-                // Count scenes in this act to position them
-                const actSceneCount = this.getSceneCountInAct(actNumber)
-
-                // Calculate base position
-                const baseX = SECTION_PADDING + (actSceneCount * (STICKY_WIDTH + STICKY_SPACING))
-                const baseY = 100
+                // Slot from the layout engine (act section or scenes section + position)
+                const slot = this.getSlotForNewScene(scene)
 
                 // Create image if imageUrl exists
                 if (scene.imageUrl) {
                     try {
-                        imageNode = await this.createSceneImage(scene.imageUrl, IMAGE_WIDTH, IMAGE_HEIGHT)
+                        imageNode = await createImageNode(scene.imageUrl, LAYOUT.IMAGE_WIDTH, LAYOUT.IMAGE_HEIGHT)
                         imageNode.name = `🎨 Image: Scene ${scene.sceneNumber}`
+                        this.bindSceneImage(imageNode, scene)
                         log('Scene image created from:', scene.imageUrl)
                     } catch (error) {
                         log('Failed to load scene image:', error)
@@ -246,7 +847,7 @@ class SceneManager {
 
                 // Create sticky note in FigJam
                 const stickyNode = figma.createSticky()
-                stickyNode.text.characters = this.formatSceneText(scene)
+                this.renderSceneText(stickyNode, scene)
 
                 // Apply color (uses scene.color if set, otherwise act color)
                 this.applySceneColor(stickyNode, scene)
@@ -254,83 +855,31 @@ class SceneManager {
                 // Try to make sticky wider by setting minimum width
                 // StickyNode doesn't support resize(), but may support size constraints
                 try {
-                    stickyNode.minWidth = STICKY_WIDTH
-                    log('Set sticky minWidth to:', STICKY_WIDTH)
+                    stickyNode.minWidth = LAYOUT.STICKY_WIDTH
+                    log('Set sticky minWidth to:', LAYOUT.STICKY_WIDTH)
                 } catch (error) {
                     log('Could not set sticky minWidth:', error)
                 }
 
-                // Position nodes based on whether we have an image
-                const stickyY = imageNode ? baseY + IMAGE_HEIGHT + IMAGE_MARGIN : baseY
-
-                // Check if act section exists and wasn't removed
-                if (actSection && !actSection.removed) {
-                    // Add image to section if exists
-                    if (imageNode) {
-                        actSection.appendChild(imageNode)
-                        imageNode.x = baseX
-                        imageNode.y = baseY
-                        log('Added image at relative position', baseX, baseY)
-                    }
-
-                    // Add sticky to section
-                    actSection.appendChild(stickyNode)
-                    stickyNode.x = baseX
-                    stickyNode.y = stickyY
-                    log('Added to act section:', actNumber, 'at relative position', baseX, stickyY)
-                } else if (this.scenesFrame && !this.scenesFrame.removed) {
-                    // Add image to scenes section if exists
-                    if (imageNode) {
-                        this.scenesFrame.appendChild(imageNode)
-                        imageNode.x = baseX
-                        imageNode.y = baseY
-                    }
-
-                    // Add sticky to scenes section
-                    this.scenesFrame.appendChild(stickyNode)
-                    stickyNode.x = baseX
-                    stickyNode.y = stickyY
-                    log('Added to scenes section at relative position', baseX, stickyY)
-                } else {
-                    // Fallback to current page if sections were deleted
-                    if (imageNode) {
-                        figma.currentPage.appendChild(imageNode)
-                        imageNode.x = baseX
-                        imageNode.y = baseY
-                    }
-
-                    figma.currentPage.appendChild(stickyNode)
-                    stickyNode.x = baseX
-                    stickyNode.y = stickyY
-                    log('Added to current page (no valid sections)')
+                if (imageNode) {
+                    this.imageNodeMap.set(scene.id, imageNode)
                 }
+                this.placeSceneNodes(scene.id, stickyNode, slot)
+                log('Placed scene', scene.id, 'in', slot.actNumber !== null ? `act ${slot.actNumber}` : 'scenes section', 'at', slot.x, slot.y)
 
                 node = stickyNode
             } else {
-                // Create frame in Figma (fonts already loaded)
-                const frame = figma.createFrame()
-                frame.name = `Scene ${scene.sceneNumber}: ${scene.shotType}`
-                frame.resize(250, 350)
-                frame.x = (scene.sceneNumber - 1) * 300
-                frame.y = 100
-
-                // Add text (Inter Regular already loaded)
-                const text = figma.createText()
-                text.characters = this.formatSceneText(scene)
-                text.fontSize = 12
-                text.x = 10
-                text.y = 10
-                text.resize(230, text.height)
-
-                frame.appendChild(text)
-                node = frame
-            }
-
-            // Store node references
-            this.sceneNodeMap.set(scene.id, node)
-            if (imageNode) {
-                this.imageNodeMap.set(scene.id, imageNode)
+                // Scene Card instance in its act frame (Figma design files)
+                this.sceneDataMap.set(scene.id, scene)
+                node = await this.createPanel(scene)
+                log('Placed panel for scene', scene.id, 'in act', getSceneActNumber(scene, this.acts))
             }
+
+            // Store node references (on the canvas too, for the next session)
+            bindNode(node, { storyboardId: scene.storyboardId, entityType: 'scene', entityId: scene.id })
+            this.sceneNodeMap.set(scene.id, node)
+            this.sceneDataMap.set(scene.id, scene)
+            await this.syncVariantStrip(scene)
             log('Scene created successfully:', scene.id)
 
             // Return Figma node ID
@@ -350,7 +899,8 @@ class SceneManager {
             const currentColor = this.getNodeColor(node)
 
             // Update text
-            node.text.characters = this.formatSceneText(scene)
+            this.renderSceneText(node, scene)
+            this.sceneDataMap.set(scene.id, scene)
 
             // Update color: use scene.color if set, otherwise keep current, fallback to act color
             if (scene.color) {
@@ -365,6 +915,8 @@ class SceneManager {
                 this.applySceneColor(node, scene)
             }
 
+            await this.syncVariantStrip(scene)
+
             log('Scene updated successfully:', scene.id)
 
         } catch (error) {
@@ -385,23 +937,23 @@ class SceneManager {
 
         try {
             const isFigJam = figma.editorType === 'figjam'
-            const formattedText = this.formatSceneText(scene)
+            this.sceneDataMap.set(scene.id, scene)
 
             if (isFigJam && node.type === 'STICKY') {
-                node.text.characters = formattedText
+                this.renderSceneText(node, scene)
 
                 // Handle image update
                 await this.updateSceneImage(scene, node)
+                await this.syncVariantStrip(scene)
+            } else if (node.type === 'INSTANCE') {
+                // Overrides, act frame and position follow the scene; image reloaded if it changed
+                await this.renderPanel(node, scene)
             } else if (node.type === 'FRAME') {
-                // Update frame name
-                node.name = `Scene ${scene.sceneNumber}: ${scene.shotType}`
-
-                // Find and update text node
-                const textNode = node.findChild((child) => child.type === 'TEXT') as TextNode
-                if (textNode) {
-                    await figma.loadFontAsync({ family: 'Inter', style: 'Regular' })
-                    textNode.characters = formattedText
-                }
+                // Frame of an older version (bare frame or plain panel): rebuilt as a Scene Card
+                log('Replacing legacy scene frame with a Scene Card:', scene.id)
+                node.remove()
+                this.sceneNodeMap.delete(scene.id)
+                await this.createNewScene(scene)
             }
 
             log('Scene updated successfully:', scene.id)
@@ -425,9 +977,7 @@ class SceneManager {
             return
         }
 
-        const IMAGE_WIDTH = 450
-        const IMAGE_HEIGHT = 300
-        const IMAGE_MARGIN = 20
+        const { IMAGE_WIDTH, IMAGE_HEIGHT, IMAGE_MARGIN } = LAYOUT
 
         // Check if image node already exists
         let imageNode = this.imageNodeMap.get(scene.id)
@@ -436,8 +986,9 @@ class SceneManager {
             // Update existing image
             log('Updating existing image for scene:', scene.id)
             try {
-                const newImageNode = await this.createSceneImage(scene.imageUrl, IMAGE_WIDTH, IMAGE_HEIGHT)
+                const newImageNode = await createImageNode(scene.imageUrl, IMAGE_WIDTH, IMAGE_HEIGHT)
                 newImageNode.name = `🎨 Image: Scene ${scene.sceneNumber}`
+                this.bindSceneImage(newImageNode, scene)
 
                 // Position new image at same location as old one
                 newImageNode.x = imageNode.x
@@ -463,8 +1014,9 @@ class SceneManager {
             // Create new image
             log('Creating new image for scene:', scene.id)
             try {
-                const newImageNode = await this.createSceneImage(scene.imageUrl, IMAGE_WIDTH, IMAGE_HEIGHT)
+                const newImageNode = await createImageNode(scene.imageUrl, IMAGE_WIDTH, IMAGE_HEIGHT)
                 newImageNode.name = `🎨 Image: Scene ${scene.sceneNumber}`
+                this.bindSceneImage(newImageNode, scene)
 
                 // Position image above sticky
                 const parent = stickyNode.parent
@@ -491,27 +1043,116 @@ class SceneManager {
         }
     }
 
-    deleteScene(sceneId: string): void {
-        log('Deleting scene:', sceneId)
+    private getImageVariants(scene: Scene): SceneImageVariants | null {
+        const imageVariants = scene.metadata ? scene.metadata.imageVariants as SceneImageVariants | undefined : undefined
+        return imageVariants && Array.isArray(imageVariants.variants) && imageVariants.variants.length > 0
+            ? imageVariants
+            : null
+    }
 
-        const node = this.sceneNodeMap.get(sceneId)
-        if (!node) {
-            log('Scene node not found')
+    private async syncVariantStrip(scene: Scene): Promise<void> {
+        // Contact strip above the scene image while its variants wait for a pick;
+        // removed once the scene has no metadata.imageVariants any more
+        const imageVariants = figma.editorType === 'figjam' ? this.getImageVariants(scene) : null
+        const strip = this.variantStripMap.get(scene.id)
+
+        if (strip && !strip.removed && imageVariants && strip.getPluginData(PLUGIN_DATA_KEYS.VARIANT_GROUP) === imageVariants.group) {
+            this.positionVariantStrip(scene.id)
             return
         }
 
-        try {
-            // Remove sticky/frame node
-            node.remove()
-            this.sceneNodeMap.delete(sceneId)
-
-            // Remove image node if exists
-            const imageNode = this.imageNodeMap.get(sceneId)
-            if (imageNode && !imageNode.removed) {
-                imageNode.remove()
-                this.imageNodeMap.delete(sceneId)
-                log('Image node deleted for scene:', sceneId)
-            }
+        if (strip && !strip.removed) {
+            strip.remove()
+        }
+        this.variantStripMap.delete(scene.id)
+
+        if (!imageVariants) {
+            return
+        }
+
+        const { VARIANT_WIDTH, VARIANT_HEIGHT, VARIANT_GAP } = LAYOUT
+        const newStrip = figma.createFrame()
+        newStrip.name = `🎞 Variants: Scene ${scene.sceneNumber} (select one)`
+        newStrip.fills = [{ type: 'SOLID', color: { r: 0.95, g: 0.95, b: 0.95 } }]
+        newStrip.cornerRadius = 8
+        bindNode(newStrip, { storyboardId: scene.storyboardId, entityType: 'scene-variants', entityId: scene.id })
+        newStrip.setPluginData(PLUGIN_DATA_KEYS.VARIANT_GROUP, imageVariants.group)
+
+        let x = VARIANT_GAP
+        for (let index = 0; index < imageVariants.variants.length; index++) {
+            const variant = imageVariants.variants[index]
+            try {
+                const thumbnail = await createImageNode(variant.url, VARIANT_WIDTH, VARIANT_HEIGHT)
+                thumbnail.name = `Variant ${index + 1}`
+                bindNode(thumbnail, { storyboardId: scene.storyboardId, entityType: 'scene-variant', entityId: scene.id })
+                thumbnail.setPluginData(PLUGIN_DATA_KEYS.MEDIA_ID, variant.mediaId)
+                thumbnail.setPluginData(PLUGIN_DATA_KEYS.IMAGE_URL, variant.url)
+                newStrip.appendChild(thumbnail)
+                thumbnail.x = x
+                thumbnail.y = VARIANT_GAP
+                x += VARIANT_WIDTH + VARIANT_GAP
+            } catch (error) {
+                log('Failed to load image variant:', variant.url, error)
+            }
+        }
+        newStrip.resize(Math.max(x, VARIANT_WIDTH), VARIANT_HEIGHT + VARIANT_GAP * 2)
+
+        this.variantStripMap.set(scene.id, newStrip)
+        this.positionVariantStrip(scene.id)
+        log('Variant strip created for scene:', scene.id, imageVariants.variants.length)
+    }
+
+    private positionVariantStrip(sceneId: string): void {
+        // Above the scene image (above the sticky if there is no image yet)
+        const strip = this.variantStripMap.get(sceneId)
+        const imageNode = this.imageNodeMap.get(sceneId)
+        const anchor = imageNode && !imageNode.removed ? imageNode : this.sceneNodeMap.get(sceneId)
+        if (!strip || strip.removed || !anchor || anchor.removed || !anchor.parent) {
+            return
+        }
+
+        if (strip.parent !== anchor.parent) {
+            anchor.parent.appendChild(strip)
+        }
+        strip.x = anchor.x
+        strip.y = anchor.y - strip.height - LAYOUT.IMAGE_MARGIN
+    }
+
+    deleteScene(sceneId: string): void {
+        log('Deleting scene:', sceneId)
+
+        const node = this.sceneNodeMap.get(sceneId)
+        if (!node) {
+            log('Scene node not found')
+            return
+        }
+
+        try {
+            // Remove sticky/frame node
+            node.remove()
+            this.sceneNodeMap.delete(sceneId)
+            this.sceneDataMap.delete(sceneId)
+            this.renderedTextMap.delete(sceneId)
+            this.pendingEchoes.delete(sceneId)
+            this.placedPositionMap.delete(sceneId)
+
+            // Remove image node if exists
+            const imageNode = this.imageNodeMap.get(sceneId)
+            if (imageNode && !imageNode.removed) {
+                imageNode.remove()
+                this.imageNodeMap.delete(sceneId)
+                log('Image node deleted for scene:', sceneId)
+            }
+
+            const strip = this.variantStripMap.get(sceneId)
+            if (strip && !strip.removed) {
+                strip.remove()
+            }
+            this.variantStripMap.delete(sceneId)
+
+            if (figma.editorType !== 'figjam') {
+                this.arrangeActFrames()
+            }
 
             log('Scene deleted successfully:', sceneId)
         } catch (error) {
@@ -520,58 +1161,128 @@ class SceneManager {
         }
     }
 
-    createConnectors(scenes: Scene[]): void {
-        log('Creating connectors for scenes...')
-
-        // Only create connectors in FigJam
+    adoptUnboundConnectors(): void {
+        // Connectors created before bindings: bind one per edge, remove the duplicates
         if (figma.editorType !== 'figjam') {
-            log('Skipping connectors - not in FigJam')
             return
         }
 
-        for (const scene of scenes) {
-            // Skip if no connections defined
-            if (!scene.nextScenes || scene.nextScenes.length === 0) {
+        const sceneIdByNodeId: Map<string, string> = new Map()
+        for (const [sceneId, node] of this.sceneNodeMap) {
+            sceneIdByNodeId.set(node.id, sceneId)
+        }
+
+        for (const connector of figma.currentPage.findAllWithCriteria({ types: ['CONNECTOR'] })) {
+            if (readBinding(connector)) {
                 continue
             }
-
-            const currentNode = this.sceneNodeMap.get(scene.id)
-            if (!currentNode) {
-                log('Warning: Node not found for scene', scene.id)
+            const start = connector.connectorStart
+            const end = connector.connectorEnd
+            const fromId = 'endpointNodeId' in start ? sceneIdByNodeId.get(start.endpointNodeId) : undefined
+            const toId = 'endpointNodeId' in end ? sceneIdByNodeId.get(end.endpointNodeId) : undefined
+            if (!fromId || !toId) {
                 continue
             }
 
-            // Create connector to each next scene
-            for (const nextSceneId of scene.nextScenes) {
-                const nextNode = this.sceneNodeMap.get(nextSceneId)
+            const connectorId = connectorEntityId(fromId, toId)
+            const existing = this.connectorNodeMap.get(connectorId)
+            if (existing && !existing.removed) {
+                connector.remove()
+                log('Removed duplicate connector:', connectorId)
+            } else {
+                bindNode(connector, { storyboardId: this.storyboardId, entityType: 'connector', entityId: connectorId })
+                this.connectorNodeMap.set(connectorId, connector)
+            }
+        }
+    }
+
+    /**
+     * Reconcile connectors with nextScenes of every known scene: create missing ones,
+     * re-attach and restyle existing ones, delete the ones no longer in the graph
+     * @returns figmaConnectorIds of the scenes whose connectors changed
+     */
+    async syncConnectors(): Promise<Map<string, string[]>> {
+        const changed: Map<string, string[]> = new Map()
+
+        // Only create connectors in FigJam
+        if (figma.editorType !== 'figjam') {
+            return changed
+        }
+
+        const wanted: Set<string> = new Set()
+        for (const scene of this.sceneDataMap.values()) {
+            const fromNode = this.sceneNodeMap.get(scene.id)
+            const nextScenes = (scene.nextScenes || []).filter((id, index, ids) => id !== scene.id && ids.indexOf(id) === index)
+            const connectorIds: string[] = []
 
-                if (!nextNode) {
-                    log('Warning: Next scene node not found:', nextSceneId)
+            for (const nextSceneId of nextScenes) {
+                const toNode = this.sceneNodeMap.get(nextSceneId)
+                if (!fromNode || fromNode.removed || !toNode || toNode.removed) {
+                    log('Skipping connector, scene node missing:', scene.id, '→', nextSceneId)
                     continue
                 }
 
-                try {
-                    const connector = figma.createConnector()
-                    connector.strokeWeight = 4
+                const connectorId = connectorEntityId(scene.id, nextSceneId)
+                wanted.add(connectorId)
 
-                    connector.connectorStart = {
-                        endpointNodeId: currentNode.id,
-                        magnet: 'AUTO'
-                    }
+                let connector = this.connectorNodeMap.get(connectorId)
+                if (!connector || connector.removed) {
+                    connector = figma.createConnector()
+                    bindNode(connector, { storyboardId: scene.storyboardId, entityType: 'connector', entityId: connectorId })
+                    this.connectorNodeMap.set(connectorId, connector)
+                    log(`Created connector: ${scene.id} → ${nextSceneId}`)
+                }
 
-                    connector.connectorEnd = {
-                        endpointNodeId: nextNode.id,
-                        magnet: 'AUTO'
-                    }
+                // Scene nodes may have been re-created since the connector was drawn
+                connector.connectorStart = { endpointNodeId: fromNode.id, magnet: 'AUTO' }
+                connector.connectorEnd = { endpointNodeId: toNode.id, magnet: 'AUTO' }
 
-                    log(`Created connector: ${scene.id} → ${nextSceneId}`)
-                } catch (error) {
-                    log('Error creating connector:', error)
+                const label = nextScenes.length > 1 ? this.getBranchLabel(scene, nextSceneId, nextScenes.indexOf(nextSceneId)) : ''
+                await this.styleConnector(connector, label)
+                connectorIds.push(connector.id)
+            }
+
+            const saved = scene.figmaConnectorIds || []
+            if (connectorIds.length !== saved.length || connectorIds.some((id, index) => id !== saved[index])) {
+                this.sceneDataMap.set(scene.id, { ...scene, figmaConnectorIds: connectorIds })
+                changed.set(scene.id, connectorIds)
+            }
+        }
+
+        // Stale edges: removed from nextScenes, or one of the scenes is gone
+        for (const [connectorId, connector] of this.connectorNodeMap) {
+            if (!wanted.has(connectorId)) {
+                if (!connector.removed) {
+                    connector.remove()
                 }
+                this.connectorNodeMap.delete(connectorId)
+                log('Removed stale connector:', connectorId)
             }
         }
 
-        log('Connectors creation complete')
+        return changed
+    }
+
+    private getBranchLabel(scene: Scene, nextSceneId: string, index: number): string {
+        // Explicit label from the scene, otherwise "Option A", "Option B", ...
+        const label = scene.nextSceneLabels && scene.nextSceneLabels[nextSceneId]
+        return label || `Option ${String.fromCharCode(65 + index % 26)}`
+    }
+
+    private async styleConnector(connector: ConnectorNode, label: string): Promise<void> {
+        // Linear edges are plain arrows; branches are dashed and labelled
+        connector.strokeWeight = 4
+        connector.strokes = [{ type: 'SOLID', color: { r: 0.33, g: 0.33, b: 0.33 } }]
+        connector.connectorEndStrokeCap = 'ARROW_LINES'
+        connector.dashPattern = label ? [12, 8] : []
+
+        if (connector.text.characters !== label) {
+            const fontName = connector.text.fontName
+            if (fontName !== figma.mixed) {
+                await figma.loadFontAsync(fontName)
+            }
+            connector.text.characters = label
+        }
     }
 
     private formatSceneText(scene: Scene): string {
@@ -581,18 +1292,300 @@ class SceneManager {
         text += `${scene.description}\n`
 
         if (scene.dialogue) {
-            text += `\n💬 "${scene.dialogue}"\n`
+            text += `\n${DIALOGUE_PREFIX}"${scene.dialogue}"\n`
         }
 
         if (scene.notes) {
-            text += `\n📝 ${this.toSmall(scene.notes)}\n`
+            text += `\n${NOTES_PREFIX}${this.toSmall(scene.notes)}\n`
         }
 
-        text += `\n⏱ ${scene.duration}`
+        text += `\n${DURATION_PREFIX}${scene.duration}`
 
         return text
     }
 
+    private renderSceneText(node: StickyNode, scene: Scene): void {
+        // Write sticky text and remember it, so the resulting documentchange is not treated as a user edit
+        const text = this.formatSceneText(scene)
+        node.text.characters = text
+        this.renderedTextMap.set(scene.id, text)
+    }
+
+    private parseSceneText(text: string, scene: Scene): Partial<EditableSceneFields> | null {
+        // Reverse of formatSceneText: header lines are skipped, the rest is split by line prefixes
+        const lines = text.split('\n')
+        if (lines.length < 2 || !lines[0].startsWith(this.toBold('SCENE'))) {
+            log('Sticky text does not start with a scene header, ignoring edit')
+            return null
+        }
+
+        const description: string[] = []
+        const dialogue: string[] = []
+        const notes: string[] = []
+        let duration = ''
+        let current = description
+
+        for (const line of lines.slice(2)) {
+            if (line.startsWith(DIALOGUE_PREFIX)) {
+                current = dialogue
+                current.push(line.slice(DIALOGUE_PREFIX.length))
+            } else if (line.startsWith(NOTES_PREFIX)) {
+                current = notes
+                current.push(line.slice(NOTES_PREFIX.length))
+            } else if (line.startsWith(DURATION_PREFIX)) {
+                duration = line.slice(DURATION_PREFIX.length).trim()
+            } else {
+                current.push(line)
+            }
+        }
+
+        // Notes are rendered in small capitals, which loses case: keep the
+        // original notes if the rendered text didn't change
+        const parsedNotes = notes.join('\n').trim()
+        const notesValue = parsedNotes === this.toSmall(scene.notes || '').trim()
+            ? scene.notes
+            : this.fromSmall(parsedNotes)
+
+        const parsed: EditableSceneFields = {
+            description: description.join('\n').trim(),
+            dialogue: dialogue.join('\n').trim().replace(/^"/, '').replace(/"$/, ''),
+            notes: notesValue,
+            duration
+        }
+
+        const changes: Partial<EditableSceneFields> = {}
+        if (parsed.description !== (scene.description || '')) changes.description = parsed.description
+        if (parsed.dialogue !== (scene.dialogue || '')) changes.dialogue = parsed.dialogue
+        if (parsed.notes !== (scene.notes || '')) changes.notes = parsed.notes
+        if (parsed.duration !== (scene.duration || '')) changes.duration = parsed.duration
+        return changes
+    }
+
+    findSceneIdByStickyId(nodeId: string): string | null {
+        // Returns the scene id of a tracked scene sticky
+        for (const [sceneId, node] of this.sceneNodeMap) {
+            if (node.id === nodeId && node.type === 'STICKY') {
+                return sceneId
+            }
+        }
+        return null
+    }
+
+    collectSceneEdit(sceneId: string): SceneEdit | null {
+        // Compare the sticky on canvas with the last known scene data
+        const node = this.sceneNodeMap.get(sceneId)
+        const scene = this.sceneDataMap.get(sceneId)
+        if (!node || node.removed || node.type !== 'STICKY' || !scene) {
+            return null
+        }
+
+        let changes: Partial<EditableSceneFields> = {}
+
+        // Text edits (skip if the text is exactly what the plugin rendered)
+        const currentText = node.text.characters
+        if (currentText !== this.renderedTextMap.get(sceneId)) {
+            const parsed = this.parseSceneText(currentText, scene)
+            if (parsed) {
+                changes = parsed
+            }
+        }
+
+        if (Object.keys(changes).length === 0) {
+            return null
+        }
+
+        const updatedAt = new Date().toISOString()
+        const updatedScene: Scene = { ...scene, ...changes, updatedAt }
+
+        this.sceneDataMap.set(sceneId, updatedScene)
+        this.renderedTextMap.set(sceneId, currentText)
+        this.pendingEchoes.set(sceneId, updatedScene)
+
+        log('Scene edited on canvas:', sceneId, changes)
+        return {
+            sceneId,
+            storyboardId: scene.storyboardId,
+            changes,
+            updatedAt
+        }
+    }
+
+    /**
+     * Put a scene back to its last known data after a canvas edit could not be saved
+     */
+    async restoreScene(scene: Scene): Promise<void> {
+        this.pendingEchoes.delete(scene.id)
+        await this.updateScene(scene)
+        log('Restored scene after a failed save:', scene.id)
+    }
+
+    isOwnEcho(scene: Scene): boolean {
+        // Realtime echo of an edit this plugin pushed: keep data, skip re-render. Anything else
+        // in the row (e.g. a worker's image) means it has to be rendered after all
+        const savedScene = this.pendingEchoes.get(scene.id)
+        if (!savedScene || savedScene.updatedAt !== scene.updatedAt || !isSameSceneContent(savedScene, scene)) {
+            return false
+        }
+
+        this.pendingEchoes.delete(scene.id)
+        this.sceneDataMap.set(scene.id, scene)
+        log('Skipping realtime echo of canvas edit:', scene.id)
+        return true
+    }
+
+    private getPositionKey(node: SceneNode): string {
+        return `${node.parent ? node.parent.id : ''}:${Math.round(node.x)}:${Math.round(node.y)}`
+    }
+
+    isStickyDragged(sceneId: string): boolean {
+        // Moves made by the plugin (sync, layout) leave the sticky where placeSceneNodes put it
+        const node = this.sceneNodeMap.get(sceneId)
+        return !!node && !node.removed && this.getPositionKey(node) !== this.placedPositionMap.get(sceneId)
+    }
+
+    /**
+     * Scene order as arranged on the canvas: act sections in act order, inside each the stickies
+     * row by row and then by x (the SCENES section when there are no acts), numbered 1..n
+     * @returns Scenes whose sceneNumber or actNumber differ (empty if none), or null when the order
+     * can't be read (flow layout, design file, a scene whose sticky is missing or outside the sections)
+     */
+    readSceneOrder(): SceneOrderChange[] | null {
+        if (figma.editorType !== 'figjam' || !this.layoutEngine.usesActSections) {
+            return null
+        }
+
+        const useActs = this.acts.length > 0
+        const cards: Array<{ scene: Scene; actNumber: number | null; row: number; x: number }> = []
+        for (const scene of this.sceneDataMap.values()) {
+            const node = this.sceneNodeMap.get(scene.id)
+            if (!node || node.removed || node.type !== 'STICKY') {
+                log('Scene has no sticky, canvas order not read:', scene.id)
+                return null
+            }
+
+            const actNumber = useActs ? this.getActNumberForSection(node.parent) : null
+            const inSection = useActs ? actNumber !== null : !!this.scenesFrame && node.parent === this.scenesFrame
+            if (!inSection) {
+                log('Sticky outside the scene sections, canvas order not read:', scene.id)
+                return null
+            }
+            cards.push({ scene, actNumber, row: getStickyRow(node.y), x: node.x })
+        }
+
+        cards.sort((a, b) => (a.actNumber || 0) - (b.actNumber || 0) || a.row - b.row || a.x - b.x)
+
+        const changes: SceneOrderChange[] = []
+        cards.forEach(({ scene, actNumber }, index) => {
+            const sceneNumber = index + 1
+            if (actNumber === null) {
+                if (scene.sceneNumber !== sceneNumber) {
+                    changes.push({ sceneId: scene.id, sceneNumber })
+                }
+            } else if (scene.sceneNumber !== sceneNumber || scene.actNumber !== actNumber) {
+                changes.push({ sceneId: scene.id, sceneNumber, actNumber })
+            }
+        })
+        return changes
+    }
+
+    /**
+     * Act moves of dragged stickies, for when the whole order can't be read (see readSceneOrder):
+     * a sticky dropped into another act section moves its scene to that act, keeping its number
+     */
+    readActMoves(sceneIds: string[]): SceneOrderChange[] {
+        const changes: SceneOrderChange[] = []
+        for (const sceneId of sceneIds) {
+            const scene = this.sceneDataMap.get(sceneId)
+            const node = this.sceneNodeMap.get(sceneId)
+            if (!scene || !node || node.removed) {
+                continue
+            }
+
+            const actNumber = this.getActNumberForSection(node.parent)
+            if (actNumber !== null && actNumber !== getSceneActNumber(scene, this.acts)) {
+                changes.push({ sceneId, sceneNumber: scene.sceneNumber, actNumber })
+            }
+        }
+        return changes
+    }
+
+    /**
+     * New scene numbers with the numbers they replace, for the UI to save before anything changes
+     * on the canvas (scenes not on the canvas are left out)
+     */
+    describeSceneOrder(storyboardId: string, changes: SceneOrderChange[]): SceneReorder {
+        const scenes: SceneOrderChange[] = []
+        const previous: SceneOrderChange[] = []
+
+        for (const change of changes) {
+            const scene = this.sceneDataMap.get(change.sceneId)
+            if (!scene) {
+                log('Scene not on the canvas, not renumbered:', change.sceneId)
+                continue
+            }
+
+            // The act is written out even when it came from an act's sceneRange, so undo keeps it
+            previous.push(this.acts.length > 0
+                ? { sceneId: scene.id, sceneNumber: scene.sceneNumber, actNumber: getSceneActNumber(scene, this.acts) }
+                : { sceneId: scene.id, sceneNumber: scene.sceneNumber })
+            scenes.push(change)
+        }
+
+        return { storyboardId, scenes, previous, updatedAt: new Date().toISOString() }
+    }
+
+    /**
+     * Give scenes their saved new numbers (a canvas reorder or its undo): scene data, "SCENE n"
+     * headers and act colors are updated, every scene is laid out again and the realtime echoes
+     * of the save are skipped. Without changes the scenes go back to their current numbers' places.
+     * @param updatedAt updatedAt the numbers were saved with
+     */
+    async applySceneOrder(changes: SceneOrderChange[], updatedAt: string): Promise<void> {
+        for (const change of changes) {
+            const scene = this.sceneDataMap.get(change.sceneId)
+            if (!scene) {
+                continue
+            }
+
+            const updatedScene: Scene = { ...scene, sceneNumber: change.sceneNumber, updatedAt }
+            if (typeof change.actNumber === 'number') {
+                updatedScene.actNumber = change.actNumber
+            }
+            this.sceneDataMap.set(scene.id, updatedScene)
+            this.pendingEchoes.set(scene.id, updatedScene)
+
+            const node = this.sceneNodeMap.get(scene.id)
+            if (!node || node.removed) {
+                continue
+            }
+            if (node.type === 'STICKY') {
+                this.renderSceneText(node, updatedScene)
+                this.applySceneColor(node, updatedScene)
+                const imageNode = this.imageNodeMap.get(scene.id)
+                if (imageNode && !imageNode.removed) {
+                    imageNode.name = `🎨 Image: Scene ${updatedScene.sceneNumber}`
+                }
+            } else if (node.type === 'INSTANCE') {
+                await this.renderPanel(node, updatedScene)
+            }
+        }
+
+        await this.relayout()
+        log(`Renumbered ${changes.length} scenes`)
+    }
+
+    private getActNumberForSection(parent: BaseNode | null): number | null {
+        if (!parent || parent.type !== 'SECTION') {
+            return null
+        }
+        for (const [actNumber, section] of this.actFrames) {
+            if (section.id === parent.id) {
+                return actNumber
+            }
+        }
+        return null
+    }
+
     private toBold(text: string): string {
     // Convert ASCII to Unicode bold characters
         const boldMap: Record<string, string> = {
@@ -623,6 +1616,17 @@ class SceneManager {
         return text.split('').map(char => smallMap[char.toUpperCase()] || char).join('')
     }
 
+    private fromSmall(text: string): string {
+    // Convert Unicode small capitals back to lowercase ASCII (case is lost by toSmall)
+        const smallChars = 'ᴀʙᴄᴅᴇꜰɢʜɪᴊᴋʟᴍɴᴏᴘǫʀsᴛᴜᴠᴡxʏᴢ'
+        const letters = 'abcdefghijklmnopqrstuvwxyz'
+
+        return text.split('').map(char => {
+            const index = smallChars.indexOf(char)
+            return index >= 0 ? letters[index] : char
+        }).join('')
+    }
+
     private rgbToHex(rgb: RGB): string {
         // Convert Figma RGB (0-1) to hex color
         const r = Math.round(rgb.r * 255)
@@ -659,7 +1663,14 @@ class SceneManager {
     }
 
     private applySceneColor(node: StickyNode, scene: Scene): void {
-        // Apply color: use scene.color if set, otherwise color by act
+        node.fills = [{
+            type: 'SOLID',
+            color: this.getSceneColor(scene)
+        }]
+    }
+
+    private getSceneColor(scene: Scene): RGB {
+        // Scene color: use scene.color if set, otherwise color by act
         let color: RGB
 
         if (scene.color) {
@@ -670,69 +1681,14 @@ class SceneManager {
                 log('Using saved color:', scene.color)
             } else {
                 log('Invalid color format, using act color:', scene.color)
-                color = this.getActColor(scene.actNumber || 1)
+                color = this.getActStyle(getSceneActNumber(scene, this.acts)).color
             }
         } else {
             // Use act-based color
-            color = this.getActColor(scene.actNumber || 1)
+            color = this.getActStyle(getSceneActNumber(scene, this.acts)).color
         }
 
-        node.fills = [{
-            type: 'SOLID',
-            color: color
-        }]
-    }
-
-    async createSceneImage(imageUrl: string, width: number, height: number): Promise<RectangleNode> {
-        log('Creating scene image from URL:', imageUrl)
-
-        try {
-            // Fetch image from URL
-            const response = await fetch(imageUrl)
-            if (!response.ok) {
-                throw new Error(`Failed to fetch image: ${response.status}`)
-            }
-
-            // Convert to Uint8Array
-            const arrayBuffer = await response.arrayBuffer()
-            const imageBytes = new Uint8Array(arrayBuffer)
-
-            // Create Figma image
-            const image = figma.createImage(imageBytes)
-
-            // Create rectangle to hold the image
-            const rect = figma.createRectangle()
-            rect.resize(width, height)
-
-            // Apply image fill
-            rect.fills = [{
-                type: 'IMAGE',
-                scaleMode: 'FILL',
-                imageHash: image.hash
-            }]
-
-            // Add rounded corners
-            rect.cornerRadius = 8
-
-            log('Image created successfully')
-            return rect
-
-        } catch (error) {
-            log('Error creating scene image:', error)
-            throw error
-        }
-    }
-
-    private getActColor(actNumber: number): RGB {
-        // Get color by act number
-        const actColors = {
-            1: { h: 30, s: 0.8, l: 0.75 },   // Orange
-            2: { h: 120, s: 0.7, l: 0.7 },   // Green
-            3: { h: 280, s: 0.7, l: 0.75 }   // Purple
-        }
-
-        const actColor = actColors[actNumber as keyof typeof actColors] || actColors[1]
-        return this.hslToRgb(actColor.h, actColor.s, actColor.l)
+        return color
     }
 
     private hslToRgb(h: number, s: number, l: number): RGB {
@@ -764,32 +1720,6 @@ class SceneManager {
         }
     }
 
-    private getSceneCountInAct(actNumber: number): number {
-        // Count how many scenes are already in this act section
-        let count = 0
-        const targetSection = this.actFrames.get(actNumber)
-
-        if (!targetSection || targetSection.removed) {
-            return 0
-        }
-
-        // Check each node in the map
-        for (const [sceneId, node] of this.sceneNodeMap) {
-            try {
-                // Check if node's parent is the target act section
-                if (node.parent === targetSection) {
-                    count++
-                }
-            } catch (error) {
-                // Node might have been deleted, skip it
-                continue
-            }
-        }
-
-        log(`Act ${actNumber} has ${count} scenes`)
-        return count
-    }
-
     clear(): void {
         // Remove sticky/frame nodes
         for (const [sceneId, node] of this.sceneNodeMap) {
@@ -800,6 +1730,10 @@ class SceneManager {
             }
         }
         this.sceneNodeMap.clear()
+        this.sceneDataMap.clear()
+        this.renderedTextMap.clear()
+        this.pendingEchoes.clear()
+        this.placedPositionMap.clear()
 
         // Remove image nodes
         for (const [sceneId, imageNode] of this.imageNodeMap) {
@@ -811,6 +1745,13 @@ class SceneManager {
         }
         this.imageNodeMap.clear()
 
+        for (const strip of this.variantStripMap.values()) {
+            if (!strip.removed) {
+                strip.remove()
+            }
+        }
+        this.variantStripMap.clear()
+
         // Remove act frames
         for (const [actNumber, actFrame] of this.actFrames) {
             try {
@@ -821,6 +1762,13 @@ class SceneManager {
         }
         this.actFrames.clear()
 
+        for (const frame of this.panelActFrames.values()) {
+            if (!frame.removed) {
+                frame.remove()
+            }
+        }
+        this.panelActFrames.clear()
+
         // Remove scenes frame
         if (this.scenesFrame) {
             try {
@@ -839,26 +1787,46 @@ class SceneManager {
 
 class CharacterManager {
     private characterNodeMap: Map<string, SceneNode>
-    private charactersFrame: SectionNode | null = null
+    private imageNodeMap: Map<string, RectangleNode> = new Map()
+    private linkNodeMap: Map<string, ConnectorNode> = new Map()
+    private charactersFrame: SectionNode | FrameNode | null = null
+    private storyboardId = ''
 
     constructor() {
         this.characterNodeMap = new Map()
     }
 
-    initializeFromCanvas(): void {
-        // Find existing characters section
+    initializeFromCanvas(index: CanvasIndex, storyboardId: string): void {
+        // Rebuild character maps from the bound nodes on the canvas
         log('Initializing CharacterManager from canvas...')
+        this.storyboardId = storyboardId
+        this.charactersFrame = index.charactersSection
+        this.characterNodeMap = new Map(index.characters)
+        this.imageNodeMap = new Map(index.characterImages)
+        this.linkNodeMap = new Map(index.characterLinks)
+
+        // Canvases created before bindings: find the section by name and tag it
+        if (!this.charactersFrame) {
+            const legacySection = figma.currentPage.findChild(node => node.type === 'SECTION' && node.name === '👥 CHARACTERS')
+            if (legacySection && !legacySection.removed) {
+                this.charactersFrame = legacySection as SectionNode
+                bindNode(this.charactersFrame, { storyboardId, entityType: 'characters-section', entityId: '' })
+            }
+        }
 
-        // Clear old reference first
-        this.charactersFrame = null
+        log(this.charactersFrame ? 'Found existing CHARACTERS section' : 'No existing CHARACTERS section found, will create new',
+            `(${this.characterNodeMap.size} characters)`)
+    }
 
-        const charactersSection = figma.currentPage.findChild(node => node.name === '👥 CHARACTERS') as SectionNode | null
-        if (charactersSection && !charactersSection.removed) {
-            this.charactersFrame = charactersSection
-            log('Found existing CHARACTERS section')
-        } else {
-            log('No existing CHARACTERS section found, will create new')
-        }
+    private bindCharacterNode(node: SceneNode, character: Character): void {
+        bindNode(node, { storyboardId: character.storyboardId, entityType: 'character', entityId: character.id })
+        node.setPluginData(PLUGIN_DATA_KEYS.IMAGE_URL, character.imageUrl || '')
+    }
+
+    getCharacterImageUrl(characterId: string): string | undefined {
+        const node = this.characterNodeMap.get(characterId)
+        const imageUrl = node && !node.removed ? node.getPluginData(PLUGIN_DATA_KEYS.IMAGE_URL) : ''
+        return imageUrl || undefined
     }
 
     createCharactersFrame(): SectionNode {
@@ -866,18 +1834,19 @@ class CharacterManager {
 
         const section = figma.createSection()
         section.name = '👥 CHARACTERS'
+        bindNode(section, { storyboardId: this.storyboardId, entityType: 'characters-section', entityId: '' })
         section.x = 50
         section.y = 900  // Below scenes section
 
-        // Set size for character cards (width for ~5 characters)
-        section.resizeWithoutConstraints(2500, 600)
+        // Set size for character cards (reference image + sticky)
+        section.resizeWithoutConstraints(CHARACTER_LAYOUT.SECTION_WIDTH, CHARACTER_LAYOUT.SECTION_HEIGHT)
 
         section.fills = []  // Transparent background
 
         figma.currentPage.appendChild(section)
         this.charactersFrame = section
 
-        log('Characters section created (2500x600px)')
+        log(`Characters section created (${CHARACTER_LAYOUT.SECTION_WIDTH}x${CHARACTER_LAYOUT.SECTION_HEIGHT}px)`)
         return section
     }
 
@@ -887,7 +1856,7 @@ class CharacterManager {
         try {
             const isFigJam = figma.editorType === 'figjam'
             if (!isFigJam) {
-                log('Characters only supported in FigJam')
+                await this.createCharacterSheet(character)
                 return
             }
 
@@ -900,23 +1869,18 @@ class CharacterManager {
             const node = figma.createSticky()
             node.text.characters = this.formatCharacterText(character)
 
-            // Position
+            // Position (sticky below the reference image slot)
             if (character.position) {
                 node.x = character.position.x
                 node.y = character.position.y
             } else {
                 // Auto-position based on character count
                 const charCount = this.characterNodeMap.size
-                node.x = charCount * 350
-                node.y = 100
+                node.x = CHARACTER_LAYOUT.PADDING + charCount * CHARACTER_LAYOUT.CARD_SPACING
+                node.y = CHARACTER_LAYOUT.PADDING + CHARACTER_LAYOUT.IMAGE_SIZE + CHARACTER_LAYOUT.IMAGE_MARGIN
             }
 
-            // Blue color for characters
-            const blueColor = { r: 0.3, g: 0.6, b: 0.9 }  // Blue
-            node.fills = [{
-                type: 'SOLID',
-                color: blueColor
-            }]
+            this.applyCharacterColor(node, character)
 
             // Add to characters frame if it exists and wasn't removed
             if (this.charactersFrame && !this.charactersFrame.removed) {
@@ -928,7 +1892,10 @@ class CharacterManager {
             }
 
             // Store node reference
+            this.bindCharacterNode(node, character)
             this.characterNodeMap.set(character.id, node)
+
+            await this.updateCharacterImage(character, node)
             log('Character created successfully:', character.id)
 
         } catch (error) {
@@ -941,7 +1908,7 @@ class CharacterManager {
         log('Updating character:', character.id)
 
         const node = this.characterNodeMap.get(character.id)
-        if (!node) {
+        if (!node || node.removed) {
             log('Character node not found, creating new one')
             await this.createCharacter(character)
             return
@@ -950,7 +1917,14 @@ class CharacterManager {
         try {
             if (node.type === 'STICKY') {
                 node.text.characters = this.formatCharacterText(character)
+                this.applyCharacterColor(node, character)
+                await this.updateCharacterImage(character, node)
+            } else if (node.type === 'FRAME' && isPanelFrame(node)) {
+                await loadPanelFonts()
+                renderCharacterSheet(node, character, this.getCharacterColorFor(character))
+                await this.updateSheetImage(character, node)
             }
+            this.bindCharacterNode(node, character)
             log('Character updated successfully:', character.id)
         } catch (error) {
             log('Error updating character:', error)
@@ -958,6 +1932,87 @@ class CharacterManager {
         }
     }
 
+    private async createCharacterSheet(character: Character): Promise<void> {
+        // Design files: a sheet (reference image, name, description) in the CHARACTERS frame
+        if (!this.charactersFrame || this.charactersFrame.removed) {
+            const frame = createCharacterSheetsFrame()
+            bindNode(frame, { storyboardId: this.storyboardId, entityType: 'characters-section', entityId: '' })
+
+            // Below everything already on the page (act frames grow to the right)
+            const bottom = figma.currentPage.children.reduce((max, node) => Math.max(max, node.y + node.height), 0)
+            frame.x = PANEL_LAYOUT.ORIGIN_X
+            frame.y = bottom + PANEL_LAYOUT.ACT_GAP
+            figma.currentPage.appendChild(frame)
+            this.charactersFrame = frame
+        }
+
+        await loadPanelFonts()
+        const sheet = createCharacterSheet()
+        renderCharacterSheet(sheet, character, this.getCharacterColorFor(character))
+        this.charactersFrame.appendChild(sheet)
+
+        this.bindCharacterNode(sheet, character)
+        this.characterNodeMap.set(character.id, sheet)
+
+        const imageLayer = getPanelPart(sheet, 'image') as RectangleNode
+        bindNode(imageLayer, { storyboardId: character.storyboardId, entityType: 'character-image', entityId: character.id })
+        this.imageNodeMap.set(character.id, imageLayer)
+
+        await this.updateSheetImage(character, sheet)
+        log('Character sheet created:', character.id)
+    }
+
+    private async updateSheetImage(character: Character, sheet: FrameNode): Promise<void> {
+        const imageLayer = getPanelPart(sheet, 'image')
+        const imageUrl = character.imageUrl || ''
+        if (!imageLayer || imageLayer.type !== 'RECTANGLE' || imageLayer.getPluginData(PLUGIN_DATA_KEYS.IMAGE_URL) === imageUrl) {
+            return
+        }
+
+        try {
+            setPanelImage(imageLayer, imageUrl ? await loadImage(imageUrl) : null, imageUrl)
+        } catch (error) {
+            log('Failed to load character sheet image:', error)
+        }
+    }
+
+    private async updateCharacterImage(character: Character, stickyNode: StickyNode): Promise<void> {
+        // Reference image above the sticky; replaced when imageUrl changes, removed when cleared
+        const { IMAGE_SIZE, IMAGE_MARGIN } = CHARACTER_LAYOUT
+        const imageNode = this.imageNodeMap.get(character.id)
+        const currentUrl = imageNode && !imageNode.removed ? imageNode.getPluginData(PLUGIN_DATA_KEYS.IMAGE_URL) : ''
+
+        if ((character.imageUrl || '') === currentUrl) {
+            return
+        }
+
+        if (imageNode && !imageNode.removed) {
+            imageNode.remove()
+        }
+        this.imageNodeMap.delete(character.id)
+
+        if (!character.imageUrl) {
+            return
+        }
+
+        try {
+            const newImageNode = await createImageNode(character.imageUrl, IMAGE_SIZE, IMAGE_SIZE)
+            newImageNode.name = `🖼️ Reference: ${character.name}`
+            bindNode(newImageNode, { storyboardId: character.storyboardId, entityType: 'character-image', entityId: character.id })
+            newImageNode.setPluginData(PLUGIN_DATA_KEYS.IMAGE_URL, character.imageUrl)
+
+            const parent = stickyNode.parent || figma.currentPage
+            parent.appendChild(newImageNode)
+            newImageNode.x = stickyNode.x
+            newImageNode.y = stickyNode.y - IMAGE_SIZE - IMAGE_MARGIN
+
+            this.imageNodeMap.set(character.id, newImageNode)
+            log('Character reference image placed:', character.id)
+        } catch (error) {
+            log('Failed to load character reference image:', error)
+        }
+    }
+
     deleteCharacter(characterId: string): void {
         log('Deleting character:', characterId)
 
@@ -970,6 +2025,12 @@ class CharacterManager {
         try {
             node.remove()
             this.characterNodeMap.delete(characterId)
+
+            const imageNode = this.imageNodeMap.get(characterId)
+            if (imageNode && !imageNode.removed) {
+                imageNode.remove()
+            }
+            this.imageNodeMap.delete(characterId)
             log('Character deleted successfully:', characterId)
         } catch (error) {
             log('Error deleting character:', error)
@@ -977,14 +2038,97 @@ class CharacterManager {
         }
     }
 
+    /**
+     * Reconcile the scene → character overlay: one dotted link per entry in Scene.characters
+     * @param scenes Known scenes of the storyboard
+     * @param getSceneNode Canvas node of a scene
+     * @param enabled Overlay switched on; when off every link is removed
+     * @returns Number of links on the canvas
+     */
+    syncCharacterLinks(scenes: Scene[], getSceneNode: (sceneId: string) => SceneNode | undefined, enabled: boolean): number {
+        if (figma.editorType !== 'figjam') {
+            return 0
+        }
+
+        const wanted: Set<string> = new Set()
+        if (enabled) {
+            for (const scene of scenes) {
+                const sceneNode = getSceneNode(scene.id)
+                for (const characterId of scene.characters || []) {
+                    const characterNode = this.characterNodeMap.get(characterId)
+                    if (!sceneNode || sceneNode.removed || !characterNode || characterNode.removed) {
+                        continue
+                    }
+
+                    const linkId = connectorEntityId(scene.id, characterId)
+                    wanted.add(linkId)
+
+                    let link = this.linkNodeMap.get(linkId)
+                    if (!link || link.removed) {
+                        link = figma.createConnector()
+                        bindNode(link, { storyboardId: scene.storyboardId, entityType: 'character-link', entityId: linkId })
+                        this.linkNodeMap.set(linkId, link)
+                    }
+
+                    link.connectorStart = { endpointNodeId: sceneNode.id, magnet: 'AUTO' }
+                    link.connectorEnd = { endpointNodeId: characterNode.id, magnet: 'AUTO' }
+                    link.strokeWeight = 2
+                    link.dashPattern = [4, 6]
+                    link.connectorEndStrokeCap = 'NONE'
+                    link.strokes = [{ type: 'SOLID', color: this.getCharacterColor(characterNode) }]
+                }
+            }
+        }
+
+        for (const [linkId, link] of this.linkNodeMap) {
+            if (!wanted.has(linkId)) {
+                if (!link.removed) {
+                    link.remove()
+                }
+                this.linkNodeMap.delete(linkId)
+            }
+        }
+
+        log(`Character overlay ${enabled ? 'on' : 'off'}: ${wanted.size} links`)
+        return wanted.size
+    }
+
+    private applyCharacterColor(node: StickyNode, character: Character): void {
+        node.fills = [{
+            type: 'SOLID',
+            color: this.getCharacterColorFor(character)
+        }]
+    }
+
+    private getCharacterColorFor(character: Character): RGB {
+        // character.color if valid, otherwise the default blue
+        return (character.color && this.hexToRgb(character.color)) || DEFAULT_CHARACTER_COLOR
+    }
+
+    private getCharacterColor(node: SceneNode): RGB {
+        if (node.type === 'STICKY' && node.fills !== figma.mixed && node.fills.length > 0 && node.fills[0].type === 'SOLID') {
+            return node.fills[0].color
+        }
+        return DEFAULT_CHARACTER_COLOR
+    }
+
+    private hexToRgb(hex: string): RGB | null {
+        // Convert hex color to Figma RGB (0-1)
+        const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex)
+        if (!result) {
+            return null
+        }
+        return {
+            r: parseInt(result[1], 16) / 255,
+            g: parseInt(result[2], 16) / 255,
+            b: parseInt(result[3], 16) / 255
+        }
+    }
+
     private formatCharacterText(character: Character): string {
         let text = `👤 ${this.toBold(character.name.toUpperCase())}\n\n`
         text += `${character.description}\n`
 
-        if (character.imageUrl) {
-            text += `\n🖼️ [Image reference]\n`
-        }
-
         return text
     }
 
@@ -1014,6 +2158,14 @@ class CharacterManager {
         }
         this.characterNodeMap.clear()
 
+        for (const node of [...this.imageNodeMap.values(), ...this.linkNodeMap.values()]) {
+            if (!node.removed) {
+                node.remove()
+            }
+        }
+        this.imageNodeMap.clear()
+        this.linkNodeMap.clear()
+
         if (this.charactersFrame) {
             try {
                 this.charactersFrame.remove()
@@ -1034,420 +2186,690 @@ const characterManager = new CharacterManager()
 
 figma.showUI(__html__, { width: 400, height: 500 })
 
-figma.ui.onmessage = async (msg) => {
-    log('Received message from UI:', msg.type)
+type UIMessage<T extends UIToPluginMessage['type']> = MessageOfType<UIToPluginMessage, T>
 
-    if (msg.type === 'load-credentials') {
-        try {
-            const savedProjectId = await figma.clientStorage.getAsync('supabase_project_id')
-            const savedAnonKey = await figma.clientStorage.getAsync('supabase_anon_key')
-            const savedStoryboardId = await figma.clientStorage.getAsync('default_storyboard_id')
-
-            log('Loaded saved credentials from clientStorage')
-            figma.ui.postMessage({
-                type: 'credentials-loaded',
-                projectId: savedProjectId || '',
-                anonKey: savedAnonKey || '',
-                storyboardId: savedStoryboardId || ''
-            })
-        } catch (error) {
-            log('Error loading credentials:', error)
-        }
-        return
+function postToUI(message: PluginToUIMessage) {
+    figma.ui.postMessage(message)
+}
+
+// Answer a UI request, echoing its requestId so the UI can resolve the pending promise
+function reply(request: UIToPluginMessage, message: PluginToUIMessage) {
+    postToUI(request.requestId ? { ...message, requestId: request.requestId } : message)
+}
+
+function handleHello(msg: UIMessage<'hello'>) {
+    const compatible = msg.protocolVersion === PROTOCOL_VERSION
+    if (!compatible) {
+        log('UI protocol version mismatch:', msg.protocolVersion, '!=', PROTOCOL_VERSION)
     }
+    reply(msg, {
+        type: 'hello-ack',
+        protocolVersion: PROTOCOL_VERSION,
+        compatible
+    })
+}
 
-    if (msg.type === 'sync-storyboard') {
-        try {
-            const storyboardId = msg.storyboardId.trim()
+async function handleLoadCredentials(msg: UIMessage<'load-credentials'>) {
+    try {
+        const savedProjectId = await figma.clientStorage.getAsync('supabase_project_id')
+        const savedAnonKey = await figma.clientStorage.getAsync('supabase_anon_key')
+        const savedStoryboardId = await figma.clientStorage.getAsync('default_storyboard_id')
+
+        log('Loaded saved credentials from clientStorage')
+        reply(msg, {
+            type: 'credentials-loaded',
+            projectId: savedProjectId || '',
+            anonKey: savedAnonKey || '',
+            storyboardId: savedStoryboardId || ''
+        })
+    } catch (error) {
+        log('Error loading credentials:', error)
+    }
+}
 
-            log('Starting smart sync...', { storyboardId })
+async function handleSyncStoryboard(msg: UIMessage<'sync-storyboard'>) {
+    try {
+        const storyboardId = msg.storyboardId.trim()
 
-            // Initialize from existing canvas (find existing frames and nodes)
-            sceneManager.initializeFromCanvas()
-            characterManager.initializeFromCanvas()
+        log('Starting smart sync...', { storyboardId })
 
-            // Check if scenes array was passed from UI
-            if (!msg.scenes || !Array.isArray(msg.scenes)) {
-                throw new Error('No scenes array received from UI')
-            }
+        // Initialize from existing canvas (bound frames and nodes of this storyboard)
+        const canvasIndex = indexCanvas(figma.currentPage, storyboardId)
+        sceneManager.initializeFromCanvas(canvasIndex, storyboardId)
+        characterManager.initializeFromCanvas(canvasIndex, storyboardId)
 
-            const scenes: Scene[] = msg.scenes
-            const characters: Character[] = msg.characters || []
-            const storyboard: StoryboardV2 | undefined = msg.storyboard
+        // Check if scenes array was passed from UI
+        if (!msg.scenes || !Array.isArray(msg.scenes)) {
+            throw new Error('No scenes array received from UI')
+        }
 
-            log('Received data from UI:', {
-                scenes: scenes.length,
-                characters: characters.length,
-                hasStoryboard: !!storyboard
-            })
+        const scenes: Scene[] = msg.scenes
+        const characters: Character[] = msg.characters || []
+        const storyboard: StoryboardV2 | undefined = msg.storyboard
 
-            // Load fonts once before creating scenes
-            await figma.loadFontAsync({ family: 'Inter', style: 'Regular' })
-            await figma.loadFontAsync({ family: 'Inter', style: 'Medium' })
-            log('Fonts loaded successfully')
+        log('Received data from UI:', {
+            scenes: scenes.length,
+            characters: characters.length,
+            hasStoryboard: !!storyboard
+        })
 
-            // FigJam-only setup
-            if (figma.editorType === 'figjam') {
-                // Set up acts structure if available
-                if (storyboard?.metadata?.acts && storyboard.metadata.acts.length > 0) {
-                    sceneManager.setActs(storyboard.metadata.acts)
-                }
-            }
+        // Load fonts once before creating scenes
+        await figma.loadFontAsync({ family: 'Inter', style: 'Regular' })
+        await figma.loadFontAsync({ family: 'Inter', style: 'Medium' })
+        log('Fonts loaded successfully')
 
-            // Create or update scenes (preserves existing nodes and colors)
-            const updatedScenes: Array<{sceneId: string; figmaNodeId: string | undefined}> = []
-            for (const scene of scenes) {
-                const figmaNodeId = await sceneManager.createOrUpdateScene(scene)
-                if (figmaNodeId) {
-                    updatedScenes.push({ sceneId: scene.id, figmaNodeId })
-                }
-            }
+        // Set up acts structure if available (act sections in FigJam, act frames in design files)
+        if (storyboard?.metadata?.acts && storyboard.metadata.acts.length > 0) {
+            sceneManager.setActs(storyboard.metadata.acts)
+        }
+
+        // FigJam-only setup
+        if (figma.editorType === 'figjam') {
+            sceneManager.setLayout(storyboard?.metadata?.layout)
+        }
+        sceneManager.setScenes(scenes)
 
-            // Create characters
-            for (const character of characters) {
-                await characterManager.createCharacter(character)
+        // Create or update scenes (preserves existing nodes and colors)
+        const updatedScenes: FigmaNodeBinding[] = []
+        for (const scene of scenes) {
+            const figmaNodeId = await sceneManager.createOrUpdateScene(scene)
+            if (figmaNodeId) {
+                updatedScenes.push({ sceneId: scene.id, figmaNodeId })
             }
+        }
 
-            // Create connectors between scenes (FigJam only)
-            sceneManager.createConnectors(scenes)
+        // Create characters (or update the ones already on the canvas)
+        for (const character of characters) {
+            await characterManager.updateCharacter(character)
+        }
 
-            figma.ui.postMessage({
-                type: 'sync-complete',
-                sceneCount: scenes.length,
-                characterCount: characters.length,
-                updatedScenes // Send back figmaNodeIds to save in database
-            })
+        // Connectors between scenes (FigJam only), ids saved back with the figmaNodeIds
+        sceneManager.adoptUnboundConnectors()
+        const connectorChanges = await sceneManager.syncConnectors()
+        for (const entry of updatedScenes) {
+            entry.figmaConnectorIds = connectorChanges.get(entry.sceneId)
+        }
+        syncCharacterOverlay()
+
+        reply(msg, {
+            type: 'sync-complete',
+            sceneCount: scenes.length,
+            characterCount: characters.length,
+            updatedScenes, // Send back figmaNodeIds to save in database
+            characterOverlay: isCharacterOverlayEnabled()
+        })
+
+        // Realtime connection is handled by UI (WebSocket from browser)
+        log('Initial sync complete, waiting for realtime updates from UI...')
+
+    } catch (error: unknown) {
+        log('Sync error:', error)
+        const message = error instanceof Error ? error.message : 'Unknown error'
+        reply(msg, {
+            type: 'sync-error',
+            message
+        })
+        reply(msg, {
+            type: 'realtime-status',
+            status: 'error'
+        })
+    }
+}
 
-            // Realtime connection is handled by UI (WebSocket from browser)
-            log('Initial sync complete, waiting for realtime updates from UI...')
+// Scene → character links are a per-document setting, shared with collaborators
+const CHARACTER_OVERLAY_KEY = 'characterOverlay'
 
-        } catch (error: unknown) {
-            log('Sync error:', error)
-            const message = error instanceof Error ? error.message : 'Unknown error'
-            figma.ui.postMessage({
-                type: 'sync-error',
-                message
-            })
-            figma.ui.postMessage({
-                type: 'realtime-status',
-                status: 'error'
-            })
-        }
+function isCharacterOverlayEnabled(): boolean {
+    return figma.root.getPluginData(CHARACTER_OVERLAY_KEY) === 'on'
+}
+
+function syncCharacterOverlay(): number {
+    return characterManager.syncCharacterLinks(
+        sceneManager.getScenes(),
+        sceneId => sceneManager.getSceneNode(sceneId),
+        isCharacterOverlayEnabled()
+    )
+}
+
+function handleSetCharacterOverlay(msg: UIMessage<'set-character-overlay'>) {
+    figma.root.setPluginData(CHARACTER_OVERLAY_KEY, msg.enabled ? 'on' : '')
+    const linkCount = syncCharacterOverlay()
+    reply(msg, {
+        type: 'character-overlay-updated',
+        enabled: msg.enabled,
+        linkCount
+    })
+}
+
+// Select a scene and bring it into view (e.g. the scene a finished generation job belongs to)
+function handleFocusScene(msg: UIMessage<'focus-scene'>) {
+    const node = sceneManager.getSceneNode(msg.sceneId)
+    if (node) {
+        figma.currentPage.selection = [node]
+        figma.viewport.scrollAndZoomIntoView([node])
     }
+    reply(msg, {
+        type: 'scene-focused',
+        sceneId: msg.sceneId,
+        found: !!node
+    })
+}
 
-    if (msg.type === 'scene-inserted') {
-        log('Scene inserted from UI:', msg.scene)
-        await sceneManager.createOrUpdateScene(msg.scene)
+// Presentation step: the selection is left alone so the selection panel doesn't follow the presenter
+function handlePresentScene(msg: UIMessage<'present-scene'>) {
+    const nodes = sceneManager.getSceneViewNodes(msg.sceneId)
+    if (nodes.length > 0) {
+        figma.viewport.scrollAndZoomIntoView(nodes)
     }
+    reply(msg, {
+        type: 'scene-presented',
+        sceneId: msg.sceneId,
+        found: nodes.length > 0
+    })
+}
 
-    if (msg.type === 'scene-updated') {
-        log('Scene updated from UI:', msg.scene)
-        await sceneManager.updateScene(msg.scene)
+// Scene numbers the UI saved (a canvas reorder or its undo), or none when the save failed
+// and the dragged stickies go back
+async function handleReorderScenes(msg: UIMessage<'reorder-scenes'>) {
+    const reorder = sceneManager.describeSceneOrder(msg.storyboardId, msg.scenes)
+    await sceneManager.applySceneOrder(reorder.scenes, msg.updatedAt)
+    reply(msg, {
+        type: 'scene-order-applied',
+        storyboardId: msg.storyboardId,
+        sceneCount: reorder.scenes.length
+    })
+}
+
+// A canvas edit the UI couldn't save: the sticky shows the scene as stored again
+async function handleRestoreScene(msg: UIMessage<'restore-scene'>) {
+    await sceneManager.restoreScene(msg.scene)
+    syncCharacterOverlay()
+}
+
+// Printable sheets next to everything on the page, one PDF per sheet (merged and uploaded by the UI).
+// Sheets of an earlier export of the same storyboard are replaced.
+async function handleExportPrintSheets(msg: UIMessage<'export-print-sheets'>) {
+    const pages = paginateScenes(msg.scenes, msg.acts || [], msg.options.panelsPerPage)
+    if (pages.length === 0) {
+        throw new Error('Storyboard has no scenes to print')
     }
+    const storyboardId = msg.scenes[0].storyboardId
 
-    if (msg.type === 'scene-deleted') {
-        log('Scene deleted from UI:', msg.sceneId)
-        sceneManager.deleteScene(msg.sceneId)
+    for (const node of figma.currentPage.children.slice()) {
+        const binding = readBinding(node)
+        if (binding && binding.entityType === 'print-sheet' && binding.storyboardId === storyboardId) {
+            node.remove()
+        }
     }
 
-    if (msg.type === 'character-inserted') {
-        log('Character inserted from UI:', msg.character)
-        await characterManager.createCharacter(msg.character)
+    const loadPrintImage = async (imageUrl: string) => {
+        try {
+            return await loadImage(imageUrl)
+        } catch (error) {
+            log('Failed to load image for print sheet:', imageUrl, error)
+            return null
+        }
     }
 
-    if (msg.type === 'character-updated') {
-        log('Character updated from UI:', msg.character)
-        await characterManager.updateCharacter(msg.character)
+    await loadPanelFonts()
+    let x = figma.currentPage.children.reduce((max, node) => Math.max(max, node.x + node.width), 0) + PRINT_LAYOUT.SHEET_GAP
+    const y = figma.currentPage.children.reduce((min, node) => Math.min(min, node.y), Infinity)
+
+    const pdfs: Uint8Array[] = []
+    for (let index = 0; index < pages.length; index++) {
+        const sheet = await createPrintSheet(pages[index], index + 1, pages.length, msg.title, msg.options, loadPrintImage)
+        bindNode(sheet, { storyboardId, entityType: 'print-sheet', entityId: String(index + 1) })
+        figma.currentPage.appendChild(sheet)
+        sheet.x = x
+        sheet.y = isFinite(y) ? y : 0
+        x += sheet.width + PRINT_LAYOUT.SHEET_GAP
+
+        pdfs.push(await sheet.exportAsync({ format: 'PDF' }))
     }
 
-    if (msg.type === 'character-deleted') {
-        log('Character deleted from UI:', msg.characterId)
-        characterManager.deleteCharacter(msg.characterId)
+    log(`Exported ${pdfs.length} print sheets (${msg.options.paper}, ${msg.options.orientation}, ${msg.options.panelsPerPage} per page)`)
+    reply(msg, {
+        type: 'print-sheets-exported',
+        pages: pdfs
+    })
+}
+
+// Reconcile connectors after a graph change and report new connector ids to save
+async function syncSceneConnectors(storyboardId: string) {
+    const changes = await sceneManager.syncConnectors()
+    if (changes.size === 0) {
+        return
     }
 
-    if (msg.type === 'save-credentials') {
-        log('Saving credentials to clientStorage...')
-        try {
-            await figma.clientStorage.setAsync('supabase_project_id', msg.projectId)
-            await figma.clientStorage.setAsync('supabase_anon_key', msg.anonKey)
-            await figma.clientStorage.setAsync('default_storyboard_id', msg.storyboardId || '')
+    const scenes: FigmaNodeBinding[] = []
+    for (const [sceneId, figmaConnectorIds] of changes) {
+        scenes.push({ sceneId, figmaConnectorIds })
+    }
+    postToUI({
+        type: 'connectors-synced',
+        storyboardId,
+        scenes
+    })
+}
 
-            figma.ui.postMessage({
-                type: 'credentials-saved',
-                success: true
-            })
-            log('Credentials saved successfully')
-        } catch (error: unknown) {
-            log('Error saving credentials:', error)
-            const message = error instanceof Error ? error.message : 'Unknown error'
-            figma.ui.postMessage({
-                type: 'credentials-saved',
-                success: false,
-                error: message
-            })
-        }
+async function handleSceneInserted(msg: UIMessage<'scene-inserted'>) {
+    log('Scene inserted from UI:', msg.scene)
+    await sceneManager.createOrUpdateScene(msg.scene)
+    await syncSceneConnectors(msg.scene.storyboardId)
+    syncCharacterOverlay()
+}
+
+async function handleSceneUpdated(msg: UIMessage<'scene-updated'>) {
+    log('Scene updated from UI:', msg.scene)
+    if (!sceneManager.isOwnEcho(msg.scene)) {
+        await sceneManager.updateScene(msg.scene)
     }
+    await syncSceneConnectors(msg.scene.storyboardId)
+    syncCharacterOverlay()
+}
 
-    if (msg.type === 'clear-credentials') {
-        log('Clearing credentials from clientStorage...')
-        try {
-            await figma.clientStorage.deleteAsync('supabase_project_id')
-            await figma.clientStorage.deleteAsync('supabase_anon_key')
-            await figma.clientStorage.deleteAsync('default_storyboard_id')
+async function handleSceneDeleted(msg: UIMessage<'scene-deleted'>) {
+    log('Scene deleted from UI:', msg.sceneId)
+    const storyboardId = sceneManager.getSceneStoryboardId(msg.sceneId)
+    sceneManager.deleteScene(msg.sceneId)
+    if (storyboardId) {
+        await syncSceneConnectors(storyboardId)
+    }
+    syncCharacterOverlay()
+}
 
-            figma.ui.postMessage({
-                type: 'credentials-cleared',
-                success: true
-            })
-            log('Credentials cleared successfully')
-        } catch (error: unknown) {
-            log('Error clearing credentials:', error)
-            const message = error instanceof Error ? error.message : 'Unknown error'
-            figma.ui.postMessage({
-                type: 'credentials-cleared',
-                success: false,
-                error: message
-            })
+async function handleStoryboardUpdated(msg: UIMessage<'storyboard-updated'>) {
+    log('Storyboard updated from UI:', msg.storyboard)
+    const storyboard: StoryboardV2 = msg.storyboard
+    if (figma.editorType !== 'figjam' && storyboard.metadata && storyboard.metadata.acts) {
+        sceneManager.setActs(storyboard.metadata.acts)
+        await sceneManager.refreshActFrames()
+    } else if (figma.editorType === 'figjam' && storyboard.metadata) {
+        // Layout changes apply on the next Re-layout, nodes are not moved here
+        sceneManager.setLayout(storyboard.metadata.layout)
+        if (storyboard.metadata.acts) {
+            sceneManager.setActs(storyboard.metadata.acts)
+            sceneManager.refreshActSections()
         }
     }
+}
 
-    if (msg.type === 'cancel') {
-        log('Canceling...')
-        sceneManager.clear()
-        figma.closePlugin()
+async function handleRelayoutScenes(msg: UIMessage<'relayout-scenes'>) {
+    log('Re-layout requested:', msg.layout)
+    if (msg.layout) {
+        sceneManager.setLayout(msg.layout)
     }
 
-    if (msg.type === 'insert-generated-media') {
-        log('Inserting generated media:', msg.mediaUrl, msg.mediaType)
+    const sceneCount = await sceneManager.relayout()
+    reply(msg, {
+        type: 'relayout-complete',
+        sceneCount,
+        strategy: sceneManager.getLayoutStrategy()
+    })
+}
 
-        try {
-            const IMAGE_WIDTH = 450
-            const IMAGE_HEIGHT = 300
-
-            if (msg.mediaType === 'image') {
-                // Create image from URL
-                const imageNode = await sceneManager.createSceneImage(msg.mediaUrl, IMAGE_WIDTH, IMAGE_HEIGHT)
-                imageNode.name = `🎨 Generated Image`
-
-                // Try to find position context
-                let targetX = 0
-                let targetY = 0
-
-                // Check current selection for position context
-                if (figma.currentPage.selection.length > 0) {
-                    const selected = figma.currentPage.selection[0]
-                    if ('x' in selected && 'y' in selected && 'width' in selected && 'height' in selected) {
-                        targetX = selected.x + selected.width + 50
-                        targetY = selected.y
-                    }
-                }
-                // Fallback: center of viewport
-                else {
-                    const viewport = figma.viewport.bounds
-                    targetX = viewport.x + (viewport.width - IMAGE_WIDTH) / 2
-                    targetY = viewport.y + (viewport.height - IMAGE_HEIGHT) / 2
-                }
+async function handleCharacterInserted(msg: UIMessage<'character-inserted'>) {
+    log('Character inserted from UI:', msg.character)
+    await characterManager.updateCharacter(msg.character)
+    syncCharacterOverlay()
+}
 
-                // Add to current page
-                figma.currentPage.appendChild(imageNode)
-                imageNode.x = targetX
-                imageNode.y = targetY
+async function handleCharacterUpdated(msg: UIMessage<'character-updated'>) {
+    log('Character updated from UI:', msg.character)
+    await characterManager.updateCharacter(msg.character)
+    syncCharacterOverlay()
+}
 
-                // Select and zoom to the new image
-                figma.currentPage.selection = [imageNode]
-                figma.viewport.scrollAndZoomIntoView([imageNode])
+function handleCharacterDeleted(msg: UIMessage<'character-deleted'>) {
+    log('Character deleted from UI:', msg.characterId)
+    characterManager.deleteCharacter(msg.characterId)
+    syncCharacterOverlay()
+}
 
-                figma.ui.postMessage({
-                    type: 'media-inserted',
-                    success: true,
-                    mediaType: 'image'
-                })
+async function handleSaveCredentials(msg: UIMessage<'save-credentials'>) {
+    log('Saving credentials to clientStorage...')
+    try {
+        await figma.clientStorage.setAsync('supabase_project_id', msg.projectId)
+        await figma.clientStorage.setAsync('supabase_anon_key', msg.anonKey)
+        await figma.clientStorage.setAsync('default_storyboard_id', msg.storyboardId || '')
+
+        reply(msg, {
+            type: 'credentials-saved',
+            success: true
+        })
+        log('Credentials saved successfully')
+    } catch (error: unknown) {
+        log('Error saving credentials:', error)
+        const message = error instanceof Error ? error.message : 'Unknown error'
+        reply(msg, {
+            type: 'credentials-saved',
+            success: false,
+            error: message
+        })
+    }
+}
 
-                log('Image inserted at:', targetX, targetY)
+async function handleClearCredentials(msg: UIMessage<'clear-credentials'>) {
+    log('Clearing credentials from clientStorage...')
+    try {
+        await figma.clientStorage.deleteAsync('supabase_project_id')
+        await figma.clientStorage.deleteAsync('supabase_anon_key')
+        await figma.clientStorage.deleteAsync('default_storyboard_id')
+
+        reply(msg, {
+            type: 'credentials-cleared',
+            success: true
+        })
+        log('Credentials cleared successfully')
+    } catch (error: unknown) {
+        log('Error clearing credentials:', error)
+        const message = error instanceof Error ? error.message : 'Unknown error'
+        reply(msg, {
+            type: 'credentials-cleared',
+            success: false,
+            error: message
+        })
+    }
+}
 
-            } else if (msg.mediaType === 'video') {
-                // For videos, create a frame with preview image and play button
-                const videoFrame = figma.createFrame()
-                videoFrame.name = `🎬 Generated Video`
-                videoFrame.resize(IMAGE_WIDTH, IMAGE_HEIGHT)
+function handleCancel() {
+    log('Canceling...')
+    sceneManager.clear()
+    figma.closePlugin()
+}
 
-                // Add video preview if available
-                if (msg.previewUrl) {
-                    try {
-                        const previewImage = await sceneManager.createSceneImage(msg.previewUrl, IMAGE_WIDTH, IMAGE_HEIGHT)
-                        videoFrame.appendChild(previewImage)
-                        previewImage.x = 0
-                        previewImage.y = 0
-                    } catch (error) {
-                        log('Failed to load video preview:', error)
-                    }
-                }
+async function handleInsertGeneratedMedia(msg: UIMessage<'insert-generated-media'>) {
+    log('Inserting generated media:', msg.mediaUrl, msg.mediaType)
 
-                // Add play button overlay
-                const playButton = figma.createEllipse()
-                playButton.resize(60, 60)
-                playButton.x = (IMAGE_WIDTH - 60) / 2
-                playButton.y = (IMAGE_HEIGHT - 60) / 2
-                playButton.fills = [{ type: 'SOLID', color: { r: 0, g: 0, b: 0 }, opacity: 0.7 }]
-                videoFrame.appendChild(playButton)
-
-                // Add play icon (triangle)
-                const playIcon = figma.createPolygon()
-                playIcon.pointCount = 3
-                playIcon.resize(20, 25)
-                playIcon.x = (IMAGE_WIDTH - 20) / 2 + 5
-                playIcon.y = (IMAGE_HEIGHT - 25) / 2
-                playIcon.fills = [{ type: 'SOLID', color: { r: 1, g: 1, b: 1 } }]
-                playIcon.rotation = 90
-                videoFrame.appendChild(playIcon)
-
-                // Add video URL to frame name
-                videoFrame.name = `🎬 Generated Video - ${msg.mediaUrl.slice(0, 50)}...`
-
-                // Position using same logic as image
-                let targetX = 0
-                let targetY = 0
-
-                if (figma.currentPage.selection.length > 0) {
-                    const selected = figma.currentPage.selection[0]
-                    if ('x' in selected && 'y' in selected && 'width' in selected && 'height' in selected) {
-                        targetX = selected.x + selected.width + 50
-                        targetY = selected.y
-                    }
-                } else {
-                    const viewport = figma.viewport.bounds
-                    targetX = viewport.x + (viewport.width - IMAGE_WIDTH) / 2
-                    targetY = viewport.y + (viewport.height - IMAGE_HEIGHT) / 2
+    try {
+        const { IMAGE_WIDTH, IMAGE_HEIGHT } = LAYOUT
+
+        if (msg.mediaType === 'image') {
+            // Create image from URL
+            const imageNode = await createImageNode(msg.mediaUrl, IMAGE_WIDTH, IMAGE_HEIGHT)
+            imageNode.name = `🎨 Generated Image`
+            imageNode.setPluginData(PLUGIN_DATA_KEYS.IMAGE_URL, msg.mediaUrl)
+
+            // Try to find position context
+            let targetX = 0
+            let targetY = 0
+
+            // Check current selection for position context
+            if (figma.currentPage.selection.length > 0) {
+                const selected = figma.currentPage.selection[0]
+                if ('x' in selected && 'y' in selected && 'width' in selected && 'height' in selected) {
+                    targetX = selected.x + selected.width + 50
+                    targetY = selected.y
                 }
+            }
+            // Fallback: center of viewport
+            else {
+                const viewport = figma.viewport.bounds
+                targetX = viewport.x + (viewport.width - IMAGE_WIDTH) / 2
+                targetY = viewport.y + (viewport.height - IMAGE_HEIGHT) / 2
+            }
+
+            // Add to current page
+            figma.currentPage.appendChild(imageNode)
+            imageNode.x = targetX
+            imageNode.y = targetY
+
+            // Select and zoom to the new image
+            figma.currentPage.selection = [imageNode]
+            figma.viewport.scrollAndZoomIntoView([imageNode])
 
-                figma.currentPage.appendChild(videoFrame)
-                videoFrame.x = targetX
-                videoFrame.y = targetY
+            reply(msg, {
+                type: 'media-inserted',
+                success: true,
+                mediaType: 'image'
+            })
 
-                // Select and zoom to the new video
-                figma.currentPage.selection = [videoFrame]
-                figma.viewport.scrollAndZoomIntoView([videoFrame])
+            log('Image inserted at:', targetX, targetY)
 
-                figma.ui.postMessage({
-                    type: 'media-inserted',
-                    success: true,
-                    mediaType: 'video'
-                })
+        } else if (msg.mediaType === 'video') {
+            // For videos, create a frame with preview image and play button
+            const videoFrame = figma.createFrame()
+            videoFrame.name = `🎬 Generated Video`
+            videoFrame.resize(IMAGE_WIDTH, IMAGE_HEIGHT)
+
+            // Add video preview if available
+            if (msg.previewUrl) {
+                try {
+                    const previewImage = await createImageNode(msg.previewUrl, IMAGE_WIDTH, IMAGE_HEIGHT)
+                    videoFrame.appendChild(previewImage)
+                    previewImage.x = 0
+                    previewImage.y = 0
+                } catch (error) {
+                    log('Failed to load video preview:', error)
+                }
+            }
 
-                log('Video frame inserted at:', targetX, targetY)
+            // Add play button overlay
+            const playButton = figma.createEllipse()
+            playButton.resize(60, 60)
+            playButton.x = (IMAGE_WIDTH - 60) / 2
+            playButton.y = (IMAGE_HEIGHT - 60) / 2
+            playButton.fills = [{ type: 'SOLID', color: { r: 0, g: 0, b: 0 }, opacity: 0.7 }]
+            videoFrame.appendChild(playButton)
+
+            // Add play icon (triangle)
+            const playIcon = figma.createPolygon()
+            playIcon.pointCount = 3
+            playIcon.resize(20, 25)
+            playIcon.x = (IMAGE_WIDTH - 20) / 2 + 5
+            playIcon.y = (IMAGE_HEIGHT - 25) / 2
+            playIcon.fills = [{ type: 'SOLID', color: { r: 1, g: 1, b: 1 } }]
+            playIcon.rotation = 90
+            videoFrame.appendChild(playIcon)
+
+            // Add video URL to frame name
+            videoFrame.name = `🎬 Generated Video - ${msg.mediaUrl.slice(0, 50)}...`
+
+            // Position using same logic as image
+            let targetX = 0
+            let targetY = 0
+
+            if (figma.currentPage.selection.length > 0) {
+                const selected = figma.currentPage.selection[0]
+                if ('x' in selected && 'y' in selected && 'width' in selected && 'height' in selected) {
+                    targetX = selected.x + selected.width + 50
+                    targetY = selected.y
+                }
+            } else {
+                const viewport = figma.viewport.bounds
+                targetX = viewport.x + (viewport.width - IMAGE_WIDTH) / 2
+                targetY = viewport.y + (viewport.height - IMAGE_HEIGHT) / 2
             }
 
-        } catch (error) {
-            log('Error inserting media:', error)
-            figma.ui.postMessage({
+            figma.currentPage.appendChild(videoFrame)
+            videoFrame.x = targetX
+            videoFrame.y = targetY
+
+            // Select and zoom to the new video
+            figma.currentPage.selection = [videoFrame]
+            figma.viewport.scrollAndZoomIntoView([videoFrame])
+
+            reply(msg, {
                 type: 'media-inserted',
-                success: false,
-                error: 'Failed to insert media'
+                success: true,
+                mediaType: 'video'
             })
+
+            log('Video frame inserted at:', targetX, targetY)
         }
-    }
 
-    if (msg.type === 'extract-context') {
-        log('Extracting Figma context...')
+    } catch (error) {
+        log('Error inserting media:', error)
+        reply(msg, {
+            type: 'media-inserted',
+            success: false,
+            error: 'Failed to insert media'
+        })
+    }
+}
 
-        try {
-            const selection = figma.currentPage.selection
-            const context: any = {
-                selectionCount: selection.length,
-                metadata: [],
-                textContent: [],
-                pageContext: {
-                    pageName: figma.currentPage.name,
-                    totalNodes: figma.currentPage.children.length
-                }
+async function handleExtractContext(msg: UIMessage<'extract-context'>) {
+    log('Extracting Figma context...')
+
+    try {
+        const selection = figma.currentPage.selection
+        const context: ExtractedContext = {
+            selectionCount: selection.length,
+            metadata: [],
+            textContent: [],
+            pageContext: {
+                pageName: figma.currentPage.name,
+                totalNodes: figma.currentPage.children.length
             }
+        }
 
-            // Extract metadata from selected nodes
-            for (const node of selection.slice(0, 10)) { // Limit to 10 nodes for size
-                const metadata: any = {
-                    id: node.id,
-                    name: node.name,
-                    type: node.type
-                }
+        // Extract metadata from selected nodes
+        for (const node of selection.slice(0, 10)) { // Limit to 10 nodes for size
+            const metadata: ExtractedContext['metadata'][number] = {
+                id: node.id,
+                name: node.name,
+                type: node.type
+            }
 
-                // Add position and size for relevant node types
-                if ('x' in node && 'y' in node && 'width' in node && 'height' in node) {
-                    metadata.x = Math.round(node.x)
-                    metadata.y = Math.round(node.y)
-                    metadata.width = Math.round(node.width)
-                    metadata.height = Math.round(node.height)
-                }
+            // Add position and size for relevant node types
+            if ('x' in node && 'y' in node && 'width' in node && 'height' in node) {
+                metadata.x = Math.round(node.x)
+                metadata.y = Math.round(node.y)
+                metadata.width = Math.round(node.width)
+                metadata.height = Math.round(node.height)
+            }
 
-                context.metadata.push(metadata)
+            context.metadata.push(metadata)
 
-                // Extract text content
-                if (node.type === 'TEXT') {
-                    const textNode = node as TextNode
-                    const chars = textNode.characters
-                    if (chars && chars.length > 0) {
-                        context.textContent.push(chars.slice(0, 200)) // Limit text length
-                    }
-                } else if ('text' in node) {
-                    // Handle nodes with text property (like STICKY_NOTE, SHAPE_WITH_TEXT)
-                    const textNode = node as any
-                    if (textNode.text && textNode.text.characters) {
-                        context.textContent.push(textNode.text.characters.slice(0, 200))
-                    }
+            // Extract text content
+            if (node.type === 'TEXT') {
+                const textNode = node as TextNode
+                const chars = textNode.characters
+                if (chars && chars.length > 0) {
+                    context.textContent.push(chars.slice(0, 200)) // Limit text length
+                }
+            } else if ('text' in node) {
+                // Handle nodes with text property (like STICKY_NOTE, SHAPE_WITH_TEXT)
+                const textNode = node as any
+                if (textNode.text && textNode.text.characters) {
+                    context.textContent.push(textNode.text.characters.slice(0, 200))
                 }
             }
+        }
 
-            // If no selection, extract context from viewport
-            if (selection.length === 0) {
-                const viewport = figma.viewport.bounds
-                if (viewport) {
-                    context.pageContext.viewport = {
-                        x: Math.round(viewport.x),
-                        y: Math.round(viewport.y),
-                        width: Math.round(viewport.width),
-                        height: Math.round(viewport.height)
-                    }
+        // If no selection, extract context from viewport
+        if (selection.length === 0) {
+            const viewport = figma.viewport.bounds
+            if (viewport) {
+                context.pageContext.viewport = {
+                    x: Math.round(viewport.x),
+                    y: Math.round(viewport.y),
+                    width: Math.round(viewport.width),
+                    height: Math.round(viewport.height)
                 }
+            }
 
-                // Find nodes in viewport (limited scan)
-                const allNodes = figma.currentPage.findAll(n => true).slice(0, 50)
-                for (const node of allNodes) {
-                    if ('x' in node && 'y' in node && 'width' in node && 'height' in node) {
-                        const nodeX = node.x as number
-                        const nodeY = node.y as number
-                        if (nodeX >= viewport.x && nodeX <= viewport.x + viewport.width &&
-                            nodeY >= viewport.y && nodeY <= viewport.y + viewport.height) {
-
-                            if (node.type === 'TEXT') {
-                                const textContent = (node as TextNode).characters
-                                if (textContent) {
-                                    context.textContent.push(textContent.slice(0, 100))
-                                }
-                            } else if ('text' in node) {
-                                // Handle nodes with text property
-                                const textNode = node as any
-                                if (textNode.text && textNode.text.characters) {
-                                    context.textContent.push(textNode.text.characters.slice(0, 100))
-                                }
+            // Find nodes in viewport (limited scan)
+            const allNodes = figma.currentPage.findAll(n => true).slice(0, 50)
+            for (const node of allNodes) {
+                if ('x' in node && 'y' in node && 'width' in node && 'height' in node) {
+                    const nodeX = node.x as number
+                    const nodeY = node.y as number
+                    if (nodeX >= viewport.x && nodeX <= viewport.x + viewport.width &&
+                        nodeY >= viewport.y && nodeY <= viewport.y + viewport.height) {
+
+                        if (node.type === 'TEXT') {
+                            const textContent = (node as TextNode).characters
+                            if (textContent) {
+                                context.textContent.push(textContent.slice(0, 100))
+                            }
+                        } else if ('text' in node) {
+                            // Handle nodes with text property
+                            const textNode = node as any
+                            if (textNode.text && textNode.text.characters) {
+                                context.textContent.push(textNode.text.characters.slice(0, 100))
                             }
                         }
                     }
                 }
             }
+        }
 
-            figma.ui.postMessage({
-                type: 'context-extracted',
-                context: context
-            })
+        reply(msg, {
+            type: 'context-extracted',
+            context: context
+        })
+
+        log('Context extracted successfully')
+    } catch (error) {
+        log('Error extracting context:', error)
+        reply(msg, {
+            type: 'context-extracted',
+            context: null,
+            error: 'Failed to extract context'
+        })
+    }
+}
 
-            log('Context extracted successfully')
-        } catch (error) {
-            log('Error extracting context:', error)
-            figma.ui.postMessage({
-                type: 'context-extracted',
-                context: null,
-                error: 'Failed to extract context'
-            })
-        }
+// One handler per UI → Plugin message type; the compiler checks every type is handled
+type MessageHandlers = {
+    [T in UIToPluginMessage['type']]: (msg: UIMessage<T>) => void | Promise<void>
+}
+
+const handlers: MessageHandlers = {
+    'hello': handleHello,
+    'load-credentials': handleLoadCredentials,
+    'save-credentials': handleSaveCredentials,
+    'clear-credentials': handleClearCredentials,
+    'sync-storyboard': handleSyncStoryboard,
+    'scene-inserted': handleSceneInserted,
+    'scene-updated': handleSceneUpdated,
+    'scene-deleted': handleSceneDeleted,
+    'storyboard-updated': handleStoryboardUpdated,
+    'character-inserted': handleCharacterInserted,
+    'character-updated': handleCharacterUpdated,
+    'character-deleted': handleCharacterDeleted,
+    'insert-generated-media': handleInsertGeneratedMedia,
+    'extract-context': handleExtractContext,
+    'relayout-scenes': handleRelayoutScenes,
+    'set-character-overlay': handleSetCharacterOverlay,
+    'focus-scene': handleFocusScene,
+    'present-scene': handlePresentScene,
+    'reorder-scenes': handleReorderScenes,
+    'restore-scene': handleRestoreScene,
+    'export-print-sheets': handleExportPrintSheets,
+    'cancel': handleCancel
+}
+
+figma.ui.onmessage = async (raw: unknown) => {
+    const result = validateUIMessage(raw)
+    if (!result.ok) {
+        log('Rejected message from UI:', result.error.message)
+        postToUI({
+            type: 'protocol-error',
+            requestId: result.requestId,
+            receivedType: result.receivedType,
+            error: result.error
+        })
+        return
+    }
+
+    const msg = result.message
+    log('Received message from UI:', msg.type)
+
+    const handler = handlers[msg.type] as (msg: UIToPluginMessage) => void | Promise<void>
+    try {
+        await handler(msg)
+    } catch (error: unknown) {
+        log(`Handler for ${msg.type} failed:`, error)
+        reply(msg, {
+            type: 'protocol-error',
+            receivedType: msg.type,
+            error: {
+                code: 'HANDLER_FAILED',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            }
+        })
     }
 }
 
@@ -1460,6 +2882,8 @@ function analyzeSelection() {
     let hasImage = false
     let imageUrl: string | undefined
     let sceneId: string | undefined
+    let characterId: string | undefined
+    let variantMediaId: string | undefined
 
     log('Analyzing selection:', selection.length, 'items')
 
@@ -1473,29 +2897,40 @@ function analyzeSelection() {
                 for (const fill of fills) {
                     if (fill.type === 'IMAGE') {
                         hasImage = true
-                        // Try to get image URL from name pattern or related scene
-                        log('Image rectangle found, checking for URL...')
                         break
                     }
                 }
             }
         }
 
-        // Try to extract sceneId from node name
-        // Patterns: "🎨 Image: Scene 1", "Scene 1:", etc.
-        const nameMatch = node.name.match(/Scene (\d+)/i)
-        if (nameMatch) {
-            sceneId = `scene-${nameMatch[1]}`
-            log('Found sceneId from name:', sceneId)
+        // Scene/character from the node binding; image URL as stored when the image was loaded
+        const binding = readBinding(node)
+        const storedImageUrl = node.getPluginData(PLUGIN_DATA_KEYS.IMAGE_URL) || undefined
+        if (binding && binding.entityType === 'scene-variant') {
+            sceneId = binding.entityId
+            imageUrl = storedImageUrl
+            variantMediaId = node.getPluginData(PLUGIN_DATA_KEYS.MEDIA_ID) || undefined
+        } else if (binding && (binding.entityType === 'scene' || binding.entityType === 'scene-image')) {
+            sceneId = binding.entityId
+            imageUrl = storedImageUrl || sceneManager.getSceneImageUrl(sceneId)
+        } else if (binding && binding.entityType === 'character') {
+            characterId = binding.entityId
+            imageUrl = storedImageUrl || characterManager.getCharacterImageUrl(characterId)
+        } else {
+            // Generated media inserted from the UI
+            imageUrl = storedImageUrl
         }
+        log('Selection binding:', binding, imageUrl)
     }
 
-    figma.ui.postMessage({
+    postToUI({
         type: 'selection-changed',
         count: selection.length,
         hasImage,
         imageUrl,
-        sceneId
+        sceneId,
+        characterId,
+        variantMediaId
     })
 }
 
@@ -1509,4 +2944,94 @@ figma.on('selectionchange', () => {
 setTimeout(() => {
     log('Sending initial selection state')
     analyzeSelection()
-}, 200)
\ No newline at end of file
+}, 200)
+
+// ============================================================================
+// CANVAS EDIT TRACKING (canvas → DB)
+// ============================================================================
+
+// Debounce typing so one edit session becomes one DB write
+const SCENE_EDIT_DEBOUNCE_MS = 1000
+const editedSceneIds: Set<string> = new Set()
+const movedSceneIds: Set<string> = new Set()
+let sceneEditTimer: ReturnType<typeof setTimeout> | null = null
+
+function flushSceneEdits() {
+    sceneEditTimer = null
+
+    for (const sceneId of editedSceneIds) {
+        const edit = sceneManager.collectSceneEdit(sceneId)
+        if (edit) {
+            postToUI({
+                type: 'scene-edited',
+                ...edit
+            })
+        }
+    }
+    editedSceneIds.clear()
+
+    // Stickies dragged by the user (not moved by the plugin's own layout) renumber the storyboard
+    const dragged = Array.from(movedSceneIds).filter(sceneId => sceneManager.isStickyDragged(sceneId))
+    movedSceneIds.clear()
+    if (dragged.length > 0) {
+        reorderScenesFromCanvas(dragged)
+    }
+}
+
+// New scene order read from the canvas (or only the act moves of the dragged stickies when the
+// order can't be read), saved by the UI in one batch and only then applied (reorder-scenes),
+// so the canvas never shows numbers the database doesn't have
+function reorderScenesFromCanvas(draggedSceneIds: string[]) {
+    const changes = sceneManager.readSceneOrder() || sceneManager.readActMoves(draggedSceneIds)
+    if (changes.length === 0) {
+        return
+    }
+    const storyboardId = sceneManager.getSceneStoryboardId(changes[0].sceneId)
+    if (!storyboardId) {
+        return
+    }
+
+    postToUI({
+        type: 'scenes-reordered',
+        ...sceneManager.describeSceneOrder(storyboardId, changes)
+    })
+}
+
+function handleDocumentChange(event: DocumentChangeEvent) {
+    for (const change of event.documentChanges) {
+        // Only local edits: remote collaborators running the plugin push their own edits
+        if (change.type !== 'PROPERTY_CHANGE' || change.origin !== 'LOCAL') {
+            continue
+        }
+
+        // Text edits are saved as scene edits, moves may reorder the scenes
+        const edited = change.properties.indexOf('text') !== -1
+        const moved = change.properties.indexOf('x') !== -1 || change.properties.indexOf('y') !== -1 || change.properties.indexOf('parent') !== -1
+        if (!edited && !moved) {
+            continue
+        }
+
+        const sceneId = sceneManager.findSceneIdByStickyId(change.node.id)
+        if (sceneId && edited) {
+            editedSceneIds.add(sceneId)
+        }
+        if (sceneId && moved) {
+            movedSceneIds.add(sceneId)
+        }
+    }
+
+    if (editedSceneIds.size > 0 || movedSceneIds.size > 0) {
+        if (sceneEditTimer) {
+            clearTimeout(sceneEditTimer)
+        }
+        sceneEditTimer = setTimeout(flushSceneEdits, SCENE_EDIT_DEBOUNCE_MS)
+    }
+}
+
+// documentchange requires all pages to be loaded with "documentAccess": "dynamic-page"
+figma.loadAllPagesAsync().then(() => {
+    figma.on('documentchange', handleDocumentChange)
+    log('Listening for canvas edits')
+}).catch(error => {
+    log('Could not subscribe to document changes:', error)
+})
\ No newline at end of file
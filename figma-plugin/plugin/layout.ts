@@ -0,0 +1,318 @@
+// Scene placement on the FigJam canvas
+// A LayoutEngine turns the list of scenes into slots (position + containing act section).
+// Strategies are chosen per storyboard via StoryboardMetadata.layout.
+
+import { Act, Scene, StoryboardLayout, LayoutStrategy } from './types'
+
+// Sizes shared by scene cards and act sections (all in canvas px)
+export const LAYOUT = {
+    STICKY_WIDTH: 600,  // 1.5x wider
+    STICKY_SPACING: 50,
+    STICKY_HEIGHT_ESTIMATE: 800,  // Estimated max sticky note height
+    IMAGE_WIDTH: 450,  // 1.5x wider (matches sticky proportion)
+    IMAGE_HEIGHT: 300,  // 1.5x taller (keep aspect ratio)
+    IMAGE_MARGIN: 20,  // Gap between image and sticky
+    VARIANT_WIDTH: 140,  // Thumbnails in the contact strip of image variants (above the image)
+    VARIANT_HEIGHT: 93,
+    VARIANT_GAP: 10,
+    SECTION_PADDING: 100,
+    SECTION_VERTICAL_PADDING: 200,  // Top + bottom padding
+    ACT_SECTION_GAP: 300,  // Gap between act sections
+    FLOW_COLUMN_GAP: 200,  // Extra room for connector arrows in the flow layout
+    DEFAULT_GRID_COLUMNS: 4
+}
+
+// Character cards in the CHARACTERS section: reference image above the sticky
+export const CHARACTER_LAYOUT = {
+    CARD_SPACING: 350,
+    IMAGE_SIZE: 300,  // Square reference image
+    IMAGE_MARGIN: 20,
+    PADDING: 100,  // Inside the CHARACTERS section
+    SECTION_WIDTH: 2500,  // ~7 characters
+    SECTION_HEIGHT: 1000
+}
+
+// Width and height one scene card (image above sticky) occupies
+export const CELL_WIDTH = LAYOUT.STICKY_WIDTH + LAYOUT.STICKY_SPACING
+export const CELL_HEIGHT = LAYOUT.IMAGE_HEIGHT + LAYOUT.IMAGE_MARGIN + LAYOUT.STICKY_HEIGHT_ESTIMATE + LAYOUT.STICKY_SPACING
+
+// Image goes at (x, y), sticky right below it; the image slot is reserved even
+// without an image, so an image generated later doesn't overlap anything
+export interface SceneSlot {
+    sceneId: string
+
+    /** Act section containing the scene, or null for the main SCENES section */
+    actNumber: number | null
+
+    /** Position relative to the containing section */
+    x: number
+    y: number
+}
+
+// Position and size of an act section inside the main SCENES section
+export interface ActBox {
+    actNumber: number
+    x: number
+    y: number
+    width: number
+    height: number
+}
+
+export interface LayoutResult {
+    slots: Map<string, SceneSlot>
+    actBoxes: Map<number, ActBox>
+}
+
+export interface LayoutEngine {
+    readonly strategy: LayoutStrategy
+
+    /** false if scenes are placed directly in the SCENES section */
+    readonly usesActSections: boolean
+
+    layout(scenes: Scene[], acts: Act[]): LayoutResult
+}
+
+export function getStickyY(slot: SceneSlot): number {
+    return slot.y + LAYOUT.IMAGE_HEIGHT + LAYOUT.IMAGE_MARGIN
+}
+
+/**
+ * Row of a sticky from its y in the section (grid rows are CELL_HEIGHT apart, a strip is one row),
+ * so scenes dragged on the canvas can be read back row by row
+ */
+export function getStickyRow(stickyY: number): number {
+    const firstRowY = LAYOUT.SECTION_PADDING + LAYOUT.IMAGE_HEIGHT + LAYOUT.IMAGE_MARGIN
+    return Math.max(0, Math.round((stickyY - firstRowY) / CELL_HEIGHT))
+}
+
+/**
+ * Act of a scene: its actNumber, else the act whose sceneRange contains it, else the first act
+ * @param scene The scene
+ * @param acts StoryboardMetadata.acts
+ */
+export function getSceneActNumber(scene: Scene, acts: Act[] = []): number {
+    if (typeof scene.actNumber === 'number') {
+        return scene.actNumber
+    }
+
+    for (const act of acts) {
+        if (act.sceneRange && scene.sceneNumber >= act.sceneRange[0] && scene.sceneNumber <= act.sceneRange[1]) {
+            return act.number
+        }
+    }
+
+    return acts.length > 0 ? Math.min(...acts.map(act => act.number)) : 1
+}
+
+function bySceneNumber(a: Scene, b: Scene): number {
+    return a.sceneNumber - b.sceneNumber || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+}
+
+// Scenes grouped per act in act order; acts missing from the act list follow in number order
+function groupByAct(scenes: Scene[], acts: Act[]): Array<{ actNumber: number; scenes: Scene[] }> {
+    const groups: Map<number, Scene[]> = new Map()
+    const sortedActs = acts.slice().sort((a, b) => a.number - b.number)
+    for (const act of sortedActs) {
+        groups.set(act.number, [])
+    }
+
+    const extraActs: number[] = []
+    for (const scene of scenes.slice().sort(bySceneNumber)) {
+        const actNumber = getSceneActNumber(scene, acts)
+        let group = groups.get(actNumber)
+        if (!group) {
+            group = []
+            groups.set(actNumber, group)
+            extraActs.push(actNumber)
+        }
+        group.push(scene)
+    }
+
+    const order = sortedActs.map(act => act.number).concat(extraActs.sort((a, b) => a - b))
+    return order.map(actNumber => ({ actNumber, scenes: groups.get(actNumber) || [] }))
+}
+
+/**
+ * One horizontal row of scenes per act, act sections side by side
+ */
+export class StripLayout implements LayoutEngine {
+    readonly strategy = 'strip'
+    readonly usesActSections = true
+
+    layout(scenes: Scene[], acts: Act[]): LayoutResult {
+        const slots: Map<string, SceneSlot> = new Map()
+        const actBoxes: Map<number, ActBox> = new Map()
+        const sectionHeight = LAYOUT.IMAGE_HEIGHT + LAYOUT.IMAGE_MARGIN + LAYOUT.STICKY_HEIGHT_ESTIMATE + LAYOUT.SECTION_VERTICAL_PADDING
+
+        if (acts.length === 0) {
+            scenes.slice().sort(bySceneNumber).forEach((scene, index) => {
+                slots.set(scene.id, {
+                    sceneId: scene.id,
+                    actNumber: null,
+                    x: LAYOUT.SECTION_PADDING + index * CELL_WIDTH,
+                    y: LAYOUT.SECTION_PADDING
+                })
+            })
+            return { slots, actBoxes }
+        }
+
+        let offsetX = LAYOUT.SECTION_PADDING
+        for (const group of groupByAct(scenes, acts)) {
+            const width = LAYOUT.SECTION_PADDING * 2 + Math.max(group.scenes.length, 1) * CELL_WIDTH
+            actBoxes.set(group.actNumber, {
+                actNumber: group.actNumber,
+                x: offsetX,
+                y: LAYOUT.SECTION_PADDING,
+                width,
+                height: sectionHeight
+            })
+
+            group.scenes.forEach((scene, index) => {
+                slots.set(scene.id, {
+                    sceneId: scene.id,
+                    actNumber: group.actNumber,
+                    x: LAYOUT.SECTION_PADDING + index * CELL_WIDTH,
+                    y: LAYOUT.SECTION_PADDING
+                })
+            })
+
+            offsetX += width + LAYOUT.ACT_SECTION_GAP
+        }
+
+        return { slots, actBoxes }
+    }
+}
+
+/**
+ * Scenes wrapped into rows of N columns, act sections stacked vertically
+ */
+export class GridLayout implements LayoutEngine {
+    readonly strategy = 'grid'
+    readonly usesActSections = true
+
+    constructor(private columns: number = LAYOUT.DEFAULT_GRID_COLUMNS) {
+        this.columns = Math.max(1, Math.floor(columns))
+    }
+
+    private placeGrid(scenes: Scene[], actNumber: number | null, slots: Map<string, SceneSlot>): number {
+        scenes.forEach((scene, index) => {
+            slots.set(scene.id, {
+                sceneId: scene.id,
+                actNumber,
+                x: LAYOUT.SECTION_PADDING + (index % this.columns) * CELL_WIDTH,
+                y: LAYOUT.SECTION_PADDING + Math.floor(index / this.columns) * CELL_HEIGHT
+            })
+        })
+        return Math.max(1, Math.ceil(scenes.length / this.columns))
+    }
+
+    layout(scenes: Scene[], acts: Act[]): LayoutResult {
+        const slots: Map<string, SceneSlot> = new Map()
+        const actBoxes: Map<number, ActBox> = new Map()
+
+        if (acts.length === 0) {
+            this.placeGrid(scenes.slice().sort(bySceneNumber), null, slots)
+            return { slots, actBoxes }
+        }
+
+        let offsetY = LAYOUT.SECTION_PADDING
+        for (const group of groupByAct(scenes, acts)) {
+            const rows = this.placeGrid(group.scenes, group.actNumber, slots)
+            const height = LAYOUT.SECTION_VERTICAL_PADDING + rows * CELL_HEIGHT
+            actBoxes.set(group.actNumber, {
+                actNumber: group.actNumber,
+                x: LAYOUT.SECTION_PADDING,
+                y: offsetY,
+                width: LAYOUT.SECTION_PADDING * 2 + this.columns * CELL_WIDTH,
+                height
+            })
+            offsetY += height + LAYOUT.ACT_SECTION_GAP
+        }
+
+        return { slots, actBoxes }
+    }
+}
+
+/**
+ * Follows nextScenes: column = distance from the first scene, branches get their own row.
+ * Scenes are placed directly in the SCENES section since branches can cross acts.
+ */
+export class FlowGraphLayout implements LayoutEngine {
+    readonly strategy = 'flow'
+    readonly usesActSections = false
+
+    layout(scenes: Scene[]): LayoutResult {
+        const sorted = scenes.slice().sort(bySceneNumber)
+        const byId: Map<string, Scene> = new Map()
+        for (const scene of sorted) {
+            byId.set(scene.id, scene)
+        }
+
+        // Scenes nobody points to start the graph; other unreached scenes
+        // (cycles, disconnected parts) become roots in scene order
+        const targets: Set<string> = new Set()
+        for (const scene of sorted) {
+            for (const nextId of scene.nextScenes || []) {
+                if (nextId !== scene.id && byId.has(nextId)) {
+                    targets.add(nextId)
+                }
+            }
+        }
+        const roots = sorted.filter(scene => !targets.has(scene.id))
+
+        // Breadth-first from each root: shortest distance, stable for cycles
+        const depth: Map<string, number> = new Map()
+        const visit = (root: Scene) => {
+            if (depth.has(root.id)) return
+            depth.set(root.id, 0)
+            const queue: Scene[] = [root]
+            while (queue.length > 0) {
+                const current = queue.shift() as Scene
+                const nextScenes = (current.nextScenes || [])
+                    .map(id => byId.get(id))
+                    .filter((scene): scene is Scene => !!scene)
+                    .sort(bySceneNumber)
+                for (const next of nextScenes) {
+                    if (!depth.has(next.id)) {
+                        depth.set(next.id, (depth.get(current.id) as number) + 1)
+                        queue.push(next)
+                    }
+                }
+            }
+        }
+        roots.forEach(visit)
+        sorted.forEach(visit)
+
+        const rowsPerColumn: Map<number, number> = new Map()
+        const slots: Map<string, SceneSlot> = new Map()
+        for (const scene of sorted) {
+            const column = depth.get(scene.id) as number
+            const row = rowsPerColumn.get(column) || 0
+            rowsPerColumn.set(column, row + 1)
+
+            slots.set(scene.id, {
+                sceneId: scene.id,
+                actNumber: null,
+                x: LAYOUT.SECTION_PADDING + column * (CELL_WIDTH + LAYOUT.FLOW_COLUMN_GAP),
+                y: LAYOUT.SECTION_PADDING + row * CELL_HEIGHT
+            })
+        }
+
+        return { slots, actBoxes: new Map() }
+    }
+}
+
+/**
+ * Create the layout engine for a storyboard (strip if not configured)
+ * @param layout StoryboardMetadata.layout
+ */
+export function createLayoutEngine(layout?: StoryboardLayout): LayoutEngine {
+    switch (layout && layout.strategy) {
+    case 'grid':
+        return new GridLayout(layout && layout.columns)
+    case 'flow':
+        return new FlowGraphLayout()
+    default:
+        return new StripLayout()
+    }
+}
\ No newline at end of file
@@ -0,0 +1,440 @@
+// Storyboard panels for Figma design files
+// FigJam boards get stickies in sections (see layout.ts); design files get real panels instead:
+// an instance of the "Scene Card" component set per scene (one variant per shot type, scene
+// fields as component properties), one frame per act that wraps its panels in rows, and a sheet
+// per character. Layers are found again through PLUGIN_DATA_KEYS.PANEL_PART, so renaming or
+// restyling them is safe; cards are styled once in the component set, never per instance.
+
+import { Character, Scene } from './types'
+import { PLUGIN_DATA_KEYS } from './bindings'
+
+// Sizes of panels, act frames and character sheets (all in canvas px)
+export const PANEL_LAYOUT = {
+    PANEL_WIDTH: 320,
+    IMAGE_HEIGHT: 180,  // 16:9
+    PANEL_PADDING: 12,
+    PANEL_SPACING: 8,  // Between the layers of a panel
+    PANEL_GAP: 32,  // Between panels of an act
+    PANELS_PER_ROW: 5,
+    ACT_PADDING: 40,
+    ACT_GAP: 120,  // Between act frames, stacked top to bottom
+    ORIGIN_X: 50,  // First act frame when the page has none yet
+    ORIGIN_Y: 50,
+    CHARACTER_WIDTH: 240,
+    CHARACTER_GAP: 32
+}
+
+export const SCENE_CARD_NAME = 'Scene Card'
+
+// Variant property of the Scene Card set: one variant per Scene.shotType
+export const SHOT_PROPERTY = 'Shot'
+
+// Component properties of the Scene Card set, bound to the card layers
+const CARD_PROPERTIES = {
+    SCENE_NUMBER: 'Scene number',
+    DESCRIPTION: 'Description',
+    DIALOGUE: 'Dialogue',
+    DURATION: 'Duration',
+    SHOW_DIALOGUE: 'Show dialogue',  // Boolean: hides the dialogue layer of scenes without dialogue
+    SHOW_IMAGE: 'Show image'  // Boolean: hides the image layer until the scene has an image
+}
+
+export type PanelPart =
+    | 'image'
+    | 'header'
+    | 'number'
+    | 'shot'
+    | 'caption'
+    | 'dialogue'
+    | 'duration'
+    | 'act-header'
+    | 'act-panels'
+    | 'name'
+    | 'description'
+
+const FONT_REGULAR: FontName = { family: 'Inter', style: 'Regular' }
+const FONT_MEDIUM: FontName = { family: 'Inter', style: 'Medium' }
+
+const PANEL_FILL: RGB = { r: 1, g: 1, b: 1 }
+const PLACEHOLDER_FILL: RGB = { r: 0.9, g: 0.9, b: 0.9 }
+const MUTED_TEXT: RGB = { r: 0.45, g: 0.45, b: 0.45 }
+
+export async function loadPanelFonts(): Promise<void> {
+    await figma.loadFontAsync(FONT_REGULAR)
+    await figma.loadFontAsync(FONT_MEDIUM)
+}
+
+function markPart(node: SceneNode, part: PanelPart): void {
+    node.setPluginData(PLUGIN_DATA_KEYS.PANEL_PART, part)
+}
+
+/**
+ * Layer of a panel, act frame or character sheet
+ * @returns null if the user deleted it
+ */
+export function getPanelPart(frame: FrameNode, part: PanelPart): SceneNode | null {
+    return frame.findChild(child => child.getPluginData(PLUGIN_DATA_KEYS.PANEL_PART) === part)
+}
+
+/**
+ * true if the frame was built by this module (design files of older versions have bare frames)
+ */
+export function isPanelFrame(frame: FrameNode): boolean {
+    return frame.layoutMode !== 'NONE' && getPanelPart(frame, 'image') !== null
+}
+
+/**
+ * Load every font used by the text layers of a node (instances restyled by a designer
+ * may use other fonts than the ones the plugin created them with)
+ */
+export async function loadNodeFonts(node: ChildrenMixin): Promise<void> {
+    for (const text of node.findAllWithCriteria({ types: ['TEXT'] })) {
+        const fonts = text.fontName === figma.mixed ? text.getRangeAllFontNames(0, text.characters.length) : [text.fontName]
+        for (const font of fonts) {
+            await figma.loadFontAsync(font)
+        }
+    }
+}
+
+function createTextPart(part: PanelPart, fontName: FontName, fontSize: number): TextNode {
+    const text = figma.createText()
+    markPart(text, part)
+    text.fontName = fontName
+    text.fontSize = fontSize
+    text.textAutoResize = 'HEIGHT'
+    return text
+}
+
+function setText(frame: FrameNode, part: PanelPart, characters: string): void {
+    // Empty layers are hidden so the panel shrinks instead of leaving a gap
+    const text = getPanelPart(frame, part)
+    if (!text || text.type !== 'TEXT') {
+        return
+    }
+    if (text.characters !== characters) {
+        text.characters = characters
+    }
+    text.visible = characters !== ''
+}
+
+function createImagePart(width: number, height: number): RectangleNode {
+    const image = figma.createRectangle()
+    markPart(image, 'image')
+    image.name = 'Image'
+    image.resize(width, height)
+    image.cornerRadius = 4
+    image.fills = [{ type: 'SOLID', color: PLACEHOLDER_FILL }]
+    return image
+}
+
+function createCard<T extends FrameNode | ComponentNode>(card: T, name: string, width: number): T {
+    // Vertical auto-layout: fixed width, height hugs the layers
+    card.name = name
+    card.layoutMode = 'VERTICAL'
+    card.resize(width, card.height)
+    card.primaryAxisSizingMode = 'AUTO'
+    card.counterAxisSizingMode = 'FIXED'
+    card.itemSpacing = PANEL_LAYOUT.PANEL_SPACING
+    card.paddingTop = card.paddingBottom = card.paddingLeft = card.paddingRight = PANEL_LAYOUT.PANEL_PADDING
+    card.cornerRadius = 8
+    card.fills = [{ type: 'SOLID', color: PANEL_FILL }]
+    card.strokeWeight = 2
+    return card
+}
+
+function appendStretched(card: FrameNode | ComponentNode, node: SceneNode & LayoutMixin): void {
+    card.appendChild(node)
+    node.layoutAlign = 'STRETCH'
+}
+
+/**
+ * Variant value of a shot type ("=" and "," would break the variant name)
+ */
+export function getShotVariant(shotType: string | undefined): string {
+    const value = (shotType || '').replace(/[=,/]/g, ' ').trim()
+    return value || 'Default'
+}
+
+function createSceneCardVariant(shot: string): ComponentNode {
+    const { PANEL_WIDTH, PANEL_PADDING, IMAGE_HEIGHT } = PANEL_LAYOUT
+    const variant = createCard(figma.createComponent(), `${SHOT_PROPERTY}=${shot}`, PANEL_WIDTH)
+
+    appendStretched(variant, createImagePart(PANEL_WIDTH - PANEL_PADDING * 2, IMAGE_HEIGHT))
+
+    // Header: "SCENE" label, scene number (property) and the shot type of the variant
+    const header = figma.createFrame()
+    markPart(header, 'header')
+    header.name = 'Header'
+    header.layoutMode = 'HORIZONTAL'
+    header.primaryAxisSizingMode = 'AUTO'
+    header.counterAxisSizingMode = 'AUTO'
+    header.itemSpacing = 6
+    header.fills = []
+
+    const label = figma.createText()
+    label.fontName = FONT_MEDIUM
+    label.fontSize = 14
+    label.characters = 'SCENE'
+    label.textAutoResize = 'WIDTH_AND_HEIGHT'
+    header.appendChild(label)
+
+    const number = createTextPart('number', FONT_MEDIUM, 14)
+    number.characters = '1'
+    number.textAutoResize = 'WIDTH_AND_HEIGHT'
+    header.appendChild(number)
+
+    const shotText = createTextPart('shot', FONT_MEDIUM, 14)
+    shotText.characters = `· ${shot.toUpperCase()}`
+    shotText.textAutoResize = 'WIDTH_AND_HEIGHT'
+    shotText.fills = [{ type: 'SOLID', color: MUTED_TEXT }]
+    header.appendChild(shotText)
+    appendStretched(variant, header)
+
+    for (const part of ['caption', 'dialogue', 'duration'] as PanelPart[]) {
+        const text = createTextPart(part, FONT_REGULAR, part === 'duration' ? 11 : 12)
+        if (part === 'duration') {
+            text.fills = [{ type: 'SOLID', color: MUTED_TEXT }]
+        }
+        appendStretched(variant, text)
+    }
+
+    return variant
+}
+
+function getPropertyKey(definitions: ComponentPropertyDefinitions | ComponentProperties, name: string): string | undefined {
+    // BOOLEAN/TEXT property keys carry a "#id" suffix
+    return Object.keys(definitions).find(key => key.split('#')[0] === name)
+}
+
+function bindCardProperties(variant: ComponentNode, definitions: ComponentPropertyDefinitions): void {
+    const references: Array<[PanelPart, 'characters' | 'visible', string]> = [
+        ['number', 'characters', CARD_PROPERTIES.SCENE_NUMBER],
+        ['caption', 'characters', CARD_PROPERTIES.DESCRIPTION],
+        ['dialogue', 'characters', CARD_PROPERTIES.DIALOGUE],
+        ['dialogue', 'visible', CARD_PROPERTIES.SHOW_DIALOGUE],
+        ['duration', 'characters', CARD_PROPERTIES.DURATION],
+        ['image', 'visible', CARD_PROPERTIES.SHOW_IMAGE]
+    ]
+
+    for (const [part, field, name] of references) {
+        const layer = variant.findOne(node => node.getPluginData(PLUGIN_DATA_KEYS.PANEL_PART) === part)
+        const key = getPropertyKey(definitions, name)
+        if (layer && key) {
+            layer.componentPropertyReferences = { ...layer.componentPropertyReferences, [field]: key }
+        }
+    }
+}
+
+/**
+ * New Scene Card component set with a variant per shot type (fonts must be loaded, see loadPanelFonts)
+ * @param shots Variant values (see getShotVariant), the first one is the default variant
+ */
+export function createSceneCardSet(shots: string[]): ComponentSetNode {
+    const variants = (shots.length > 0 ? shots : ['Default']).map(createSceneCardVariant)
+    const set = figma.combineAsVariants(variants, figma.currentPage)
+    set.name = SCENE_CARD_NAME
+
+    // Variants stacked top to bottom, so new shot types don't run into the act frames on the right
+    set.layoutMode = 'VERTICAL'
+    set.primaryAxisSizingMode = 'AUTO'
+    set.counterAxisSizingMode = 'AUTO'
+    set.itemSpacing = PANEL_LAYOUT.PANEL_GAP
+    set.paddingTop = set.paddingBottom = set.paddingLeft = set.paddingRight = PANEL_LAYOUT.ACT_PADDING
+
+    set.addComponentProperty(CARD_PROPERTIES.SCENE_NUMBER, 'TEXT', '1')
+    set.addComponentProperty(CARD_PROPERTIES.DESCRIPTION, 'TEXT', 'Scene description')
+    set.addComponentProperty(CARD_PROPERTIES.DIALOGUE, 'TEXT', '💬 “Dialogue”')
+    set.addComponentProperty(CARD_PROPERTIES.SHOW_DIALOGUE, 'BOOLEAN', true)
+    set.addComponentProperty(CARD_PROPERTIES.DURATION, 'TEXT', '⏱ 3s')
+    set.addComponentProperty(CARD_PROPERTIES.SHOW_IMAGE, 'BOOLEAN', true)
+
+    for (const variant of set.children) {
+        bindCardProperties(variant as ComponentNode, set.componentPropertyDefinitions)
+    }
+
+    return set
+}
+
+/**
+ * Variant of a shot type, added to the set (as a copy of the default variant, keeping the
+ * designer's styling) when the set doesn't have it yet
+ */
+export async function getSceneCardVariant(set: ComponentSetNode, shot: string): Promise<ComponentNode> {
+    const existing = set.children.find(child => child.type === 'COMPONENT' && child.variantProperties && child.variantProperties[SHOT_PROPERTY] === shot)
+    if (existing) {
+        return existing as ComponentNode
+    }
+
+    const variant = set.defaultVariant.clone()
+    set.appendChild(variant)
+    variant.name = `${SHOT_PROPERTY}=${shot}`
+
+    const shotText = variant.findOne(node => node.getPluginData(PLUGIN_DATA_KEYS.PANEL_PART) === 'shot')
+    if (shotText && shotText.type === 'TEXT') {
+        await loadNodeFonts(variant)
+        shotText.characters = `· ${shot.toUpperCase()}`
+    }
+    return variant
+}
+
+/**
+ * Write scene fields into a card as property overrides
+ * @returns true if the card switched to another variant (overrides of the image layer may be lost)
+ */
+export async function renderSceneCard(card: InstanceNode, scene: Scene): Promise<boolean> {
+    const shot = getShotVariant(scene.shotType)
+    const properties = card.componentProperties
+    const values: Record<string, string | boolean> = {}
+    const set = (name: string, value: string | boolean) => {
+        const key = getPropertyKey(properties, name)
+        if (key && properties[key].value !== value) {
+            values[key] = value
+        }
+    }
+
+    const variantChanged = !!properties[SHOT_PROPERTY] && properties[SHOT_PROPERTY].value !== shot
+    if (variantChanged) {
+        values[SHOT_PROPERTY] = shot
+    }
+    set(CARD_PROPERTIES.SCENE_NUMBER, String(scene.sceneNumber))
+    set(CARD_PROPERTIES.DESCRIPTION, scene.description || ' ')
+    set(CARD_PROPERTIES.DIALOGUE, scene.dialogue ? `💬 “${scene.dialogue}”` : ' ')
+    set(CARD_PROPERTIES.SHOW_DIALOGUE, !!scene.dialogue)
+    set(CARD_PROPERTIES.DURATION, scene.duration ? `⏱ ${scene.duration}` : ' ')
+    set(CARD_PROPERTIES.SHOW_IMAGE, !!scene.imageUrl)
+
+    card.name = `Scene ${scene.sceneNumber}: ${scene.shotType}`
+    if (Object.keys(values).length > 0) {
+        await loadNodeFonts(card)
+        card.setProperties(values)
+    }
+    return variantChanged
+}
+
+/**
+ * Image layer of a card: the instance sublayer of the main component's image layer
+ */
+export async function getSceneCardImage(card: InstanceNode): Promise<RectangleNode | null> {
+    const main = await card.getMainComponentAsync()
+    const mainImage = main ? main.findOne(node => node.getPluginData(PLUGIN_DATA_KEYS.PANEL_PART) === 'image') : null
+    if (!mainImage) {
+        return null
+    }
+
+    // Instance sublayer ids end with the id of the layer they come from
+    const image = card.findOne(node => node.id.endsWith(`;${mainImage.id}`))
+    return image && image.type === 'RECTANGLE' ? image : null
+}
+
+/**
+ * Show an image in the image layer of a card or sheet, or the placeholder when image is null
+ * @param imageUrl Stored on owner, so unchanged images are not loaded again
+ * @param owner Node keeping the URL: the card for instances (their sublayers keep no plugin data)
+ */
+export function setPanelImage(imageLayer: RectangleNode, image: Image | null, imageUrl: string, owner: BaseNode = imageLayer): void {
+    imageLayer.fills = image
+        ? [{ type: 'IMAGE', scaleMode: 'FILL', imageHash: image.hash }]
+        : [{ type: 'SOLID', color: PLACEHOLDER_FILL }]
+    owner.setPluginData(PLUGIN_DATA_KEYS.IMAGE_URL, image ? imageUrl : '')
+}
+
+/**
+ * Act frame: header on top, panels below wrapping every PANELS_PER_ROW
+ */
+export function createActFrame(): FrameNode {
+    const { PANEL_WIDTH, PANEL_GAP, PANELS_PER_ROW, ACT_PADDING } = PANEL_LAYOUT
+
+    const frame = figma.createFrame()
+    frame.layoutMode = 'VERTICAL'
+    frame.primaryAxisSizingMode = 'AUTO'
+    frame.counterAxisSizingMode = 'AUTO'
+    frame.itemSpacing = 24
+    frame.paddingTop = frame.paddingBottom = frame.paddingLeft = frame.paddingRight = ACT_PADDING
+    frame.cornerRadius = 16
+
+    frame.appendChild(createTextPart('act-header', FONT_MEDIUM, 24))
+
+    const row = figma.createFrame()
+    markPart(row, 'act-panels')
+    row.name = 'Panels'
+    row.layoutMode = 'HORIZONTAL'
+    row.layoutWrap = 'WRAP'
+    row.resize(PANELS_PER_ROW * (PANEL_WIDTH + PANEL_GAP) - PANEL_GAP, row.height)
+    row.primaryAxisSizingMode = 'FIXED'
+    row.counterAxisSizingMode = 'AUTO'
+    row.itemSpacing = PANEL_GAP
+    row.counterAxisSpacing = PANEL_GAP
+    row.fills = []
+    frame.appendChild(row)
+
+    return frame
+}
+
+export function renderActFrame(frame: FrameNode, name: string, color: RGB): void {
+    frame.name = name
+    frame.fills = [{ type: 'SOLID', color, opacity: 0.1 }]
+    setText(frame, 'act-header', name)
+}
+
+/**
+ * Auto-layout frame holding the panels of an act, in playback order
+ */
+export function getActPanelRow(frame: FrameNode): FrameNode | null {
+    const row = getPanelPart(frame, 'act-panels')
+    return row && row.type === 'FRAME' ? row : null
+}
+
+/**
+ * Stack frames top to bottom, keeping the top-left corner of the first one
+ */
+export function stackFrames(frames: FrameNode[]): void {
+    if (frames.length === 0) {
+        return
+    }
+
+    let y = frames[0].y
+    const x = frames[0].x
+    for (const frame of frames) {
+        frame.x = x
+        frame.y = y
+        y += frame.height + PANEL_LAYOUT.ACT_GAP
+    }
+}
+
+/**
+ * Frame holding the character sheets side by side
+ */
+export function createCharacterSheetsFrame(): FrameNode {
+    const frame = figma.createFrame()
+    frame.name = '👥 CHARACTERS'
+    frame.layoutMode = 'HORIZONTAL'
+    frame.primaryAxisSizingMode = 'AUTO'
+    frame.counterAxisSizingMode = 'AUTO'
+    frame.itemSpacing = PANEL_LAYOUT.CHARACTER_GAP
+    frame.paddingTop = frame.paddingBottom = frame.paddingLeft = frame.paddingRight = PANEL_LAYOUT.ACT_PADDING
+    frame.cornerRadius = 16
+    frame.fills = [{ type: 'SOLID', color: PLACEHOLDER_FILL, opacity: 0.3 }]
+    return frame
+}
+
+/**
+ * Empty character sheet: square reference image, name and description
+ */
+export function createCharacterSheet(): FrameNode {
+    const { CHARACTER_WIDTH, PANEL_PADDING } = PANEL_LAYOUT
+    const sheet = createCard(figma.createFrame(), 'Character', CHARACTER_WIDTH)
+    const imageSize = CHARACTER_WIDTH - PANEL_PADDING * 2
+
+    appendStretched(sheet, createImagePart(imageSize, imageSize))
+    appendStretched(sheet, createTextPart('name', FONT_MEDIUM, 16))
+    appendStretched(sheet, createTextPart('description', FONT_REGULAR, 12))
+
+    return sheet
+}
+
+export function renderCharacterSheet(sheet: FrameNode, character: Character, color: RGB): void {
+    sheet.name = `👤 ${character.name}`
+    sheet.strokes = [{ type: 'SOLID', color }]
+    setText(sheet, 'name', character.name.toUpperCase())
+    setText(sheet, 'description', character.description || '')
+}
\ No newline at end of file
@@ -0,0 +1,231 @@
+// Printable storyboard sheets
+// Scenes are laid out on page-sized frames (1 canvas px = 1 PDF point) with a title block,
+// the act header and a grid of panels, each captioned with the scene fields of the sticky text
+// (description, dialogue, notes, duration). Every sheet is exported as its own PDF page.
+
+import { getSceneActNumber } from './layout'
+import { Act, PrintOrientation, PrintPaper, PrintSheetOptions, Scene } from './types'
+
+// Portrait page sizes in PDF points
+export const PAPER_SIZES: Record<PrintPaper, { width: number; height: number }> = {
+    A4: { width: 595, height: 842 },
+    Letter: { width: 612, height: 792 }
+}
+
+export const PRINT_LAYOUT = {
+    MARGIN: 36,  // Half an inch
+    GAP: 12,  // Between blocks and panels
+    TITLE_HEIGHT: 28,
+    ACT_HEADER_HEIGHT: 18,
+    CAPTION_PADDING: 6,
+    SHEET_GAP: 80  // Between sheets on the canvas
+}
+
+const FONT_REGULAR: FontName = { family: 'Inter', style: 'Regular' }
+const FONT_MEDIUM: FontName = { family: 'Inter', style: 'Medium' }
+
+const BORDER: RGB = { r: 0.8, g: 0.8, b: 0.8 }
+const PLACEHOLDER_FILL: RGB = { r: 0.93, g: 0.93, b: 0.93 }
+const MUTED_TEXT: RGB = { r: 0.4, g: 0.4, b: 0.4 }
+
+// One sheet: the scenes of one act (acts start on a new sheet)
+export interface PrintPage {
+    actName: string | null
+    scenes: Scene[]
+
+    /** Act already started on the previous sheet */
+    continued: boolean
+}
+
+export function getPageSize(paper: PrintPaper, orientation: PrintOrientation): { width: number; height: number } {
+    const size = PAPER_SIZES[paper]
+    return orientation === 'portrait' ? size : { width: size.height, height: size.width }
+}
+
+/**
+ * Columns and rows of panels: 3 panels are one column (portrait) or row (landscape), 6 fill
+ * 2×3 / 3×2 and 9 fill 3×3
+ */
+export function getPanelGrid(panelsPerPage: number, orientation: PrintOrientation): { columns: number; rows: number } {
+    const short = panelsPerPage === 3 ? 1 : panelsPerPage === 6 ? 2 : 3
+    return orientation === 'portrait' ? { columns: short, rows: 3 } : { columns: 3, rows: short }
+}
+
+/**
+ * Split scenes into sheets in sceneNumber order, one act after the other
+ * @param acts StoryboardMetadata.acts (no act headers when empty)
+ */
+export function paginateScenes(scenes: Scene[], acts: Act[], panelsPerPage: number): PrintPage[] {
+    const sorted = scenes.slice().sort((a, b) => a.sceneNumber - b.sceneNumber)
+    const groups: Array<{ actName: string | null; scenes: Scene[] }> = []
+
+    for (const scene of sorted) {
+        const actNumber = acts.length > 0 ? getSceneActNumber(scene, acts) : null
+        const act = acts.find(item => item.number === actNumber)
+        const actName = actNumber === null ? null : act && act.name ? `Act ${actNumber}: ${act.name}` : `Act ${actNumber}`
+
+        const last = groups[groups.length - 1]
+        if (last && last.actName === actName) {
+            last.scenes.push(scene)
+        } else {
+            groups.push({ actName, scenes: [scene] })
+        }
+    }
+
+    const pages: PrintPage[] = []
+    for (const group of groups) {
+        for (let start = 0; start < group.scenes.length; start += panelsPerPage) {
+            pages.push({
+                actName: group.actName,
+                scenes: group.scenes.slice(start, start + panelsPerPage),
+                continued: start > 0
+            })
+        }
+    }
+    return pages
+}
+
+function createText(characters: string, fontName: FontName, fontSize: number, color?: RGB): TextNode {
+    const text = figma.createText()
+    text.fontName = fontName
+    text.fontSize = fontSize
+    text.characters = characters
+    if (color) {
+        text.fills = [{ type: 'SOLID', color }]
+    }
+    return text
+}
+
+function createStack(name: string, direction: 'VERTICAL' | 'HORIZONTAL', spacing: number): FrameNode {
+    const frame = figma.createFrame()
+    frame.name = name
+    frame.layoutMode = direction
+    frame.itemSpacing = spacing
+    frame.fills = []
+    return frame
+}
+
+function appendStretched(parent: FrameNode, node: SceneNode & LayoutMixin): void {
+    parent.appendChild(node)
+    node.layoutAlign = 'STRETCH'
+}
+
+function createTitleBlock(title: string, pageNumber: number, pageCount: number, width: number): FrameNode {
+    const block = createStack('Title block', 'HORIZONTAL', PRINT_LAYOUT.GAP)
+    block.resize(width, PRINT_LAYOUT.TITLE_HEIGHT)
+    block.primaryAxisSizingMode = 'FIXED'
+    block.counterAxisSizingMode = 'FIXED'
+    block.counterAxisAlignItems = 'CENTER'
+    block.strokes = [{ type: 'SOLID', color: BORDER }]
+    block.strokeBottomWeight = 1
+    block.strokeTopWeight = block.strokeLeftWeight = block.strokeRightWeight = 0
+
+    const titleText = createText(title, FONT_MEDIUM, 14)
+    titleText.textTruncation = 'ENDING'
+    block.appendChild(titleText)
+    titleText.layoutGrow = 1
+
+    const date = new Date().toISOString().slice(0, 10)
+    block.appendChild(createText(`${date} · Page ${pageNumber} of ${pageCount}`, FONT_REGULAR, 8, MUTED_TEXT))
+    return block
+}
+
+async function createPrintPanel(
+    scene: Scene,
+    width: number,
+    height: number,
+    loadImage: (url: string) => Promise<Image | null>
+): Promise<FrameNode> {
+    const { CAPTION_PADDING } = PRINT_LAYOUT
+    const panel = createStack(`Scene ${scene.sceneNumber}`, 'VERTICAL', 0)
+    panel.resize(width, height)
+    panel.primaryAxisSizingMode = 'FIXED'
+    panel.counterAxisSizingMode = 'FIXED'
+    panel.clipsContent = true
+    panel.strokes = [{ type: 'SOLID', color: BORDER }]
+    panel.strokeWeight = 1
+
+    // 16:9 frame, never more than 60% of the panel so the caption keeps some room
+    const image = figma.createRectangle()
+    image.name = 'Image'
+    image.resize(width, Math.min(width * 9 / 16, height * 0.6))
+    const loaded = scene.imageUrl ? await loadImage(scene.imageUrl) : null
+    image.fills = loaded
+        ? [{ type: 'IMAGE', scaleMode: 'FILL', imageHash: loaded.hash }]
+        : [{ type: 'SOLID', color: PLACEHOLDER_FILL }]
+    panel.appendChild(image)
+
+    const caption = createStack('Caption', 'VERTICAL', 3)
+    caption.paddingTop = caption.paddingBottom = caption.paddingLeft = caption.paddingRight = CAPTION_PADDING
+    appendStretched(panel, caption)
+    caption.layoutGrow = 1
+
+    const lines: Array<[string, FontName, RGB | undefined]> = [
+        [`SCENE ${scene.sceneNumber} · ${(scene.shotType || '').toUpperCase()}`, FONT_MEDIUM, undefined],
+        [scene.description || '', FONT_REGULAR, undefined],
+        [scene.dialogue ? `💬 “${scene.dialogue}”` : '', FONT_REGULAR, undefined],
+        [scene.notes ? `📝 ${scene.notes}` : '', FONT_REGULAR, MUTED_TEXT],
+        [scene.duration ? `⏱ ${scene.duration}` : '', FONT_REGULAR, MUTED_TEXT]
+    ]
+    for (const [characters, fontName, color] of lines) {
+        if (!characters) continue
+        const text = createText(characters, fontName, 8, color)
+        text.textAutoResize = 'HEIGHT'
+        appendStretched(caption, text)
+    }
+
+    return panel
+}
+
+/**
+ * Build one sheet (fonts must be loaded, see loadPanelFonts)
+ * @param loadImage Loader of the scene images (null prints the placeholder)
+ */
+export async function createPrintSheet(
+    page: PrintPage,
+    pageNumber: number,
+    pageCount: number,
+    title: string,
+    options: PrintSheetOptions,
+    loadImage: (url: string) => Promise<Image | null>
+): Promise<FrameNode> {
+    const { MARGIN, GAP, TITLE_HEIGHT, ACT_HEADER_HEIGHT } = PRINT_LAYOUT
+    const size = getPageSize(options.paper, options.orientation)
+    const grid = getPanelGrid(options.panelsPerPage, options.orientation)
+    const contentWidth = size.width - MARGIN * 2
+
+    const sheet = createStack(`Sheet ${pageNumber}`, 'VERTICAL', GAP)
+    sheet.resize(size.width, size.height)
+    sheet.primaryAxisSizingMode = 'FIXED'
+    sheet.counterAxisSizingMode = 'FIXED'
+    sheet.paddingTop = sheet.paddingBottom = sheet.paddingLeft = sheet.paddingRight = MARGIN
+    sheet.fills = [{ type: 'SOLID', color: { r: 1, g: 1, b: 1 } }]
+    sheet.clipsContent = true
+
+    sheet.appendChild(createTitleBlock(title, pageNumber, pageCount, contentWidth))
+
+    let gridHeight = size.height - MARGIN * 2 - TITLE_HEIGHT - GAP
+    if (page.actName) {
+        const header = createText(page.continued ? `${page.actName} (cont.)` : page.actName, FONT_MEDIUM, 11)
+        header.textAutoResize = 'NONE'
+        header.resize(contentWidth, ACT_HEADER_HEIGHT)
+        sheet.appendChild(header)
+        gridHeight -= ACT_HEADER_HEIGHT + GAP
+    }
+
+    const panels = createStack('Panels', 'HORIZONTAL', GAP)
+    panels.layoutWrap = 'WRAP'
+    panels.counterAxisSpacing = GAP
+    panels.resize(contentWidth, gridHeight)
+    panels.primaryAxisSizingMode = 'FIXED'
+    panels.counterAxisSizingMode = 'FIXED'
+    sheet.appendChild(panels)
+
+    const panelWidth = (contentWidth - GAP * (grid.columns - 1)) / grid.columns
+    const panelHeight = (gridHeight - GAP * (grid.rows - 1)) / grid.rows
+    for (const scene of page.scenes) {
+        panels.appendChild(await createPrintPanel(scene, panelWidth, panelHeight, loadImage))
+    }
+
+    return sheet
+}
\ No newline at end of file
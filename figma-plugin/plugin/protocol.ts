@@ -0,0 +1,131 @@
+// UI ↔ Plugin message protocol: version and runtime validation
+import { ProtocolError, UIToPluginMessage } from './types'
+
+/**
+ * Bump when a message changes shape in a way older UIs/plugins can't handle.
+ * The UI sends its version in `hello`; the plugin answers with `hello-ack`.
+ */
+export const PROTOCOL_VERSION = 1
+
+type FieldKind = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'entity'
+
+interface FieldSpec {
+    name: string
+    kind: FieldKind
+    optional?: boolean
+}
+
+// Fields every UI → Plugin message must carry, checked before dispatching.
+// 'entity' is an object with a string id (Scene, Character, StoryboardV2).
+const MESSAGE_FIELDS: { [T in UIToPluginMessage['type']]: FieldSpec[] } = {
+    'hello': [{ name: 'protocolVersion', kind: 'number' }],
+    'load-credentials': [],
+    'save-credentials': [
+        { name: 'projectId', kind: 'string' },
+        { name: 'anonKey', kind: 'string' },
+        { name: 'storyboardId', kind: 'string', optional: true }
+    ],
+    'clear-credentials': [],
+    'sync-storyboard': [
+        { name: 'storyboardId', kind: 'string' },
+        { name: 'scenes', kind: 'array' },
+        { name: 'characters', kind: 'array', optional: true },
+        { name: 'storyboard', kind: 'entity', optional: true }
+    ],
+    'scene-inserted': [{ name: 'scene', kind: 'entity' }],
+    'scene-updated': [{ name: 'scene', kind: 'entity' }],
+    'scene-deleted': [{ name: 'sceneId', kind: 'string' }],
+    'storyboard-updated': [{ name: 'storyboard', kind: 'entity' }],
+    'character-inserted': [{ name: 'character', kind: 'entity' }],
+    'character-updated': [{ name: 'character', kind: 'entity' }],
+    'character-deleted': [{ name: 'characterId', kind: 'string' }],
+    'insert-generated-media': [
+        { name: 'mediaUrl', kind: 'string' },
+        { name: 'mediaType', kind: 'string' },
+        { name: 'previewUrl', kind: 'string', optional: true }
+    ],
+    'extract-context': [],
+    'relayout-scenes': [{ name: 'layout', kind: 'object', optional: true }],
+    'set-character-overlay': [{ name: 'enabled', kind: 'boolean' }],
+    'focus-scene': [{ name: 'sceneId', kind: 'string' }],
+    'present-scene': [{ name: 'sceneId', kind: 'string' }],
+    'reorder-scenes': [
+        { name: 'storyboardId', kind: 'string' },
+        { name: 'scenes', kind: 'array' },
+        { name: 'updatedAt', kind: 'string' }
+    ],
+    'restore-scene': [{ name: 'scene', kind: 'entity' }],
+    'export-print-sheets': [
+        { name: 'title', kind: 'string' },
+        { name: 'scenes', kind: 'array' },
+        { name: 'acts', kind: 'array', optional: true },
+        { name: 'options', kind: 'object' }
+    ],
+    'cancel': []
+}
+
+export type ValidationResult =
+    | { ok: true; message: UIToPluginMessage }
+    | { ok: false; error: ProtocolError; requestId?: string; receivedType?: string }
+
+function matchesKind(value: unknown, kind: FieldKind): boolean {
+    switch (kind) {
+    case 'array':
+        return Array.isArray(value)
+    case 'object':
+        return typeof value === 'object' && value !== null && !Array.isArray(value)
+    case 'entity':
+        return matchesKind(value, 'object') && typeof (value as { id?: unknown }).id === 'string'
+    default:
+        return typeof value === kind
+    }
+}
+
+/**
+ * Check that a raw message from the UI is a known, well-formed UIToPluginMessage
+ * @param raw Whatever arrived in figma.ui.onmessage
+ * @returns The typed message, or a protocol error to send back to the UI
+ */
+export function validateUIMessage(raw: unknown): ValidationResult {
+    if (typeof raw !== 'object' || raw === null) {
+        return { ok: false, error: { code: 'MALFORMED_MESSAGE', message: 'Message must be an object' } }
+    }
+
+    const message = raw as { type?: unknown; requestId?: unknown; [key: string]: unknown }
+    const requestId = typeof message.requestId === 'string' ? message.requestId : undefined
+
+    if (typeof message.type !== 'string') {
+        return { ok: false, requestId, error: { code: 'MALFORMED_MESSAGE', message: 'Message type is missing' } }
+    }
+
+    const receivedType = message.type
+    if (!Object.prototype.hasOwnProperty.call(MESSAGE_FIELDS, receivedType)) {
+        return {
+            ok: false,
+            requestId,
+            receivedType,
+            error: { code: 'UNKNOWN_MESSAGE_TYPE', message: `Unknown message type: ${receivedType}` }
+        }
+    }
+
+    const fields = MESSAGE_FIELDS[receivedType as UIToPluginMessage['type']]
+    for (const field of fields) {
+        const value = message[field.name]
+        if (value === undefined && field.optional) {
+            continue
+        }
+        if (!matchesKind(value, field.kind)) {
+            return {
+                ok: false,
+                requestId,
+                receivedType,
+                error: {
+                    code: 'MALFORMED_MESSAGE',
+                    message: `${receivedType}: field "${field.name}" must be ${field.kind}`
+                }
+            }
+        }
+    }
+
+    return { ok: true, message: message as unknown as UIToPluginMessage }
+}
\ No newline at end of file
@@ -42,6 +42,12 @@ export interface Scene {
   /** UUID reference to media entity (v3+) */
   mediaId?: string;
 
+  /** URL of the generated scene video */
+  videoUrl?: string;
+
+  /** UUID of the current video in the media table */
+  videoMediaId?: string;
+
   /** Duration of the scene (e.g., "3s", "5s") */
   duration: string;
 
@@ -65,9 +71,12 @@ export interface Scene {
   /** FigJam sticky note node ID */
   figmaNodeId?: string;
 
-  /** FigJam connector IDs created for this scene */
+  /** FigJam connector IDs created for this scene, in nextScenes order */
   figmaConnectorIds?: string[];
 
+  /** Labels for branching edges, keyed by next scene ID (default "Option A", "Option B", ...) */
+  nextSceneLabels?: Record<string, string>;
+
   // ============================================
 
   /** Additional metadata (AI generation params, context, etc.) */
@@ -80,6 +89,36 @@ export interface Scene {
   updatedAt: string;
 }
 
+/** Seconds a scene without a usable duration is held (presentation mode, animatic) */
+export const DEFAULT_SCENE_SECONDS = 3;
+
+const MIN_SCENE_SECONDS = 0.5;
+const MAX_SCENE_SECONDS = 60;
+
+/**
+ * Seconds of a scene duration as written in storyboards ("3s", "2.5", "4 sec")
+ * Also used by the animatic worker (supabase/workers/animatic/timeline.ts).
+ * @returns DEFAULT_SCENE_SECONDS when nothing numeric is found
+ */
+export function parseDurationSeconds(duration: string | undefined): number {
+  const match = /(\d+(?:\.\d+)?)/.exec(duration || '');
+  if (!match) {
+    return DEFAULT_SCENE_SECONDS;
+  }
+  return Math.min(Math.max(parseFloat(match[1]), MIN_SCENE_SECONDS), MAX_SCENE_SECONDS);
+}
+
+/**
+ * Image variants of a scene waiting for a pick (`scene.metadata.imageVariants`)
+ * Written by the image worker for jobs with `variants > 1`, removed by `pick_media_variant`.
+ */
+export interface SceneImageVariants {
+  /** Media rows generated together by one job */
+  group: string;
+  variants: Array<{ mediaId: string; url: string }>;
+  createdAt: string;
+}
+
 /**
  * Act structure for organizing scenes (v3)
  */
@@ -142,6 +181,88 @@ export interface Character {
   updatedAt: string;
 }
 
+/**
+ * Scene placement strategy on the FigJam canvas (see plugin/layout.ts)
+ * - strip: one row per act, act sections side by side
+ * - grid: N columns per act, act sections stacked
+ * - flow: follows nextScenes, no act sections
+ */
+export type LayoutStrategy = 'strip' | 'grid' | 'flow';
+
+export interface StoryboardLayout {
+  strategy: LayoutStrategy;
+
+  /** Columns per row for the grid strategy (default: 4) */
+  columns?: number;
+}
+
+/**
+ * Visual style applied to every generated image/video of a storyboard
+ * (prompt texts of the presets live in supabase/functions/_shared/styles.ts)
+ */
+export type StylePresetId = 'cinematic' | 'anime' | 'comic-book' | 'pencil-sketch' | 'noir' | 'custom';
+
+export interface StoryboardStyle {
+  preset: StylePresetId;
+
+  /** Style description for 'custom', extra style keywords for presets */
+  prompt?: string;
+
+  /** Things to avoid, added to the preset's negative prompt */
+  negativePrompt?: string;
+
+  /** Image whose look all frames should match (sent to the image model as reference) */
+  referenceImageUrl?: string;
+}
+
+/**
+ * Scene order of an animatic: by sceneNumber, or along the first nextScenes link
+ */
+export type AnimaticOrder = 'scene-number' | 'path';
+
+/**
+ * Last animatic assembled for a storyboard (written by supabase/workers/animatic)
+ */
+export interface StoryboardAnimatic {
+  status: 'queued' | 'rendering' | 'done' | 'failed';
+  order: AnimaticOrder;
+
+  /** Dialogue burned in as captions */
+  captions: boolean;
+
+  /** Public URL of the MP4 (done) */
+  url?: string;
+  durationSeconds?: number;
+  sceneCount?: number;
+  error?: string;
+  updatedAt: string;
+}
+
+/**
+ * Printable storyboard sheets (see plugin/print.ts)
+ */
+export type PrintPaper = 'A4' | 'Letter';
+
+export type PrintOrientation = 'portrait' | 'landscape';
+
+export interface PrintSheetOptions {
+  paper: PrintPaper;
+  orientation: PrintOrientation;
+
+  /** Panels per sheet (3, 6 or 9) */
+  panelsPerPage: 3 | 6 | 9;
+}
+
+/**
+ * Last printable PDF exported for a storyboard
+ */
+export interface StoryboardPrint extends PrintSheetOptions {
+  /** Public URL of the PDF in the storyboard-prints bucket */
+  url: string;
+  pageCount: number;
+  createdAt: string;
+}
+
 /**
  * Storyboard metadata with act structure (v3)
  */
@@ -155,6 +276,18 @@ export interface StoryboardMetadata {
   /** Target duration (e.g., "90 minutes", "30 seconds") */
   targetDuration?: string;
 
+  /** Canvas layout of scenes (default: strip) */
+  layout?: StoryboardLayout;
+
+  /** Generation style (default: cinematic) */
+  style?: StoryboardStyle;
+
+  /** Last animatic export */
+  animatic?: StoryboardAnimatic;
+
+  /** Last printable PDF */
+  print?: StoryboardPrint;
+
   /** Additional custom metadata */
   [key: string]: unknown;
 }
@@ -256,36 +389,209 @@ export interface FigmaContext {
 }
 
 /**
- * Message types for UI ↔ Plugin communication
+ * Context extracted from the current selection (or viewport) for AI prompts
+ */
+export interface ExtractedContext {
+  selectionCount: number;
+  metadata: Array<Pick<NodeMetadata, 'id' | 'name' | 'type'> & Partial<Pick<NodeMetadata, 'x' | 'y' | 'width' | 'height'>>>;
+  textContent: string[];
+  pageContext: {
+    pageName: string;
+    totalNodes: number;
+    viewport?: {
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+    };
+  };
+}
+
+/**
+ * Scene fields that can be edited directly on the canvas
  */
+export type EditableSceneFields = Pick<Scene, 'description' | 'dialogue' | 'notes' | 'duration' | 'actNumber'>;
 
-export type MessageType =
-  | 'sync-storyboard'
-  | 'scene-inserted'
-  | 'scene-updated'
-  | 'scene-deleted'
-  | 'character-inserted'      // NEW in v2+
-  | 'character-updated'       // NEW in v2+
-  | 'character-deleted'       // NEW in v2+
-  | 'extract-context'
-  | 'context-extracted'
-  | 'generate-storyboard'
-  | 'cancel'
-  | 'realtime-status'
-  | 'sync-complete'
-  | 'sync-error'
-  | 'realtime-error'
-  | 'load-credentials'
-  | 'credentials-loaded'
-  | 'save-credentials'
-  | 'credentials-saved'
-  | 'clear-credentials'
-  | 'credentials-cleared'
-  | 'selection-changed'
-  | 'insert-generated-media'  // NEW: Insert standalone generated image/video
-  | 'media-inserted';         // NEW: Confirmation that media was inserted
-
-export interface PluginMessage {
-  type: MessageType;
-  [key: string]: unknown;
-}
\ No newline at end of file
+/**
+ * Canvas edit of a scene, sent from plugin to UI to be saved in Supabase
+ */
+export interface SceneEdit {
+  sceneId: string;
+  storyboardId: string;
+
+  /** Only the fields that differ from the last known scene data */
+  changes: Partial<EditableSceneFields>;
+
+  /** updatedAt written with the edit, used to recognise the realtime echo */
+  updatedAt: string;
+}
+
+/**
+ * Position of a scene in the storyboard order
+ */
+export interface SceneOrderChange {
+  sceneId: string;
+  sceneNumber: number;
+
+  /** Left out when the storyboard has no acts */
+  actNumber?: number;
+}
+
+/**
+ * Scene renumbering read from the canvas (stickies dragged into a new order), sent from plugin
+ * to UI to be saved in Supabase in one batch. The canvas keeps the saved numbers until the UI
+ * applies it with `reorder-scenes` after the save (undo goes the same way).
+ */
+export interface SceneReorder {
+  storyboardId: string;
+
+  /** New numbers of the scenes that changed */
+  scenes: SceneOrderChange[];
+
+  /** Numbers the same scenes had before, to undo the reorder */
+  previous: SceneOrderChange[];
+
+  /** updatedAt written with the change, used to recognise the realtime echoes */
+  updatedAt: string;
+}
+
+/**
+ * Figma node ids the plugin created for a scene, to be saved on the scene row.
+ * Fields left undefined are not changed.
+ */
+export interface FigmaNodeBinding {
+  sceneId: string;
+  figmaNodeId?: string;
+  figmaConnectorIds?: string[];
+}
+
+/**
+ * Message protocol for UI ↔ Plugin communication
+ *
+ * Every message may carry a `requestId`. The plugin copies it into its response,
+ * so the UI can await the response of a request (see ui/src/services/pluginBridge.ts).
+ * The protocol version is exchanged with `hello` / `hello-ack` when the UI loads.
+ */
+
+export interface MessageEnvelope {
+  /** Correlates a request with its response */
+  requestId?: string;
+}
+
+export type ProtocolErrorCode =
+  | 'MALFORMED_MESSAGE'
+  | 'UNKNOWN_MESSAGE_TYPE'
+  | 'UNSUPPORTED_PROTOCOL_VERSION'
+  | 'HANDLER_FAILED';
+
+export interface ProtocolError {
+  code: ProtocolErrorCode;
+  message: string;
+}
+
+/**
+ * Messages sent from UI to Plugin
+ */
+export type UIToPluginMessage = MessageEnvelope & (
+  | { type: 'hello'; protocolVersion: number }
+  | { type: 'load-credentials' }
+  | { type: 'save-credentials'; projectId: string; anonKey: string; storyboardId?: string }
+  | { type: 'clear-credentials' }
+  | {
+      type: 'sync-storyboard';
+      storyboardId: string;
+      scenes: Scene[];
+      characters?: Character[];
+      storyboard?: StoryboardV2;
+      projectId?: string;
+      publicAnonKey?: string;
+    }
+  | { type: 'scene-inserted'; scene: Scene }
+  | { type: 'scene-updated'; scene: Scene }
+  | { type: 'scene-deleted'; sceneId: string }
+  | { type: 'storyboard-updated'; storyboard: StoryboardV2 }
+  | { type: 'character-inserted'; character: Character }
+  | { type: 'character-updated'; character: Character }
+  | { type: 'character-deleted'; characterId: string }
+  | { type: 'insert-generated-media'; mediaUrl: string; mediaType: 'image' | 'video'; previewUrl?: string }
+  | { type: 'extract-context' }
+  | { type: 'relayout-scenes'; layout?: StoryboardLayout }
+  | { type: 'set-character-overlay'; enabled: boolean }
+  | { type: 'focus-scene'; sceneId: string }
+  /** Presentation mode: zoom to a scene without changing the selection */
+  | { type: 'present-scene'; sceneId: string }
+  /**
+   * Apply saved scene numbers and lay the scenes out again (none: back to the saved order);
+   * answered with scene-order-applied
+   */
+  | { type: 'reorder-scenes'; storyboardId: string; scenes: SceneOrderChange[]; updatedAt: string }
+  /** A canvas edit (scene-edited) could not be saved: render the last known scene again */
+  | { type: 'restore-scene'; scene: Scene }
+  | {
+      type: 'export-print-sheets';
+      /** Storyboard name, printed in the title block */
+      title: string;
+      scenes: Scene[];
+      acts?: Act[];
+      options: PrintSheetOptions;
+    }
+  | { type: 'cancel' }
+);
+
+/**
+ * Messages sent from Plugin to UI
+ */
+export type PluginToUIMessage = MessageEnvelope & (
+  | { type: 'hello-ack'; protocolVersion: number; compatible: boolean }
+  | { type: 'protocol-error'; error: ProtocolError; receivedType?: string }
+  | { type: 'credentials-loaded'; projectId: string; anonKey: string; storyboardId: string }
+  | { type: 'credentials-saved'; success: boolean; error?: string }
+  | { type: 'credentials-cleared'; success: boolean; error?: string }
+  | {
+      type: 'sync-complete';
+      sceneCount: number;
+      characterCount: number;
+      /** figmaNodeIds (and changed figmaConnectorIds) to save in the database */
+      updatedScenes: FigmaNodeBinding[];
+      /** Scene → character links shown (document setting) */
+      characterOverlay: boolean;
+    }
+  | { type: 'connectors-synced'; storyboardId: string; scenes: FigmaNodeBinding[] }
+  | { type: 'sync-error'; message: string }
+  | { type: 'realtime-status'; status: 'disconnected' | 'connecting' | 'connected' | 'error' }
+  | { type: 'relayout-complete'; sceneCount: number; strategy: LayoutStrategy }
+  | { type: 'character-overlay-updated'; enabled: boolean; linkCount: number }
+  | { type: 'scene-focused'; sceneId: string; found: boolean }
+  | { type: 'scene-presented'; sceneId: string; found: boolean }
+  /** Answer to reorder-scenes: how many scenes got new numbers (0 when the canvas was only laid out again) */
+  | { type: 'scene-order-applied'; storyboardId: string; sceneCount: number }
+  | {
+      type: 'print-sheets-exported';
+      /** One single-page PDF per sheet, in page order (merged by the UI) */
+      pages: Uint8Array[];
+    }
+  | { type: 'media-inserted'; success: boolean; mediaType?: 'image' | 'video'; error?: string }
+  | { type: 'context-extracted'; context: ExtractedContext | null; error?: string }
+  | {
+      type: 'selection-changed';
+      count: number;
+      hasImage: boolean;
+      imageUrl?: string;
+      sceneId?: string;
+      characterId?: string;
+      /** Media id when an image variant of the contact strip is selected */
+      variantMediaId?: string;
+    }
+  | ({ type: 'scene-edited' } & SceneEdit)
+  /** Stickies were dragged into a new order (proposal, nothing applied yet) */
+  | ({ type: 'scenes-reordered' } & SceneReorder)
+);
+
+export type PluginMessage = UIToPluginMessage | PluginToUIMessage;
+
+export type MessageType = PluginMessage['type'];
+
+/**
+ * Narrow a message union to one message type
+ */
+export type MessageOfType<M extends PluginMessage, T extends M['type']> = Extract<M, { type: T }>;
\ No newline at end of file
@@ -0,0 +1,270 @@
+/**
+ * Local test for the realtime client (ui/src/services/realtimeClient.ts)
+ * Runs the client against a fake Phoenix WebSocket server on localhost and checks the join,
+ * reconnect, re-join, catch-up and heartbeat timeout handling. No Supabase calls.
+ * Run: npm test
+ */
+
+import { WebSocket, WebSocketServer } from 'ws'
+import type { KvRecord, PostgresChangePayload } from '../ui/src/services/realtimeRouter'
+import { RealtimeClient, RealtimeStatus } from '../ui/src/services/realtimeClient'
+
+interface PhoenixMessage {
+    event: string
+    topic: string
+    payload: Record<string, unknown>
+    ref: string | null
+}
+
+const STORYBOARD_ID = 'sb-test'
+const KV_TOPIC = 'realtime:public:kv_store_7ee7668a'
+
+/**
+ * Minimal Phoenix Channels server: acknowledges joins and heartbeats and records every message
+ */
+class FakePhoenixServer {
+    readonly received: PhoenixMessage[] = []
+    connections = 0
+    answerHeartbeats = true
+    rejectFilteredJoins = false
+
+    private server: WebSocketServer
+    private socket: WebSocket | null = null
+
+    constructor() {
+        this.server = new WebSocketServer({ port: 0, host: '127.0.0.1' })
+        this.server.on('connection', socket => {
+            this.connections++
+            this.socket = socket
+            socket.on('message', data => this.handleMessage(socket, JSON.parse(data.toString())))
+        })
+    }
+
+    get url(): string {
+        const address = this.server.address()
+        if (!address || typeof address === 'string') {
+            throw new Error('Fake server is not listening')
+        }
+        return `ws://127.0.0.1:${address.port}/realtime/v1/websocket?vsn=1.0.0`
+    }
+
+    async listening(): Promise<void> {
+        if (!this.server.address()) {
+            await new Promise(resolve => this.server.once('listening', resolve))
+        }
+    }
+
+    joins(): PhoenixMessage[] {
+        return this.received.filter(message => message.event === 'phx_join' && message.topic === KV_TOPIC)
+    }
+
+    push(event: string, payload: Record<string, unknown>): void {
+        this.socket?.send(JSON.stringify({ event, topic: KV_TOPIC, payload, ref: null }))
+    }
+
+    /** Drop the connection from the server side, like a restart or a network change */
+    dropConnection(): void {
+        this.socket?.terminate()
+        this.socket = null
+    }
+
+    async close(): Promise<void> {
+        this.server.clients.forEach(client => client.terminate())
+        await new Promise(resolve => this.server.close(resolve))
+    }
+
+    private handleMessage(socket: WebSocket, message: PhoenixMessage): void {
+        this.received.push(message)
+
+        if (message.event === 'heartbeat' && !this.answerHeartbeats) {
+            return
+        }
+
+        let status = 'ok'
+        if (message.event === 'phx_join' && this.rejectFilteredJoins && isFilteredJoin(message)) {
+            status = 'error'
+        }
+        socket.send(JSON.stringify({
+            event: 'phx_reply',
+            topic: message.topic,
+            payload: { status, response: {} },
+            ref: message.ref
+        }))
+    }
+}
+
+function isFilteredJoin(message: PhoenixMessage): boolean {
+    return JSON.stringify(message.payload).indexOf(`storyboard_id=eq.${STORYBOARD_ID}`) !== -1
+}
+
+function check(condition: boolean, message: string) {
+    if (!condition) {
+        throw new Error(message)
+    }
+    console.log(`   ✓ ${message}`)
+}
+
+async function waitFor(condition: () => boolean, description: string, timeoutMs = 2000): Promise<void> {
+    const start = Date.now()
+    while (!condition()) {
+        if (Date.now() - start > timeoutMs) {
+            throw new Error(`Timed out waiting for ${description}`)
+        }
+        await new Promise(resolve => setTimeout(resolve, 10))
+    }
+}
+
+function createClient(server: FakePhoenixServer, fetchRowsSince: (since: string | undefined) => Promise<KvRecord[]>) {
+    const changes: PostgresChangePayload[] = []
+    const statuses: RealtimeStatus[] = []
+
+    const client = new RealtimeClient({
+        projectId: 'local',
+        apiKey: 'test-key',
+        storyboardId: STORYBOARD_ID,
+        onChange: change => changes.push(change),
+        onStatusChange: status => statuses.push(status),
+        url: server.url,
+        WebSocketImpl: WebSocket as unknown as typeof globalThis.WebSocket,
+        fetchRowsSince,
+        heartbeatIntervalMs: 50,
+        heartbeatTimeoutMs: 50,
+        reconnectBaseDelayMs: 10,
+        reconnectMaxDelayMs: 50
+    })
+
+    return { client, changes, statuses }
+}
+
+async function testReconnectAndCatchUp() {
+    console.log('\n🔌 Testing reconnect, re-join and catch-up...')
+
+    const server = new FakePhoenixServer()
+    await server.listening()
+
+    const catchUps: (string | undefined)[] = []
+    const { client, changes, statuses } = createClient(server, async since => {
+        catchUps.push(since)
+        return [{ key: `scene:${STORYBOARD_ID}:s2`, updated_at: '2025-11-20T10:00:20.000000+00:00' }]
+    })
+
+    try {
+        client.connect()
+        await waitFor(() => client.getStatus() === 'connected', 'the first join')
+        check(server.joins().length === 1, 'joins the kv channel once')
+        check(isFilteredJoin(server.joins()[0]), 'filters the join by storyboard')
+        check(catchUps.length === 0, 'no catch-up on the first join')
+
+        // The commit time is later than updated_at (now() is the transaction start)
+        server.push('postgres_changes', {
+            data: {
+                type: 'UPDATE',
+                commit_timestamp: '2025-11-20T10:00:09Z',
+                record: { key: `scene:${STORYBOARD_ID}:s1`, updated_at: '2025-11-20T10:00:05.123456+00:00' }
+            }
+        })
+        await waitFor(() => changes.length === 1, 'the pushed change')
+
+        server.dropConnection()
+        await waitFor(() => server.connections === 2 && client.getStatus() === 'connected', 'the reconnect')
+        await waitFor(() => catchUps.length === 1, 'the catch-up')
+        check(statuses.indexOf('connecting') !== statuses.lastIndexOf('connecting'), 'reports connecting while reconnecting')
+        check(server.joins().length === 2, 're-joins the kv channel after the reconnect')
+        check(catchUps[0] === '2025-11-20T09:59:05.123Z', 'catches up from the last updated_at minus the margin, not the commit time')
+
+        await waitFor(() => changes.length === 2, 'the caught-up row')
+        check(changes[1].data.type === 'UPDATE' && changes[1].data.record?.key === `scene:${STORYBOARD_ID}:s2`, 'delivers caught-up rows as updates')
+
+        server.dropConnection()
+        await waitFor(() => catchUps.length === 2, 'the second catch-up')
+        check(catchUps[1] === '2025-11-20T09:59:20.000Z', 'moves the catch-up point to the newest caught-up row')
+    } finally {
+        client.disconnect()
+        await server.close()
+    }
+}
+
+async function testHeartbeatTimeout() {
+    console.log('\n💓 Testing the heartbeat timeout...')
+
+    const server = new FakePhoenixServer()
+    await server.listening()
+
+    const catchUps: (string | undefined)[] = []
+    const { client } = createClient(server, async since => {
+        catchUps.push(since)
+        return []
+    })
+
+    try {
+        client.connect()
+        await waitFor(() => client.getStatus() === 'connected', 'the first join')
+        await waitFor(() => server.received.some(message => message.event === 'heartbeat'), 'a heartbeat')
+        check(server.connections === 1, 'keeps the connection while heartbeats are answered')
+
+        // A sleeping laptop: the socket stays open but nothing comes back
+        server.answerHeartbeats = false
+        await waitFor(() => server.connections === 2, 'the reconnect after the missed heartbeat')
+        server.answerHeartbeats = true
+
+        await waitFor(() => client.getStatus() === 'connected', 'the re-join')
+        await waitFor(() => catchUps.length === 1, 'the catch-up')
+        check(catchUps[0] === undefined, 'catches up on every row when no updated_at is known')
+    } finally {
+        client.disconnect()
+        await server.close()
+    }
+}
+
+async function testUnfilteredFallback() {
+    console.log('\n🪂 Testing the unfiltered join fallback...')
+
+    const server = new FakePhoenixServer()
+    server.rejectFilteredJoins = true
+    await server.listening()
+
+    const { client } = createClient(server, async () => [])
+
+    try {
+        client.connect()
+        await waitFor(() => client.getStatus() === 'connected', 'the fallback join')
+        check(server.joins().length === 2, 'joins again after the filtered join is rejected')
+        check(!isFilteredJoin(server.joins()[1]), 'the second join is unfiltered')
+    } finally {
+        client.disconnect()
+        await server.close()
+    }
+}
+
+async function testDisconnect() {
+    console.log('\n🛑 Testing disconnect...')
+
+    const server = new FakePhoenixServer()
+    await server.listening()
+
+    const { client, statuses } = createClient(server, async () => [])
+
+    try {
+        client.connect()
+        await waitFor(() => client.getStatus() === 'connected', 'the first join')
+        client.disconnect()
+
+        await new Promise(resolve => setTimeout(resolve, 200))
+        check(client.getStatus() === 'disconnected', 'reports disconnected')
+        check(statuses[statuses.length - 1] === 'disconnected', 'does not reconnect afterwards')
+        check(server.connections === 1, 'opens no new connection')
+    } finally {
+        await server.close()
+    }
+}
+
+try {
+    await testReconnectAndCatchUp()
+    await testHeartbeatTimeout()
+    await testUnfilteredFallback()
+    await testDisconnect()
+    console.log('\n✅ Realtime client tests passed')
+} catch (error) {
+    console.error('\n❌ Realtime client test failed:', error instanceof Error ? error.message : error)
+    process.exit(1)
+}
\ No newline at end of file
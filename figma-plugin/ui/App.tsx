@@ -1,8 +1,83 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import './styles/index.scss'
-import { Scene, StoryboardV2, Character } from '../plugin/types'
-
-type RealtimeStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
+import { saveSceneEdit } from './src/services/sceneEdits'
+import { saveSceneReorder } from './src/services/sceneOrder'
+import { generateStoryboard } from './src/services/storyboardGenerator'
+import { RealtimeClient, RealtimeStatus } from './src/services/realtimeClient'
+import { routePostgresChange, KvRecord, PostgresChangePayload } from './src/services/realtimeRouter'
+import {
+    ANIMATIC_ORDER_LABELS,
+    ANIMATIC_STATUS_LABELS,
+    enqueueAnimatic
+} from './src/services/animatic'
+import {
+    DeadLetter,
+    DLQ_NAMES,
+    fetchDeadLetters,
+    requeueDeadLetter
+} from './src/services/deadLetters'
+import {
+    PresentationOrder,
+    PresentationState,
+    PRESENTATION_ORDER_LABELS,
+    getNextScenes,
+    getFirstScene
+} from './src/services/presentation'
+import {
+    PRINT_PAPER_LABELS,
+    PRINT_PANELS_PER_PAGE,
+    PRINT_ORIENTATION_LABELS,
+    mergePdfs,
+    uploadPrintPdf
+} from './src/services/printSheets'
+import {
+    MediaItem,
+    SceneMediaHistory,
+    MAX_IMAGE_VARIANTS,
+    fetchSceneMediaHistory,
+    pickMediaVariant,
+    revertSceneMedia
+} from './src/services/media'
+import {
+    postToPlugin,
+    requestPlugin,
+    PROTOCOL_VERSION,
+    PluginRequestError,
+    rejectPendingRequests,
+    resolvePluginResponse
+} from './src/services/pluginBridge'
+import {
+    BatchProgress,
+    GenerationJob,
+    JOB_STATUS_LABELS,
+    applyJobChange,
+    enqueueMissingSceneImages,
+    fetchBatchProgress,
+    fetchGenerationJobs,
+    isBatchFinished,
+    isJobActive,
+    jobKey
+} from './src/services/generationJobs'
+import {
+    Scene,
+    Character,
+    SceneEdit,
+    SceneReorder,
+    StoryboardV2,
+    StoryboardMetadata,
+    StoryboardStyle,
+    StylePresetId,
+    AnimaticOrder,
+    PrintPaper,
+    PrintOrientation,
+    PrintSheetOptions,
+    LayoutStrategy,
+    ExtractedContext,
+    FigmaNodeBinding,
+    PluginToUIMessage,
+    DEFAULT_SCENE_SECONDS,
+    parseDurationSeconds
+} from '../plugin/types'
 
 interface Notification {
   id: number;
@@ -10,14 +85,28 @@ interface Notification {
   type: 'success' | 'error' | 'info';
 }
 
-interface PostgresChangePayload {
-  data: {
-    type: 'INSERT' | 'UPDATE' | 'DELETE';
-    record?: { value: Scene | Character };
-    old_record?: { value: Scene | Character };
-    old?: unknown;
-    columns?: unknown;
-  };
+// Building a large storyboard on the canvas can take a while
+const SYNC_TIMEOUT_MS = 120000
+
+const STYLE_PRESET_LABELS: Record<StylePresetId, string> = {
+    'cinematic': 'Cinematic',
+    'anime': 'Anime',
+    'comic-book': 'Comic Book',
+    'pencil-sketch': 'Pencil Sketch',
+    'noir': 'Noir',
+    'custom': 'Custom'
+}
+
+const DEFAULT_STYLE: StoryboardStyle = { preset: 'cinematic' }
+
+// Format context as XML-like structure for safety
+function formatFigmaContext(context: ExtractedContext): string {
+    return `<figma-context>
+  <selection-count>${context.selectionCount || 0}</selection-count>
+  ${context.metadata ? `<metadata>${JSON.stringify(context.metadata).slice(0, 500)}</metadata>` : ''}
+  ${context.textContent ? `<text-content>${context.textContent.join('\n').slice(0, 300)}</text-content>` : ''}
+  ${context.pageContext ? `<page-info>${JSON.stringify(context.pageContext).slice(0, 200)}</page-info>` : ''}
+</figma-context>`
 }
 
 function App() {
@@ -29,21 +118,32 @@ function App() {
     const [notifications, setNotifications] = useState<Notification[]>([])
     const [isLoading, setIsLoading] = useState(false)
     const [isLoadingStoryboards, setIsLoadingStoryboards] = useState(false)
-    const [_ws, setWs] = useState<WebSocket | null>(null)
     const [previousScenes, setPreviousScenes] = useState<Map<string, Scene>>(new Map())
     const [credentialsSaved, setCredentialsSaved] = useState(false)
     const [settingsExpanded, setSettingsExpanded] = useState(false)
     const [imageQueueCount, setImageQueueCount] = useState<number>(0)
     const [videoQueueCount, setVideoQueueCount] = useState<number>(0)
     const [isLoadingQueues, setIsLoadingQueues] = useState(false)
+    const [deadLetterCount, setDeadLetterCount] = useState<number>(0)
+    const [deadLetters, setDeadLetters] = useState<DeadLetter[]>([])
+    const [deadLettersExpanded, setDeadLettersExpanded] = useState(false)
     const [selectionContext, setSelectionContext] = useState<{
         count: number;
         hasImage: boolean;
         imageUrl?: string;
         sceneId?: string;
+        characterId?: string;
+        variantMediaId?: string;
     }>({ count: 0, hasImage: false })
     const [promptText, setPromptText] = useState('')
     const [isGenerating, setIsGenerating] = useState(false)
+    const [imageVariantCount, setImageVariantCount] = useState(1)
+    const [isPickingVariant, setIsPickingVariant] = useState(false)
+    const [mediaHistory, setMediaHistory] = useState<SceneMediaHistory | null>(null)
+    const [mediaHistoryExpanded, setMediaHistoryExpanded] = useState(false)
+    // History entry shown next to the current media
+    const [compareMediaId, setCompareMediaId] = useState<string | null>(null)
+    const [isRevertingMedia, setIsRevertingMedia] = useState(false)
     const [isProcessingQueue, setIsProcessingQueue] = useState(false)
     const [videoPromptText, setVideoPromptText] = useState('')
     const [isGeneratingVideo, setIsGeneratingVideo] = useState(false)
@@ -51,21 +151,77 @@ function App() {
     const [figmaContext, setFigmaContext] = useState<string>('')
     const [isExtractingContext, setIsExtractingContext] = useState(false)
     const [includeContextInPrompt, setIncludeContextInPrompt] = useState(false)
+    const [loglineText, setLoglineText] = useState('')
+    const [storyboardSceneCount, setStoryboardSceneCount] = useState(8)
+    const [useContextForStoryboard, setUseContextForStoryboard] = useState(false)
+    const [enqueueStoryboardImages, setEnqueueStoryboardImages] = useState(false)
+    const [isGeneratingStoryboard, setIsGeneratingStoryboard] = useState(false)
+    const [layoutStrategy, setLayoutStrategy] = useState<LayoutStrategy>('strip')
+    const [isRelayouting, setIsRelayouting] = useState(false)
+    const [characterOverlay, setCharacterOverlay] = useState(false)
+    const [storyboardStyle, setStoryboardStyle] = useState<StoryboardStyle>(DEFAULT_STYLE)
+    const [generationJobs, setGenerationJobs] = useState<GenerationJob[]>([])
+    // Jobs enqueued from this UI (queue:msg_id), highlighted in the jobs panel
+    const [ownJobKeys, setOwnJobKeys] = useState<Set<string>>(new Set())
+    // Last batch of missing scene images enqueued from this UI
+    const [imageBatch, setImageBatch] = useState<{ storyboardId: string; batchId: string; progress: BatchProgress | null } | null>(null)
+    const [isEnqueuingBatch, setIsEnqueuingBatch] = useState(false)
+    const [animaticOrder, setAnimaticOrder] = useState<AnimaticOrder>('scene-number')
+    const [animaticCaptions, setAnimaticCaptions] = useState(false)
+    const [isEnqueuingAnimatic, setIsEnqueuingAnimatic] = useState(false)
+    const [printPaper, setPrintPaper] = useState<PrintPaper>('A4')
+    const [printOrientation, setPrintOrientation] = useState<PrintOrientation>('landscape')
+    const [printPanelsPerPage, setPrintPanelsPerPage] = useState<PrintSheetOptions['panelsPerPage']>(6)
+    const [isExportingPrint, setIsExportingPrint] = useState(false)
+    const [presentationOrder, setPresentationOrder] = useState<PresentationOrder>('scene-number')
+    const [presentation, setPresentation] = useState<PresentationState | null>(null)
+    const [isAutoAdvancing, setIsAutoAdvancing] = useState(false)
+    // Last reorder dragged on the canvas, until it is undone
+    const [lastReorder, setLastReorder] = useState<SceneReorder | null>(null)
+    const [isUndoingReorder, setIsUndoingReorder] = useState(false)
+
+    // Latest credentials for handlers registered once on mount (window.onmessage)
+    const credentialsRef = useRef({ projectId, publicAnonKey })
+    credentialsRef.current = { projectId, publicAnonKey }
+
+    // Latest scenes for the auto-advance timer, which must not restart on every scene event
+    const previousScenesRef = useRef(previousScenes)
+    previousScenesRef.current = previousScenes
+
+    const realtimeClientRef = useRef<RealtimeClient | null>(null)
+
+    // Close realtime connection when the plugin UI goes away
+    useEffect(() => {
+        return () => {
+            realtimeClientRef.current?.disconnect()
+            rejectPendingRequests()
+        }
+    }, [])
 
-    // Request credentials from plugin on mount
+    // Check protocol compatibility and request credentials from plugin on mount
     useEffect(() => {
+        requestPlugin({ type: 'hello', protocolVersion: PROTOCOL_VERSION }, ['hello-ack'], 5000)
+            .then(ack => {
+                if (!ack.compatible) {
+                    addNotification(`Plugin protocol v${ack.protocolVersion} differs from UI v${PROTOCOL_VERSION}, please reload the plugin`, 'error')
+                }
+            })
+            .catch(error => {
+                console.error('[UI] Plugin handshake failed:', error)
+            })
+
         console.log('[UI] Requesting saved credentials from plugin...')
-        parent.postMessage({
-            pluginMessage: { type: 'load-credentials' }
-        }, '*')
+        postToPlugin({ type: 'load-credentials' })
     }, [])
 
     useEffect(() => {
-        window.onmessage = (event) => {
-            const msg = event.data.pluginMessage || {}
-            const { type, status, message, sceneNumber } = msg
+        window.onmessage = (event: MessageEvent<{ pluginMessage?: PluginToUIMessage }>) => {
+            const msg = event.data.pluginMessage
+            if (!msg || resolvePluginResponse(msg)) {
+                return
+            }
 
-            switch (type) {
+            switch (msg.type) {
             case 'credentials-loaded':
                 console.log('[UI] Credentials loaded from plugin storage')
                 setProjectId(msg.projectId)
@@ -101,40 +257,29 @@ function App() {
                 break
 
             case 'realtime-status':
-                setRealtimeStatus(status)
+                setRealtimeStatus(msg.status)
                 break
 
-            case 'sync-complete':
-                setIsLoading(false)
-                addNotification(message || `✓ Synced ${msg.sceneCount} scenes, ${msg.characterCount} characters`, 'success')
-
-                // Save figmaNodeIds back to database
-                if (msg.updatedScenes && Array.isArray(msg.updatedScenes)) {
-                    saveFigmaNodeIds(msg.updatedScenes).catch(error => {
-                        console.error('[UI] Error saving figmaNodeIds:', error)
-                    })
-                }
-                break
-
-            case 'sync-error':
-                setIsLoading(false)
-                addNotification(message, 'error')
+            case 'protocol-error':
+                console.error('[UI] Plugin rejected message:', msg.receivedType, msg.error)
+                addNotification(`Plugin error: ${msg.error.message}`, 'error')
                 break
 
-            case 'scene-inserted':
-                addNotification(`Scene ${sceneNumber} inserted`, 'info')
-                break
-
-            case 'scene-updated':
-                addNotification(`Scene ${sceneNumber} updated`, 'info')
+            case 'scene-edited':
+                handleSceneEdit(msg)
                 break
 
-            case 'scene-deleted':
-                addNotification('Scene deleted', 'info')
+            case 'scenes-reordered':
+                // A drag that left every number as it was has nothing to save
+                if (msg.scenes.length > 0) {
+                    handleCanvasReorder(msg)
+                }
                 break
 
-            case 'realtime-error':
-                addNotification(`Realtime error: ${message}`, 'error')
+            case 'connectors-synced':
+                saveFigmaBindings(msg.storyboardId, msg.scenes).catch(error => {
+                    console.error('[UI] Error saving connector ids:', error)
+                })
                 break
 
             case 'selection-changed':
@@ -143,28 +288,12 @@ function App() {
                     count: msg.count || 0,
                     hasImage: msg.hasImage || false,
                     imageUrl: msg.imageUrl,
-                    sceneId: msg.sceneId
+                    sceneId: msg.sceneId,
+                    characterId: msg.characterId,
+                    variantMediaId: msg.variantMediaId
                 })
                 break
 
-            case 'context-extracted':
-                console.log('[UI] Context extracted:', msg)
-                if (msg.context) {
-                    // Format context as XML-like structure for safety
-                    const contextStr = `<figma-context>
-  <selection-count>${msg.context.selectionCount || 0}</selection-count>
-  ${msg.context.metadata ? `<metadata>${JSON.stringify(msg.context.metadata).slice(0, 500)}</metadata>` : ''}
-  ${msg.context.textContent ? `<text-content>${msg.context.textContent.slice(0, 300)}</text-content>` : ''}
-  ${msg.context.pageContext ? `<page-info>${JSON.stringify(msg.context.pageContext).slice(0, 200)}</page-info>` : ''}
-</figma-context>`
-                    setFigmaContext(contextStr)
-                    addNotification('Context extracted from Figma', 'success')
-                } else {
-                    setFigmaContext('')
-                    addNotification('No context available', 'info')
-                }
-                setIsExtractingContext(false)
-                break
             }
         }
     }, [])
@@ -176,6 +305,73 @@ function App() {
         }
     }, [projectId, publicAnonKey])
 
+    // Show the layout saved for the selected storyboard
+    useEffect(() => {
+        const storyboard = storyboards.find(item => item.id === selectedStoryboardId)
+        setLayoutStrategy(storyboard?.metadata?.layout?.strategy || 'strip')
+        setStoryboardStyle(storyboard?.metadata?.style || DEFAULT_STYLE)
+    }, [selectedStoryboardId, storyboards])
+
+    // Job changes of the batch move its progress on
+    useEffect(() => {
+        if (!imageBatch || (imageBatch.progress && isBatchFinished(imageBatch.progress))) {
+            return
+        }
+        if (generationJobs.some(job => job.batch_id === imageBatch.batchId)) {
+            loadBatchProgress(imageBatch.batchId)
+        }
+    }, [generationJobs])
+
+    // History belongs to the selected scene
+    useEffect(() => {
+        setMediaHistory(null)
+        setMediaHistoryExpanded(false)
+        setCompareMediaId(null)
+    }, [selectionContext.sceneId])
+
+    // A presentation belongs to the storyboard it started on
+    useEffect(() => {
+        setPresentation(null)
+        setIsAutoAdvancing(false)
+    }, [selectedStoryboardId])
+
+    // Zoom the canvas to the presented scene
+    useEffect(() => {
+        if (!presentation) {
+            return
+        }
+
+        requestPlugin({ type: 'present-scene', sceneId: presentation.sceneId }, ['scene-presented'])
+            .then(result => {
+                if (!result.found) {
+                    addNotification('Scene is not on the canvas, sync the storyboard first', 'info')
+                }
+            })
+            .catch(error => {
+                console.error('[UI] Present scene error:', error)
+            })
+    }, [presentation?.sceneId])
+
+    // Auto-advance after the scene's duration; stops at a branch (the presenter picks) or at the end
+    useEffect(() => {
+        if (!presentation || !isAutoAdvancing) {
+            return
+        }
+
+        const duration = previousScenesRef.current.get(presentation.sceneId)?.duration
+        const timer = setTimeout(() => {
+            const scenes = previousScenesRef.current
+            const scene = scenes.get(presentation.sceneId)
+            const next = scene ? getNextScenes(scene, Array.from(scenes.values()), presentationOrder) : []
+            if (next.length === 1) {
+                handleNextScene(next[0].id)
+            } else {
+                setIsAutoAdvancing(false)
+            }
+        }, parseDurationSeconds(duration) * 1000)
+        return () => clearTimeout(timer)
+    }, [presentation, isAutoAdvancing, presentationOrder])
+
     // Expand settings by default if credentials are not saved
     useEffect(() => {
         if (!credentialsSaved && !projectId && !publicAnonKey) {
@@ -294,6 +490,24 @@ function App() {
                 console.log('[UI] Video queue count:', videoCount)
             }
 
+            // Fetch dead-letter counts (queues exist once the DLQ migration is applied)
+            let dlqCount = 0
+            for (const dlqName of [DLQ_NAMES.image, DLQ_NAMES.video]) {
+                const dlqResponse = await fetch(`https://${projectId}.supabase.co/rest/v1/rpc/pgmq_count`, {
+                    method: 'POST',
+                    headers: {
+                        'apikey': publicAnonKey,
+                        'Authorization': `Bearer ${publicAnonKey}`,
+                        'Content-Type': 'application/json'
+                    },
+                    body: JSON.stringify({ queue_name: dlqName })
+                })
+                if (dlqResponse.ok) {
+                    dlqCount += (await dlqResponse.json()) || 0
+                }
+            }
+            setDeadLetterCount(dlqCount)
+
         } catch (error: unknown) {
             console.error('[UI] Error loading queue counts:', error)
         } finally {
@@ -371,6 +585,13 @@ function App() {
             const characters: Character[] = charactersData.map((row: { value: Character }) => row.value)
             console.log('[UI] Parsed characters:', characters)
 
+            // Changes from the newest fetched row on are caught up by the realtime client after a
+            // reconnect (server time, so the plugin's clock doesn't matter)
+            const fetchedAt = [...storyboardData, ...scenesData, ...charactersData]
+                .map((row: KvRecord) => row.updated_at)
+                .filter((updatedAt): updatedAt is string => !!updatedAt)
+                .sort((a, b) => Date.parse(b) - Date.parse(a))[0]
+
             // Build initial scene map
             const initialScenes = new Map<string, Scene>()
             for (const scene of scenes) {
@@ -379,20 +600,34 @@ function App() {
             setPreviousScenes(initialScenes)
 
             // Send data to plugin
-            parent.postMessage({
-                pluginMessage: {
-                    type: 'sync-storyboard',
-                    projectId,
-                    publicAnonKey,
-                    storyboardId: selectedStoryboardId,
-                    storyboard,
-                    scenes,
-                    characters
-                }
-            }, '*')
+            const syncResult = requestPlugin({
+                type: 'sync-storyboard',
+                projectId,
+                publicAnonKey,
+                storyboardId: selectedStoryboardId,
+                storyboard,
+                scenes,
+                characters
+            }, ['sync-complete', 'sync-error'], SYNC_TIMEOUT_MS)
 
             // Connect WebSocket for realtime updates
-            connectWebSocket(projectId, publicAnonKey, selectedStoryboardId)
+            connectRealtime(projectId, publicAnonKey, selectedStoryboardId, fetchedAt)
+
+            const result = await syncResult
+            setIsLoading(false)
+
+            if (result.type === 'sync-error') {
+                addNotification(result.message, 'error')
+                return
+            }
+
+            addNotification(`✓ Synced ${result.sceneCount} scenes, ${result.characterCount} characters`, 'success')
+            setCharacterOverlay(result.characterOverlay)
+
+            // Save figmaNodeIds and connector ids back to database
+            saveFigmaBindings(selectedStoryboardId, result.updatedScenes).catch(error => {
+                console.error('[UI] Error saving figma node ids:', error)
+            })
 
         } catch (error: unknown) {
             setIsLoading(false)
@@ -402,22 +637,23 @@ function App() {
         }
     }
 
-    async function saveFigmaNodeIds(updatedScenes: Array<{sceneId: string; figmaNodeId: string | undefined}>) {
-        if (!projectId || !publicAnonKey || !selectedStoryboardId) {
-            console.log('[UI] Cannot save figmaNodeIds - missing credentials')
+    async function saveFigmaBindings(storyboardId: string, bindings: FigmaNodeBinding[]) {
+        const { projectId, publicAnonKey } = credentialsRef.current
+        if (!projectId || !publicAnonKey || !storyboardId) {
+            console.log('[UI] Cannot save figma node ids - missing credentials')
             return
         }
 
-        console.log('[UI] Saving figmaNodeIds to database:', updatedScenes.length)
+        console.log('[UI] Saving figma node ids to database:', bindings.length)
 
-        for (const {sceneId, figmaNodeId} of updatedScenes) {
-            if (!figmaNodeId) {
+        for (const { sceneId, figmaNodeId, figmaConnectorIds } of bindings) {
+            if (!figmaNodeId && !figmaConnectorIds) {
                 continue
             }
 
             try {
                 // Fetch current scene data
-                const sceneKey = `scene:${selectedStoryboardId}:${sceneId}`
+                const sceneKey = `scene:${storyboardId}:${sceneId}`
                 const fetchUrl = `https://${projectId}.supabase.co/rest/v1/kv_store_7ee7668a?key=eq.${sceneKey}&select=*`
 
                 const fetchResponse = await fetch(fetchUrl, {
@@ -441,12 +677,17 @@ function App() {
 
                 const currentScene = data[0].value as Scene
 
-                // Update scene with figmaNodeId
-                const updatedScene = {
+                // Update scene with the node ids that changed
+                const updatedScene: Scene = {
                     ...currentScene,
-                    figmaNodeId,
                     updatedAt: new Date().toISOString()
                 }
+                if (figmaNodeId) {
+                    updatedScene.figmaNodeId = figmaNodeId
+                }
+                if (figmaConnectorIds) {
+                    updatedScene.figmaConnectorIds = figmaConnectorIds
+                }
 
                 // Save back to database
                 const updateUrl = `https://${projectId}.supabase.co/rest/v1/kv_store_7ee7668a?key=eq.${sceneKey}`
@@ -465,220 +706,536 @@ function App() {
                 })
 
                 if (updateResponse.ok) {
-                    console.log('[UI] ✓ Saved figmaNodeId for scene:', sceneId, figmaNodeId)
+                    console.log('[UI] ✓ Saved figma node ids for scene:', sceneId, figmaNodeId, figmaConnectorIds)
                 } else {
                     console.error('[UI] Failed to update scene:', sceneId, updateResponse.status)
                 }
 
             } catch (error) {
-                console.error('[UI] Error saving figmaNodeId for scene:', sceneId, error)
+                console.error('[UI] Error saving figma node ids for scene:', sceneId, error)
             }
         }
 
-        console.log('[UI] Finished saving figmaNodeIds')
+        console.log('[UI] Finished saving figma node ids')
     }
 
-    function connectWebSocket(projectId: string, publicAnonKey: string, _storyboardId: string) {
-        const wsUrl = `wss://${projectId}.supabase.co/realtime/v1/websocket?apikey=${publicAnonKey}&vsn=1.0.0`
-
-        console.log('[UI] Connecting to WebSocket:', wsUrl)
-        setRealtimeStatus('connecting')
-
-        const websocket = new WebSocket(wsUrl)
-        let messageRef = 0
-        let heartbeatInterval: ReturnType<typeof setInterval> | null = null
-
-        websocket.onopen = () => {
-            console.log('[UI] WebSocket connected, readyState:', websocket.readyState)
-            setRealtimeStatus('connected')
-
-            // Start heartbeat (every 30 seconds)
-            heartbeatInterval = setInterval(() => {
-                if (websocket.readyState === WebSocket.OPEN) {
-                    messageRef++
-                    const heartbeat = {
-                        event: 'heartbeat',
-                        topic: 'phoenix',
-                        payload: {},
-                        ref: messageRef.toString()
-                    }
-                    console.log('[UI] Sending heartbeat:', heartbeat)
-                    websocket.send(JSON.stringify(heartbeat))
-                } else {
-                    console.log('[UI] Heartbeat skipped, readyState:', websocket.readyState)
-                }
-            }, 30000)
-
-            // Join channel to listen for scene changes
-            // Note: Realtime doesn't support 'like' operator, so we subscribe to all table changes
-            // and filter on client side in handlePostgresChange()
-            messageRef++
-            const channelTopic = `realtime:public:kv_store_7ee7668a`
-            const joinMessage = {
-                event: 'phx_join',
-                topic: channelTopic,
-                payload: {
-                    config: {
-                        postgres_changes: [
-                            {
-                                event: '*',
-                                schema: 'public',
-                                table: 'kv_store_7ee7668a'
-                                // No filter - Realtime only supports: eq, neq, lt, lte, gt, gte, in
-                                // We'll filter by key pattern in handlePostgresChange()
-                            }
-                        ]
-                    }
-                },
-                ref: messageRef.toString()
+    // Only the edited fields are merged into the stored scene; if that fails the sticky is put back
+    async function handleSceneEdit(edit: SceneEdit) {
+        try {
+            const { projectId, publicAnonKey } = credentialsRef.current
+            if (!projectId || !publicAnonKey) {
+                throw new Error('Missing credentials')
             }
-            console.log('[UI] Sending join message for scenes:', joinMessage)
-            websocket.send(JSON.stringify(joinMessage))
-            console.log('[UI] Join message sent, waiting for response...')
-        }
 
-        websocket.onmessage = (event) => {
-            try {
-                const message = JSON.parse(event.data)
-                console.log('[UI] WebSocket message received:', message)
-
-                const { event: eventType, topic, payload, ref } = message
-                console.log('[UI] Message details:', { eventType, topic, payload, ref })
-
-                if (eventType === 'phx_reply') {
-                    console.log('[UI] Join reply:', payload)
-                    if (payload.status === 'ok') {
-                        console.log('[UI] ✅ Successfully joined channel!')
-                        console.log('[UI] Response details:', payload.response)
-                    } else {
-                        console.error('[UI] ❌ Failed to join channel:', payload)
-                    }
-                } else if (eventType === 'postgres_changes') {
-                    console.log('[UI] 🔄 Postgres change detected!')
-                    console.log('[UI] Full postgres_changes payload:', payload)
-                    handlePostgresChange(payload)
-                } else if (eventType === 'system') {
-                    console.log('[UI] 📡 System message:', payload)
-                } else {
-                    console.log('[UI] ⚠️ Unhandled event type:', eventType, 'payload:', payload)
-                }
-            } catch (error) {
-                console.error('[UI] Error parsing WebSocket message:', error, event.data)
+            console.log('[UI] Saving canvas edit:', edit)
+            const savedScene = await saveSceneEdit(projectId, publicAnonKey, edit)
+
+            console.log('[UI] ✓ Saved canvas edit for scene:', edit.sceneId)
+            addNotification(`Scene ${savedScene.sceneNumber} saved from canvas`, 'success')
+        } catch (error) {
+            console.error('[UI] Error saving scene edit:', error)
+
+            const lastKnownScene = previousScenesRef.current.get(edit.sceneId)
+            if (lastKnownScene) {
+                addNotification('Failed to save canvas edit, scene restored', 'error')
+                postToPlugin({ type: 'restore-scene', scene: lastKnownScene })
+            } else {
+                addNotification('Failed to save canvas edit: sync the storyboard', 'error')
             }
         }
+    }
 
-        websocket.onerror = (error) => {
-            console.error('[UI] WebSocket error:', error)
-            setRealtimeStatus('error')
+    async function saveReorder(reorder: SceneReorder) {
+        const { projectId, publicAnonKey } = credentialsRef.current
+        if (!projectId || !publicAnonKey) {
+            throw new Error('Missing credentials')
         }
 
-        websocket.onclose = (event) => {
-            console.log('[UI] WebSocket closed:', {
-                code: event.code,
-                reason: event.reason,
-                wasClean: event.wasClean
+        console.log('[UI] Saving scene order:', reorder)
+        await saveSceneReorder(projectId, publicAnonKey, reorder)
+    }
+
+    // Stickies dragged into a new order: the numbers are saved first and only then applied on
+    // the canvas; if the save fails the stickies go back to their saved places
+    async function handleCanvasReorder(reorder: SceneReorder) {
+        try {
+            await saveReorder(reorder)
+        } catch (error) {
+            console.error('[UI] Error saving scene order:', error)
+            addNotification('Failed to save the new scene order, scenes moved back', 'error')
+            requestPlugin({
+                type: 'reorder-scenes',
+                storyboardId: reorder.storyboardId,
+                scenes: [],
+                updatedAt: reorder.updatedAt
+            }, ['scene-order-applied']).catch(revertError => {
+                console.error('[UI] Error moving scenes back:', revertError)
             })
-            setRealtimeStatus('disconnected')
-            if (heartbeatInterval) {
-                clearInterval(heartbeatInterval)
+            return
+        }
+
+        try {
+            await requestPlugin({
+                type: 'reorder-scenes',
+                storyboardId: reorder.storyboardId,
+                scenes: reorder.scenes,
+                updatedAt: reorder.updatedAt
+            }, ['scene-order-applied'])
+            setLastReorder(reorder)
+            addNotification(`${reorder.scenes.length} scenes renumbered from canvas`, 'success')
+        } catch (error) {
+            console.error('[UI] Error applying scene order:', error)
+            addNotification('Scene order saved, but the canvas could not be updated: sync the storyboard', 'error')
+        }
+    }
+
+    // The old numbers are saved, then the plugin renumbers and lays the scenes out again
+    async function handleUndoReorder() {
+        if (!lastReorder) {
+            return
+        }
+
+        setIsUndoingReorder(true)
+        try {
+            const undo: SceneReorder = {
+                storyboardId: lastReorder.storyboardId,
+                scenes: lastReorder.previous,
+                previous: lastReorder.scenes,
+                updatedAt: new Date().toISOString()
             }
+            await saveReorder(undo)
+            await requestPlugin({
+                type: 'reorder-scenes',
+                storyboardId: undo.storyboardId,
+                scenes: undo.scenes,
+                updatedAt: undo.updatedAt
+            }, ['scene-order-applied'])
+            setLastReorder(null)
+            addNotification('✓ Scene order restored', 'success')
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : 'Failed to undo reorder'
+            addNotification(message, 'error')
+            console.error('[UI] Undo reorder error:', error)
+        } finally {
+            setIsUndoingReorder(false)
         }
+    }
 
-        setWs(websocket)
+    function connectRealtime(projectId: string, publicAnonKey: string, storyboardId: string, since: string | undefined) {
+        // Replace the connection of a previous sync
+        realtimeClientRef.current?.disconnect()
+
+        const client = new RealtimeClient({
+            projectId,
+            apiKey: publicAnonKey,
+            storyboardId,
+            since,
+            onChange: (payload) => handlePostgresChange(payload, storyboardId),
+            onStatusChange: setRealtimeStatus,
+            onJobChange: (payload) => setGenerationJobs(prev => applyJobChange(prev, payload)),
+            onJobsSubscribed: () => loadGenerationJobs(projectId, publicAnonKey, storyboardId)
+        })
+
+        realtimeClientRef.current = client
+        client.connect()
+    }
+
+    async function loadGenerationJobs(projectId: string, publicAnonKey: string, storyboardId: string) {
+        try {
+            setGenerationJobs(await fetchGenerationJobs(projectId, publicAnonKey, storyboardId))
+        } catch (error: unknown) {
+            // generation_jobs migration not applied yet: the panel stays empty
+            console.warn('[UI] Could not load generation jobs:', error)
+        }
     }
 
-    function handlePostgresChange(payload: PostgresChangePayload) {
+    function handlePostgresChange(payload: PostgresChangePayload, storyboardId: string) {
         try {
-            const change = payload.data
-            console.log('[UI] Postgres change:', change)
+            console.log('[UI] Postgres change:', payload.data)
 
-            if (!change || !change.type) {
-                console.log('[UI] ❌ Invalid change payload - missing type')
+            const routed = routePostgresChange(payload, storyboardId)
+            if (!routed) {
                 return
             }
 
-            const changeType = change.type // INSERT, UPDATE, DELETE
-            const record = change.record
+            // Keep local scene map in sync
+            if (routed.type === 'scene-deleted') {
+                setPreviousScenes(prev => {
+                    const updatedScenes = new Map(prev)
+                    updatedScenes.delete(routed.sceneId)
+                    return updatedScenes
+                })
+            } else if (routed.type === 'scene-inserted' || routed.type === 'scene-updated') {
+                setPreviousScenes(prev => new Map(prev).set(routed.scene.id, routed.scene))
+            } else if (routed.type === 'storyboard-updated') {
+                setStoryboards(prev => prev.map(storyboard =>
+                    storyboard.id === routed.storyboard.id ? routed.storyboard : storyboard
+                ))
+            }
 
-            // Handle DELETE separately (no record.value for deleted rows)
-            if (changeType === 'DELETE') {
-                console.log('[UI] DELETE event - full change object:', JSON.stringify(change, null, 2))
-                console.log('[UI] DELETE event - available keys:', Object.keys(change))
+            // Notify plugin
+            postToPlugin(routed)
 
-                const oldRecord = change.old_record
-                if (!oldRecord || !oldRecord.value) {
-                    console.log('[UI] ❌ No old_record found for DELETE')
-                    console.log('[UI] Checking alternative fields - old:', change.old)
-                    console.log('[UI] Checking alternative fields - columns:', change.columns)
-                    return
-                }
+            switch (routed.type) {
+            case 'scene-inserted':
+                addNotification(`Scene ${routed.scene.sceneNumber} added`, 'success')
+                break
+            case 'scene-updated':
+                addNotification(`Scene ${routed.scene.sceneNumber} updated`, 'info')
+                break
+            case 'scene-deleted':
+                addNotification('Scene deleted', 'info')
+                break
+            case 'character-inserted':
+                addNotification(`Character ${routed.character.name} added`, 'success')
+                break
+            case 'character-updated':
+                addNotification(`Character ${routed.character.name} updated`, 'info')
+                break
+            case 'character-deleted':
+                addNotification('Character deleted', 'info')
+                break
+            case 'storyboard-updated':
+                addNotification('Storyboard updated', 'info')
+                break
+            }
 
-                const deletedScene: Scene = oldRecord.value
-                console.log('[UI] Scene deleted:', deletedScene.id)
+        } catch (error) {
+            console.error('[UI] Error handling postgres change:', error)
+        }
+    }
 
-                // Remove from previous scenes map
-                const updatedScenes = new Map(previousScenes)
-                updatedScenes.delete(deletedScene.id)
-                setPreviousScenes(updatedScenes)
+    /**
+     * Read-modify-write of the selected storyboard's metadata
+     * @param update Returns the new metadata, or null when nothing changed
+     * @returns Whether anything was saved
+     */
+    async function saveStoryboardMetadata(
+        update: (metadata: StoryboardMetadata) => StoryboardMetadata | null,
+        label: string
+    ): Promise<boolean> {
+        const storyboardKey = `storyboard_v2:${selectedStoryboardId}`
+        const fetchUrl = `https://${projectId}.supabase.co/rest/v1/kv_store_7ee7668a?key=eq.${storyboardKey}&select=*`
+
+        const fetchResponse = await fetch(fetchUrl, {
+            method: 'GET',
+            headers: {
+                'apikey': publicAnonKey,
+                'Authorization': `Bearer ${publicAnonKey}`
+            }
+        })
 
-                // Notify plugin
-                parent.postMessage({
-                    pluginMessage: {
-                        type: 'scene-deleted',
-                        sceneId: deletedScene.id
-                    }
-                }, '*')
-                addNotification('Scene deleted', 'info')
-                return
+        if (!fetchResponse.ok) {
+            throw new Error(`Failed to fetch storyboard: ${fetchResponse.status}`)
+        }
+
+        const data = await fetchResponse.json()
+        if (data.length === 0) {
+            throw new Error(`Storyboard not found: ${selectedStoryboardId}`)
+        }
+
+        const storyboard = data[0].value as StoryboardV2
+        const metadata = update(storyboard.metadata || {})
+        if (!metadata) {
+            return false
+        }
+
+        const updatedStoryboard: StoryboardV2 = {
+            ...storyboard,
+            metadata,
+            updatedAt: new Date().toISOString()
+        }
+
+        const updateResponse = await fetch(`https://${projectId}.supabase.co/rest/v1/kv_store_7ee7668a?key=eq.${storyboardKey}`, {
+            method: 'PATCH',
+            headers: {
+                'apikey': publicAnonKey,
+                'Authorization': `Bearer ${publicAnonKey}`,
+                'Content-Type': 'application/json',
+                'Prefer': 'return=minimal'
+            },
+            body: JSON.stringify({ value: updatedStoryboard })
+        })
+
+        if (!updateResponse.ok) {
+            throw new Error(`Failed to save ${label}: ${updateResponse.status}`)
+        }
+
+        setStoryboards(prev => prev.map(item => item.id === storyboard.id ? updatedStoryboard : item))
+        return true
+    }
+
+    // Persist the layout in StoryboardMetadata so every client uses the same one
+    async function saveStoryboardLayout(strategy: LayoutStrategy) {
+        await saveStoryboardMetadata(metadata => metadata.layout?.strategy === strategy
+            ? null
+            : { ...metadata, layout: { ...metadata.layout, strategy } }, 'layout')
+    }
+
+    // Style preset used by the image/video workers for every frame of the storyboard
+    async function handleSaveStyle(style: StoryboardStyle) {
+        setStoryboardStyle(style)
+        if (!selectedStoryboardId) {
+            return
+        }
+
+        try {
+            const saved = await saveStoryboardMetadata(metadata => JSON.stringify(metadata.style || DEFAULT_STYLE) === JSON.stringify(style)
+                ? null
+                : { ...metadata, style }, 'style')
+            if (saved) {
+                addNotification(`✓ Style: ${STYLE_PRESET_LABELS[style.preset]}`, 'success')
+            }
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : 'Failed to save style'
+            addNotification(message, 'error')
+            console.error('[UI] Save style error:', error)
+        }
+    }
+
+    // Reposition all synced scenes on the canvas with the chosen layout
+    async function handleRelayout() {
+        setIsRelayouting(true)
+
+        try {
+            const storyboard = storyboards.find(item => item.id === selectedStoryboardId)
+            const layout = { ...storyboard?.metadata?.layout, strategy: layoutStrategy }
+
+            if (selectedStoryboardId) {
+                await saveStoryboardLayout(layoutStrategy)
+            }
+
+            const result = await requestPlugin({ type: 'relayout-scenes', layout }, ['relayout-complete'])
+            addNotification(`✓ Re-laid out ${result.sceneCount} scenes (${result.strategy})`, 'success')
+
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : 'Failed to re-layout'
+            addNotification(message, 'error')
+            console.error('[UI] Re-layout error:', error)
+        } finally {
+            setIsRelayouting(false)
+        }
+    }
+
+    async function handleToggleCharacterOverlay(enabled: boolean) {
+        setCharacterOverlay(enabled)
+
+        try {
+            const result = await requestPlugin({ type: 'set-character-overlay', enabled }, ['character-overlay-updated'])
+            if (result.enabled) {
+                addNotification(`✓ Showing ${result.linkCount} character links`, 'info')
             }
+        } catch (error: unknown) {
+            setCharacterOverlay(!enabled)
+            const message = error instanceof Error ? error.message : 'Failed to update character links'
+            addNotification(message, 'error')
+        }
+    }
+
+    async function loadDeadLetters() {
+        try {
+            const [images, videos] = await Promise.all([
+                fetchDeadLetters(projectId, publicAnonKey, 'image'),
+                fetchDeadLetters(projectId, publicAnonKey, 'video')
+            ])
+            setDeadLetters(images.concat(videos).sort((a, b) => (a.failedAt < b.failedAt ? 1 : -1)))
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : 'Failed to load dead letters'
+            addNotification(message, 'error')
+        }
+    }
+
+    async function handleToggleDeadLetters() {
+        const expanded = !deadLettersExpanded
+        setDeadLettersExpanded(expanded)
+        if (expanded) {
+            await loadDeadLetters()
+        }
+    }
+
+    async function handleRequeueDeadLetter(deadLetter: DeadLetter) {
+        try {
+            const msgId = await requeueDeadLetter(projectId, publicAnonKey, deadLetter)
+            if (msgId === null) {
+                addNotification('Already requeued or removed', 'info')
+            } else {
+                setOwnJobKeys(prev => new Set(prev).add(jobKey(deadLetter.queueName, msgId)))
+                addNotification(`✓ ${deadLetter.kind === 'video' ? 'Video' : 'Image'} job requeued`, 'success')
+            }
+            await loadDeadLetters()
+            loadQueueCounts()
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : 'Failed to requeue'
+            addNotification(message, 'error')
+        }
+    }
+
+    async function loadBatchProgress(batchId: string) {
+        try {
+            const progress = await fetchBatchProgress(projectId, publicAnonKey, batchId)
+            setImageBatch(prev => (prev && prev.batchId === batchId ? { ...prev, progress } : prev))
+        } catch (error: unknown) {
+            console.warn('[UI] Could not load batch progress:', error)
+        }
+    }
+
+    // One image job per scene without an image, all in one batch
+    async function handleGenerateMissingImages() {
+        if (!selectedStoryboardId) {
+            addNotification('Please select a storyboard', 'error')
+            return
+        }
 
-            // Handle INSERT and UPDATE
-            if (!record || !record.value) {
-                console.log('[UI] ❌ No record or value found in change')
+        setIsEnqueuingBatch(true)
+        try {
+            const batch = await enqueueMissingSceneImages(projectId, publicAnonKey, selectedStoryboardId)
+            if (!batch.batchId || batch.enqueued === 0) {
+                addNotification('Every scene already has an image (or one on the way)', 'info')
                 return
             }
 
-            const scene: Scene = record.value
-            console.log('[UI] Scene data:', scene)
+            setOwnJobKeys(prev => {
+                const next = new Set(prev)
+                batch.jobs.forEach(job => next.add(jobKey('image_generation_queue', job.msgId)))
+                return next
+            })
+            setImageBatch({ storyboardId: selectedStoryboardId, batchId: batch.batchId, progress: null })
+            addNotification(`✓ ${batch.enqueued} scene image${batch.enqueued === 1 ? '' : 's'} enqueued`, 'success')
+            loadBatchProgress(batch.batchId)
+            loadQueueCounts()
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : 'Failed to enqueue scene images'
+            addNotification(message, 'error')
+            console.error('[UI] Batch enqueue error:', error)
+        } finally {
+            setIsEnqueuingBatch(false)
+        }
+    }
 
-            if (changeType === 'INSERT') {
-                console.log('[UI] Scene inserted:', scene.id)
+    // The worker reports progress in metadata.animatic (realtime storyboard updates)
+    async function handleAssembleAnimatic() {
+        if (!selectedStoryboardId) {
+            addNotification('Please select a storyboard', 'error')
+            return
+        }
 
-                // Add to previous scenes map
-                const updatedScenes = new Map(previousScenes)
-                updatedScenes.set(scene.id, scene)
-                setPreviousScenes(updatedScenes)
+        setIsEnqueuingAnimatic(true)
+        try {
+            await enqueueAnimatic(projectId, publicAnonKey, {
+                storyboardId: selectedStoryboardId,
+                order: animaticOrder,
+                captions: animaticCaptions
+            })
+            await saveStoryboardMetadata(metadata => ({
+                ...metadata,
+                animatic: {
+                    status: 'queued',
+                    order: animaticOrder,
+                    captions: animaticCaptions,
+                    updatedAt: new Date().toISOString()
+                }
+            }), 'animatic')
+            addNotification('✓ Animatic queued', 'success')
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : 'Failed to queue animatic'
+            addNotification(message, 'error')
+            console.error('[UI] Animatic error:', error)
+        } finally {
+            setIsEnqueuingAnimatic(false)
+        }
+    }
 
-                // Notify plugin
-                parent.postMessage({
-                    pluginMessage: {
-                        type: 'scene-inserted',
-                        scene
-                    }
-                }, '*')
-                addNotification(`Scene ${scene.sceneNumber} added`, 'success')
-
-            } else if (changeType === 'UPDATE') {
-                console.log('[UI] Scene updated:', scene.id)
-
-                // Update in previous scenes map
-                const updatedScenes = new Map(previousScenes)
-                updatedScenes.set(scene.id, scene)
-                setPreviousScenes(updatedScenes)
-
-                // Notify plugin
-                parent.postMessage({
-                    pluginMessage: {
-                        type: 'scene-updated',
-                        scene
-                    }
-                }, '*')
-                addNotification(`Scene ${scene.sceneNumber} updated`, 'info')
+    // The plugin exports one PDF per sheet; they are merged and uploaded here so the link can be shared
+    async function handleExportPrint() {
+        if (!selectedStoryboardId) {
+            addNotification('Please select a storyboard', 'error')
+            return
+        }
+        if (previousScenes.size === 0) {
+            addNotification('Sync the storyboard first', 'error')
+            return
+        }
+
+        const storyboard = storyboards.find(item => item.id === selectedStoryboardId)
+        const options: PrintSheetOptions = {
+            paper: printPaper,
+            orientation: printOrientation,
+            panelsPerPage: printPanelsPerPage
+        }
+
+        setIsExportingPrint(true)
+        try {
+            const result = await requestPlugin({
+                type: 'export-print-sheets',
+                title: storyboard?.name || 'Storyboard',
+                scenes: Array.from(previousScenes.values()),
+                acts: storyboard?.metadata?.acts,
+                options
+            }, ['print-sheets-exported'], 120000)
+
+            const url = await uploadPrintPdf(projectId, publicAnonKey, selectedStoryboardId, await mergePdfs(result.pages))
+            await saveStoryboardMetadata(metadata => ({
+                ...metadata,
+                print: {
+                    ...options,
+                    url,
+                    pageCount: result.pages.length,
+                    createdAt: new Date().toISOString()
+                }
+            }), 'print')
+            addNotification(`✓ PDF ready (${result.pages.length} pages)`, 'success')
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : 'Failed to export PDF'
+            addNotification(message, 'error')
+            console.error('[UI] Print export error:', error)
+        } finally {
+            setIsExportingPrint(false)
+        }
+    }
+
+    function handleStartPresentation() {
+        const first = getFirstScene(Array.from(previousScenes.values()))
+        if (!first) {
+            addNotification('Sync the storyboard first', 'error')
+            return
+        }
+        setPresentation({ sceneId: first.id, history: [] })
+        setIsAutoAdvancing(false)
+    }
+
+    function handleNextScene(sceneId: string) {
+        setPresentation(current => current && { sceneId, history: [...current.history, current.sceneId] })
+    }
+
+    function handlePreviousScene() {
+        setPresentation(current => current && current.history.length > 0
+            ? { sceneId: current.history[current.history.length - 1], history: current.history.slice(0, -1) }
+            : current)
+    }
+
+    function handleStopPresentation() {
+        setPresentation(null)
+        setIsAutoAdvancing(false)
+    }
+
+    async function handleShowJobScene(sceneId: string) {
+        try {
+            const result = await requestPlugin({ type: 'focus-scene', sceneId }, ['scene-focused'])
+            if (!result.found) {
+                addNotification('Scene is not on the canvas, sync the storyboard first', 'info')
             }
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : 'Failed to show scene'
+            addNotification(message, 'error')
+        }
+    }
 
-        } catch (error) {
-            console.error('[UI] Error handling postgres change:', error)
+    function describeJobTarget(job: GenerationJob): string {
+        if (job.scene_id) {
+            const scene = previousScenes.get(job.scene_id)
+            return scene ? `Scene ${scene.sceneNumber}` : 'Scene'
         }
+        return job.character_id ? 'Character' : 'Generic'
     }
 
     function handleSaveCredentials() {
@@ -687,26 +1244,103 @@ function App() {
             return
         }
 
-        parent.postMessage({
-            pluginMessage: {
-                type: 'save-credentials',
-                projectId,
-                anonKey: publicAnonKey,
-                storyboardId: selectedStoryboardId
-            }
-        }, '*')
+        postToPlugin({
+            type: 'save-credentials',
+            projectId,
+            anonKey: publicAnonKey,
+            storyboardId: selectedStoryboardId
+        })
     }
 
     function handleClearCredentials() {
-        parent.postMessage({
-            pluginMessage: { type: 'clear-credentials' }
-        }, '*')
+        postToPlugin({ type: 'clear-credentials' })
     }
 
     function handleClose() {
-        parent.postMessage({
-            pluginMessage: { type: 'cancel' }
-        }, '*')
+        postToPlugin({ type: 'cancel' })
+    }
+
+    // Selected variant of the contact strip becomes the scene image; the strip goes away
+    // when the scene update comes back through realtime
+    async function handlePickVariant() {
+        if (!selectionContext.variantMediaId) {
+            return
+        }
+
+        setIsPickingVariant(true)
+        try {
+            const scene = await pickMediaVariant(projectId, publicAnonKey, selectionContext.variantMediaId)
+            addNotification(`✓ Variant picked for scene ${scene.sceneNumber}`, 'success')
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : 'Failed to pick variant'
+            addNotification(message, 'error')
+            console.error('[UI] Pick variant error:', error)
+        } finally {
+            setIsPickingVariant(false)
+        }
+    }
+
+    async function loadMediaHistory(sceneId: string) {
+        try {
+            setMediaHistory(await fetchSceneMediaHistory(projectId, publicAnonKey, selectedStoryboardId, sceneId))
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : 'Failed to load media history'
+            addNotification(message, 'error')
+        }
+    }
+
+    async function handleToggleMediaHistory() {
+        const expanded = !mediaHistoryExpanded
+        setMediaHistoryExpanded(expanded)
+        setCompareMediaId(null)
+        if (expanded && selectionContext.sceneId) {
+            await loadMediaHistory(selectionContext.sceneId)
+        }
+    }
+
+    // The canvas follows through realtime once the scene row is updated
+    async function handleRevertMedia(item: MediaItem) {
+        setIsRevertingMedia(true)
+        try {
+            const scene = await revertSceneMedia(projectId, publicAnonKey, item.id)
+            addNotification(`✓ Scene ${scene.sceneNumber} reverted to the ${item.type} of ${new Date(item.created_at).toLocaleString()}`, 'success')
+            setCompareMediaId(null)
+            if (selectionContext.sceneId) {
+                await loadMediaHistory(selectionContext.sceneId)
+            }
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : 'Failed to revert'
+            addNotification(message, 'error')
+            console.error('[UI] Revert media error:', error)
+        } finally {
+            setIsRevertingMedia(false)
+        }
+    }
+
+    function isCurrentMedia(item: MediaItem): boolean {
+        return !!mediaHistory && (item.id === mediaHistory.currentImageId || item.id === mediaHistory.currentVideoId)
+    }
+
+    function renderMediaPreview(item: MediaItem, height: number) {
+        if (item.type === 'video') {
+            return (
+                <video
+                    src={item.url}
+                    poster={item.preview_url || undefined}
+                    controls
+                    muted
+                    style={{ width: '100%', height: `${height}px`, objectFit: 'cover', borderRadius: '4px', backgroundColor: '#000' }}
+                />
+            )
+        }
+
+        return (
+            <img
+                src={item.url}
+                alt={item.prompt || 'Generated image'}
+                style={{ width: '100%', height: `${height}px`, objectFit: 'cover', borderRadius: '4px', backgroundColor: '#eee' }}
+            />
+        )
     }
 
     async function handleGenerateImage() {
@@ -734,6 +1368,11 @@ function App() {
             // If scene is selected, add sceneId
             if (selectionContext.sceneId) {
                 message.sceneId = selectionContext.sceneId
+
+                // Several images to pick from (contact strip on the canvas)
+                if (imageVariantCount > 1) {
+                    message.variants = imageVariantCount
+                }
             }
 
             // If image is selected, use image-to-image mode
@@ -766,6 +1405,7 @@ function App() {
 
             const msgId = await response.json()
             console.log('[UI] Image generation enqueued, msg_id:', msgId)
+            setOwnJobKeys(prev => new Set(prev).add(jobKey('image_generation_queue', msgId)))
 
             addNotification(
                 selectionContext.hasImage
@@ -892,6 +1532,7 @@ function App() {
 
             const msgId = await response.json()
             console.log('[UI] Video generation enqueued, msg_id:', msgId)
+            setOwnJobKeys(prev => new Set(prev).add(jobKey('video_generation_queue', msgId)))
 
             addNotification(
                 selectionContext.hasImage
@@ -940,6 +1581,9 @@ function App() {
 
             if (result.processed > 0) {
                 addNotification(`✓ Processed ${result.processed} video${result.processed > 1 ? 's' : ''}`, 'success')
+            } else if (result.started > 0) {
+                // Videos finish in later runs (poll phase), progress shows in Generation Jobs
+                addNotification(`✓ Started ${result.started} video${result.started > 1 ? 's' : ''}`, 'success')
             } else {
                 addNotification('Video queue is empty', 'info')
             }
@@ -956,10 +1600,84 @@ function App() {
         }
     }
 
+    // Generate a new storyboard from a logline (AI) and select it for syncing
+    async function handleGenerateStoryboard() {
+        if (!projectId || !publicAnonKey) {
+            addNotification('Please configure credentials', 'error')
+            return
+        }
+
+        if (!loglineText.trim()) {
+            addNotification('Please enter a logline', 'error')
+            return
+        }
+
+        setIsGeneratingStoryboard(true)
+
+        try {
+            let context: string | undefined
+            if (useContextForStoryboard) {
+                const extracted = await requestPlugin({ type: 'extract-context' }, ['context-extracted'])
+                if (extracted.context) {
+                    context = formatFigmaContext(extracted.context)
+                }
+            }
+
+            const result = await generateStoryboard(projectId, publicAnonKey, {
+                logline: loglineText.trim(),
+                context,
+                sceneCount: storyboardSceneCount,
+                enqueueImages: enqueueStoryboardImages
+            })
+            console.log('[UI] Storyboard generated:', result)
+
+            addNotification(
+                `✓ "${result.name}": ${result.sceneCount} scenes, ${result.characterCount} characters` +
+                (result.imageJobs > 0 ? `, ${result.imageJobs} images enqueued` : ''),
+                'success'
+            )
+
+            setLoglineText('')
+            await loadStoryboards()
+            setSelectedStoryboardId(result.storyboardId)
+            addNotification('Press Sync Storyboard to place it on the canvas', 'info')
+
+            if (result.imageJobs > 0) {
+                loadQueueCounts()
+            }
+            if (result.imageBatchId) {
+                setImageBatch({ storyboardId: result.storyboardId, batchId: result.imageBatchId, progress: null })
+                loadBatchProgress(result.imageBatchId)
+            }
+
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : 'Failed to generate storyboard'
+            addNotification(message, 'error')
+            console.error('[UI] Error generating storyboard:', error)
+        } finally {
+            setIsGeneratingStoryboard(false)
+        }
+    }
+
     // Extract context from Figma selection
-    const handleExtractContext = () => {
+    const handleExtractContext = async () => {
         setIsExtractingContext(true)
-        parent.postMessage({ pluginMessage: { type: 'extract-context' } }, '*')
+        try {
+            const result = await requestPlugin({ type: 'extract-context' }, ['context-extracted'])
+            console.log('[UI] Context extracted:', result)
+            if (result.context) {
+                setFigmaContext(formatFigmaContext(result.context))
+                addNotification('Context extracted from Figma', 'success')
+            } else {
+                setFigmaContext('')
+                addNotification(result.error || 'No context available', 'info')
+            }
+        } catch (error: unknown) {
+            const message = error instanceof PluginRequestError ? error.message : 'Failed to extract context'
+            addNotification(message, 'error')
+        } finally {
+            setIsExtractingContext(false)
+        }
     }
 
     const statusConfig = {
@@ -1115,8 +1833,488 @@ function App() {
             Close
                     </button>
                 </div>
+
+                <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                    <select
+                        id="layoutStrategy"
+                        value={layoutStrategy}
+                        onChange={(e) => setLayoutStrategy(e.target.value as LayoutStrategy)}
+                        style={{ flex: 1, fontSize: '12px' }}
+                    >
+                        <option value="strip">Strip per act</option>
+                        <option value="grid">Grid</option>
+                        <option value="flow">Flow (follow connections)</option>
+                    </select>
+                    <button
+                        onClick={handleRelayout}
+                        disabled={isRelayouting}
+                        style={{
+                            flex: 1,
+                            padding: '8px 16px',
+                            fontSize: '12px',
+                            fontWeight: 500,
+                            borderRadius: '4px',
+                            border: 'none',
+                            cursor: isRelayouting ? 'not-allowed' : 'pointer',
+                            backgroundColor: isRelayouting ? '#cccccc' : '#6B7280',
+                            color: 'white'
+                        }}
+                    >
+                        {isRelayouting ? 'Arranging...' : '📐 Re-layout'}
+                    </button>
+                </div>
+
+                {lastReorder && lastReorder.storyboardId === selectedStoryboardId && (
+                    <div style={{ display: 'flex', gap: '8px', alignItems: 'center', fontSize: '12px', color: '#666' }}>
+                        <span style={{ flex: 1 }}>
+                            ↔️ {lastReorder.scenes.length} scenes renumbered on canvas
+                        </span>
+                        <button
+                            onClick={handleUndoReorder}
+                            disabled={isUndoingReorder}
+                            style={{
+                                padding: '6px 12px',
+                                fontSize: '12px',
+                                borderRadius: '4px',
+                                border: '1px solid #e0e0e0',
+                                backgroundColor: 'white',
+                                color: '#333',
+                                cursor: isUndoingReorder ? 'not-allowed' : 'pointer'
+                            }}
+                        >
+                            {isUndoingReorder ? 'Undoing...' : '↩ Undo'}
+                        </button>
+                        <button
+                            onClick={() => setLastReorder(null)}
+                            title="Dismiss"
+                            style={{ padding: '6px 8px', fontSize: '12px', border: 'none', backgroundColor: 'transparent', color: '#999', cursor: 'pointer' }}
+                        >
+                            ✕
+                        </button>
+                    </div>
+                )}
+
+                <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px', color: '#666' }}>
+                    <input
+                        type="checkbox"
+                        checked={characterOverlay}
+                        onChange={(e) => handleToggleCharacterOverlay(e.target.checked)}
+                    />
+                    Link scenes to their characters
+                </label>
+
+                {selectedStoryboardId && (
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                        <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                            <label htmlFor="stylePreset" style={{ fontSize: '12px', color: '#666' }}>
+                                🎨 Style
+                            </label>
+                            <select
+                                id="stylePreset"
+                                value={storyboardStyle.preset}
+                                onChange={(e) => handleSaveStyle({ ...storyboardStyle, preset: e.target.value as StylePresetId })}
+                                style={{ flex: 1, fontSize: '12px' }}
+                            >
+                                {(Object.keys(STYLE_PRESET_LABELS) as StylePresetId[]).map(preset => (
+                                    <option key={preset} value={preset}>{STYLE_PRESET_LABELS[preset]}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <input
+                            type="text"
+                            value={storyboardStyle.prompt || ''}
+                            onChange={(e) => setStoryboardStyle({ ...storyboardStyle, prompt: e.target.value })}
+                            onBlur={() => handleSaveStyle(storyboardStyle)}
+                            placeholder={storyboardStyle.preset === 'custom'
+                                ? 'Describe the style (e.g. watercolor, muted palette)'
+                                : 'Extra style keywords (optional)'}
+                            style={{ fontSize: '12px' }}
+                        />
+                        <input
+                            type="text"
+                            value={storyboardStyle.negativePrompt || ''}
+                            onChange={(e) => setStoryboardStyle({ ...storyboardStyle, negativePrompt: e.target.value })}
+                            onBlur={() => handleSaveStyle(storyboardStyle)}
+                            placeholder="Avoid (optional, e.g. text, blur)"
+                            style={{ fontSize: '12px' }}
+                        />
+                        <input
+                            type="text"
+                            value={storyboardStyle.referenceImageUrl || ''}
+                            onChange={(e) => setStoryboardStyle({ ...storyboardStyle, referenceImageUrl: e.target.value })}
+                            onBlur={() => handleSaveStyle(storyboardStyle)}
+                            placeholder="Style reference image URL (optional)"
+                            style={{ fontSize: '12px' }}
+                        />
+                    </div>
+                )}
+
+                {selectedStoryboardId && (
+                    <button
+                        onClick={handleGenerateMissingImages}
+                        disabled={isEnqueuingBatch}
+                        style={{
+                            padding: '8px 16px',
+                            fontSize: '12px',
+                            fontWeight: 500,
+                            borderRadius: '4px',
+                            border: 'none',
+                            cursor: isEnqueuingBatch ? 'not-allowed' : 'pointer',
+                            backgroundColor: isEnqueuingBatch ? '#cccccc' : '#8B5CF6',
+                            color: 'white'
+                        }}
+                    >
+                        {isEnqueuingBatch ? 'Enqueuing...' : '🖼️ Generate missing scene images'}
+                    </button>
+                )}
+
+                {selectedStoryboardId && (() => {
+                    const animatic = storyboards.find(item => item.id === selectedStoryboardId)?.metadata?.animatic
+                    return (
+                        <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                            <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                                <label htmlFor="animaticOrder" style={{ fontSize: '12px', color: '#666' }}>
+                                    🎞️ Animatic
+                                </label>
+                                <select
+                                    id="animaticOrder"
+                                    value={animaticOrder}
+                                    onChange={(e) => setAnimaticOrder(e.target.value as AnimaticOrder)}
+                                    style={{ flex: 1, fontSize: '12px' }}
+                                >
+                                    {(Object.keys(ANIMATIC_ORDER_LABELS) as AnimaticOrder[]).map(order => (
+                                        <option key={order} value={order}>{ANIMATIC_ORDER_LABELS[order]}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px', color: '#666' }}>
+                                <input
+                                    type="checkbox"
+                                    checked={animaticCaptions}
+                                    onChange={(e) => setAnimaticCaptions(e.target.checked)}
+                                />
+                                Dialogue captions
+                            </label>
+                            <button
+                                onClick={handleAssembleAnimatic}
+                                disabled={isEnqueuingAnimatic || animatic?.status === 'queued' || animatic?.status === 'rendering'}
+                                style={{
+                                    padding: '8px 16px',
+                                    fontSize: '12px',
+                                    fontWeight: 500,
+                                    borderRadius: '4px',
+                                    border: 'none',
+                                    cursor: isEnqueuingAnimatic ? 'not-allowed' : 'pointer',
+                                    backgroundColor: isEnqueuingAnimatic ? '#cccccc' : '#0EA5E9',
+                                    color: 'white'
+                                }}
+                            >
+                                {isEnqueuingAnimatic ? 'Queueing...' : '🎞️ Assemble animatic'}
+                            </button>
+                            {animatic && (
+                                <div style={{ display: 'flex', gap: '8px', alignItems: 'center', fontSize: '11px', color: '#666' }}>
+                                    <span style={{ color: animatic.status === 'failed' ? '#D32F2F' : '#666' }}>
+                                        {ANIMATIC_STATUS_LABELS[animatic.status]}
+                                    </span>
+                                    {animatic.status === 'done' && animatic.url && (
+                                        <a href={animatic.url} target="_blank" rel="noreferrer" style={{ color: '#18A0FB' }}>
+                                            ▶ Open ({animatic.durationSeconds}s, {animatic.sceneCount} scenes)
+                                        </a>
+                                    )}
+                                    {animatic.error && (
+                                        <span style={{ flex: 1, color: '#D32F2F', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                                            {animatic.error}
+                                        </span>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    )
+                })()}
+
+                {selectedStoryboardId && (() => {
+                    const print = storyboards.find(item => item.id === selectedStoryboardId)?.metadata?.print
+                    return (
+                        <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                            <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                                <label htmlFor="printPaper" style={{ fontSize: '12px', color: '#666' }}>
+                                    🖨️ Print
+                                </label>
+                                <select
+                                    id="printPaper"
+                                    value={printPaper}
+                                    onChange={(e) => setPrintPaper(e.target.value as PrintPaper)}
+                                    style={{ flex: 1, fontSize: '12px' }}
+                                >
+                                    {(Object.keys(PRINT_PAPER_LABELS) as PrintPaper[]).map(paper => (
+                                        <option key={paper} value={paper}>{PRINT_PAPER_LABELS[paper]}</option>
+                                    ))}
+                                </select>
+                                <select
+                                    value={printOrientation}
+                                    onChange={(e) => setPrintOrientation(e.target.value as PrintOrientation)}
+                                    style={{ flex: 1, fontSize: '12px' }}
+                                >
+                                    {(Object.keys(PRINT_ORIENTATION_LABELS) as PrintOrientation[]).map(orientation => (
+                                        <option key={orientation} value={orientation}>{PRINT_ORIENTATION_LABELS[orientation]}</option>
+                                    ))}
+                                </select>
+                                <select
+                                    value={printPanelsPerPage}
+                                    onChange={(e) => setPrintPanelsPerPage(Number(e.target.value) as PrintSheetOptions['panelsPerPage'])}
+                                    style={{ fontSize: '12px' }}
+                                >
+                                    {PRINT_PANELS_PER_PAGE.map(count => (
+                                        <option key={count} value={count}>{count} per page</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <button
+                                onClick={handleExportPrint}
+                                disabled={isExportingPrint}
+                                style={{
+                                    padding: '8px 16px',
+                                    fontSize: '12px',
+                                    fontWeight: 500,
+                                    borderRadius: '4px',
+                                    border: 'none',
+                                    cursor: isExportingPrint ? 'not-allowed' : 'pointer',
+                                    backgroundColor: isExportingPrint ? '#cccccc' : '#475569',
+                                    color: 'white'
+                                }}
+                            >
+                                {isExportingPrint ? 'Exporting...' : '🖨️ Export PDF'}
+                            </button>
+                            {print && (
+                                <div style={{ display: 'flex', gap: '8px', alignItems: 'center', fontSize: '11px', color: '#666' }}>
+                                    <a href={print.url} target="_blank" rel="noreferrer" style={{ color: '#18A0FB' }}>
+                                        📄 Open PDF ({print.pageCount} pages, {print.paper} {PRINT_ORIENTATION_LABELS[print.orientation].toLowerCase()})
+                                    </a>
+                                    <span>{new Date(print.createdAt).toLocaleString()}</span>
+                                </div>
+                            )}
+                        </div>
+                    )
+                })()}
+
+                {selectedStoryboardId && (
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                        <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                            <label htmlFor="presentationOrder" style={{ fontSize: '12px', color: '#666' }}>
+                                📽️ Present
+                            </label>
+                            <select
+                                id="presentationOrder"
+                                value={presentationOrder}
+                                onChange={(e) => setPresentationOrder(e.target.value as PresentationOrder)}
+                                style={{ flex: 1, fontSize: '12px' }}
+                            >
+                                {(Object.keys(PRESENTATION_ORDER_LABELS) as PresentationOrder[]).map(order => (
+                                    <option key={order} value={order}>{PRESENTATION_ORDER_LABELS[order]}</option>
+                                ))}
+                            </select>
+                            <button
+                                onClick={presentation ? handleStopPresentation : handleStartPresentation}
+                                style={{
+                                    padding: '6px 12px',
+                                    fontSize: '12px',
+                                    fontWeight: 500,
+                                    borderRadius: '4px',
+                                    border: 'none',
+                                    cursor: 'pointer',
+                                    backgroundColor: presentation ? '#D32F2F' : '#F59E0B',
+                                    color: 'white'
+                                }}
+                            >
+                                {presentation ? '■ Stop' : '▶ Start'}
+                            </button>
+                        </div>
+                        {presentation && (() => {
+                            const scene = previousScenes.get(presentation.sceneId)
+                            if (!scene) {
+                                return (
+                                    <div style={{ fontSize: '11px', color: '#D32F2F' }}>
+                                        This scene was deleted, go back or stop the presentation
+                                    </div>
+                                )
+                            }
+
+                            const next = getNextScenes(scene, Array.from(previousScenes.values()), presentationOrder)
+                            const secondaryButton = {
+                                flex: 1,
+                                padding: '6px 12px',
+                                fontSize: '12px',
+                                borderRadius: '4px',
+                                border: '1px solid #e0e0e0',
+                                backgroundColor: 'white',
+                                color: '#333',
+                                cursor: 'pointer'
+                            }
+                            return (
+                                <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', padding: '8px', borderRadius: '4px', border: '1px solid #e0e0e0' }}>
+                                    <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '12px', fontWeight: 600 }}>
+                                        <span>Scene {scene.sceneNumber}{scene.shotType ? ` · ${scene.shotType}` : ''}</span>
+                                        <span style={{ fontWeight: 400, color: '#666' }}>
+                                            ⏱ {scene.duration || `${DEFAULT_SCENE_SECONDS}s`}
+                                        </span>
+                                    </div>
+                                    {scene.description && (
+                                        <div style={{ fontSize: '11px', color: '#666' }}>{scene.description}</div>
+                                    )}
+                                    <div style={{ fontSize: '13px', fontStyle: scene.dialogue ? 'italic' : 'normal', color: scene.dialogue ? '#333' : '#999' }}>
+                                        {scene.dialogue ? `💬 “${scene.dialogue}”` : 'No dialogue'}
+                                    </div>
+                                    <div style={{ display: 'flex', gap: '6px' }}>
+                                        <button
+                                            onClick={handlePreviousScene}
+                                            disabled={presentation.history.length === 0}
+                                            style={{ ...secondaryButton, cursor: presentation.history.length === 0 ? 'not-allowed' : 'pointer' }}
+                                        >
+                                            ◀ Prev
+                                        </button>
+                                        <button
+                                            onClick={() => setIsAutoAdvancing(!isAutoAdvancing)}
+                                            disabled={next.length === 0}
+                                            style={{ ...secondaryButton, cursor: next.length === 0 ? 'not-allowed' : 'pointer' }}
+                                        >
+                                            {isAutoAdvancing ? '⏸ Pause' : '⏵ Auto'}
+                                        </button>
+                                        <button
+                                            onClick={() => handleNextScene(next[0].id)}
+                                            disabled={next.length !== 1}
+                                            style={{ ...secondaryButton, cursor: next.length !== 1 ? 'not-allowed' : 'pointer' }}
+                                        >
+                                            Next ▶
+                                        </button>
+                                    </div>
+                                    {next.length > 1 && (
+                                        <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+                                            <span style={{ fontSize: '11px', color: '#666' }}>🔀 Choose the next scene:</span>
+                                            {next.map(item => (
+                                                <button
+                                                    key={item.id}
+                                                    onClick={() => handleNextScene(item.id)}
+                                                    style={{ ...secondaryButton, textAlign: 'left', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+                                                >
+                                                    → Scene {item.sceneNumber}{item.description ? `: ${item.description}` : ''}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    )}
+                                    {next.length === 0 && (
+                                        <span style={{ fontSize: '11px', color: '#666' }}>🏁 End of the storyboard</span>
+                                    )}
+                                </div>
+                            )
+                        })()}
+                    </div>
+                )}
+
+                {imageBatch && imageBatch.storyboardId === selectedStoryboardId && imageBatch.progress && (
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', fontSize: '11px', color: '#666' }}>
+                        <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                            <span>
+                                {isBatchFinished(imageBatch.progress) ? '✅ Batch finished' : '⚙️ Generating scene images'}
+                            </span>
+                            <span>
+                                {imageBatch.progress.done}/{imageBatch.progress.total}
+                                {imageBatch.progress.failed > 0 && (
+                                    <span style={{ color: '#D32F2F' }}> · {imageBatch.progress.failed} failed</span>
+                                )}
+                            </span>
+                        </div>
+                        <div style={{ height: '4px', backgroundColor: '#e0e0e0', borderRadius: '2px', overflow: 'hidden' }}>
+                            <div style={{
+                                width: `${imageBatch.progress.total > 0 ? (imageBatch.progress.done + imageBatch.progress.failed) / imageBatch.progress.total * 100 : 0}%`,
+                                height: '100%',
+                                backgroundColor: imageBatch.progress.failed > 0 ? '#F59E0B' : '#10B981'
+                            }} />
+                        </div>
+                    </div>
+                )}
             </div>
 
+            {/* Storyboard Generation */}
+            {projectId && publicAnonKey && (
+                <div style={{
+                    backgroundColor: '#f5f5f5',
+                    borderRadius: '6px',
+                    padding: '12px',
+                    border: '1px solid #e0e0e0'
+                }}>
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+                        <label htmlFor="loglineInput" style={{ fontSize: '12px', fontWeight: 500, color: '#666' }}>
+                            Generate Storyboard from Logline
+                        </label>
+                        <textarea
+                            id="loglineInput"
+                            value={loglineText}
+                            onChange={(e) => setLoglineText(e.target.value)}
+                            placeholder="A retired astronaut must fly one last mission to save her daughter..."
+                            rows={3}
+                            style={{
+                                width: '100%',
+                                padding: '8px',
+                                fontSize: '12px',
+                                fontFamily: 'inherit',
+                                border: '1px solid #e0e0e0',
+                                borderRadius: '4px',
+                                resize: 'vertical'
+                            }}
+                        />
+
+                        <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px', color: '#666' }}>
+                            Scenes
+                            <input
+                                type="number"
+                                min={1}
+                                max={30}
+                                value={storyboardSceneCount}
+                                onChange={(e) => setStoryboardSceneCount(Number(e.target.value) || 1)}
+                                style={{ width: '60px', padding: '4px', fontSize: '12px' }}
+                            />
+                        </label>
+
+                        <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px', color: '#666' }}>
+                            <input
+                                type="checkbox"
+                                checked={useContextForStoryboard}
+                                onChange={(e) => setUseContextForStoryboard(e.target.checked)}
+                            />
+                            Use current Figma selection as context
+                        </label>
+
+                        <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px', color: '#666' }}>
+                            <input
+                                type="checkbox"
+                                checked={enqueueStoryboardImages}
+                                onChange={(e) => setEnqueueStoryboardImages(e.target.checked)}
+                            />
+                            Generate scene images
+                        </label>
+
+                        <button
+                            onClick={handleGenerateStoryboard}
+                            disabled={isGeneratingStoryboard || !loglineText.trim()}
+                            style={{
+                                width: '100%',
+                                padding: '10px 16px',
+                                fontSize: '13px',
+                                fontWeight: 600,
+                                borderRadius: '4px',
+                                border: 'none',
+                                cursor: (isGeneratingStoryboard || !loglineText.trim()) ? 'not-allowed' : 'pointer',
+                                backgroundColor: (isGeneratingStoryboard || !loglineText.trim()) ? '#cccccc' : '#18A0FB',
+                                color: 'white',
+                                opacity: (isGeneratingStoryboard || !loglineText.trim()) ? 0.5 : 1
+                            }}
+                        >
+                            {isGeneratingStoryboard ? 'Generating...' : '✨ Generate Storyboard'}
+                        </button>
+                    </div>
+                </div>
+            )}
+
             {/* Selection Context & Image Generation */}
             {projectId && publicAnonKey && (
                 <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
@@ -1143,6 +2341,139 @@ function App() {
                                 Scene: {selectionContext.sceneId}
                             </div>
                         )}
+                        {selectionContext.characterId && (
+                            <div style={{ marginTop: '6px', fontSize: '11px', color: '#666', paddingLeft: '24px' }}>
+                                Character: {selectionContext.characterId}
+                            </div>
+                        )}
+                        {selectionContext.variantMediaId && (
+                            <button
+                                onClick={handlePickVariant}
+                                disabled={isPickingVariant}
+                                style={{
+                                    marginTop: '8px',
+                                    width: '100%',
+                                    padding: '8px 16px',
+                                    fontSize: '12px',
+                                    fontWeight: 600,
+                                    borderRadius: '4px',
+                                    border: 'none',
+                                    cursor: isPickingVariant ? 'not-allowed' : 'pointer',
+                                    backgroundColor: isPickingVariant ? '#cccccc' : '#10B981',
+                                    color: 'white'
+                                }}
+                            >
+                                {isPickingVariant ? 'Picking...' : '✓ Use this variant for the scene'}
+                            </button>
+                        )}
+                        {selectionContext.sceneId && selectedStoryboardId && (
+                            <button
+                                onClick={handleToggleMediaHistory}
+                                style={{
+                                    marginTop: '8px',
+                                    width: '100%',
+                                    padding: '6px 12px',
+                                    fontSize: '12px',
+                                    borderRadius: '4px',
+                                    border: '1px solid #e0e0e0',
+                                    backgroundColor: 'white',
+                                    color: '#333',
+                                    cursor: 'pointer'
+                                }}
+                            >
+                                🕘 History {mediaHistoryExpanded ? '▲' : '▼'}
+                            </button>
+                        )}
+                        {mediaHistoryExpanded && mediaHistory && (() => {
+                            const compared = mediaHistory.items.find(item => item.id === compareMediaId)
+                            const current = compared && mediaHistory.items.find(item =>
+                                item.id === (compared.type === 'video' ? mediaHistory.currentVideoId : mediaHistory.currentImageId))
+
+                            return (
+                                <div style={{ marginTop: '8px', display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                                    {mediaHistory.items.length === 0 && (
+                                        <div style={{ fontSize: '11px', color: '#999' }}>No generated media for this scene yet</div>
+                                    )}
+                                    {compared && (
+                                        <div style={{ padding: '8px', backgroundColor: 'white', borderRadius: '4px', fontSize: '11px' }}>
+                                            <div style={{ display: 'flex', gap: '8px' }}>
+                                                <div style={{ flex: 1, minWidth: 0 }}>
+                                                    <div style={{ color: '#666', marginBottom: '4px' }}>Current</div>
+                                                    {current ? renderMediaPreview(current, 90) : (
+                                                        <div style={{ height: '90px', color: '#999' }}>Not in history</div>
+                                                    )}
+                                                </div>
+                                                <div style={{ flex: 1, minWidth: 0 }}>
+                                                    <div style={{ color: '#666', marginBottom: '4px' }}>
+                                                        {new Date(compared.created_at).toLocaleString()}
+                                                    </div>
+                                                    {renderMediaPreview(compared, 90)}
+                                                </div>
+                                            </div>
+                                            <div style={{ marginTop: '6px', color: '#666', wordBreak: 'break-word' }}>
+                                                {compared.prompt || 'No prompt'}
+                                            </div>
+                                            <button
+                                                onClick={() => handleRevertMedia(compared)}
+                                                disabled={isRevertingMedia || isCurrentMedia(compared)}
+                                                style={{
+                                                    marginTop: '6px',
+                                                    width: '100%',
+                                                    padding: '6px 12px',
+                                                    fontSize: '12px',
+                                                    fontWeight: 600,
+                                                    borderRadius: '4px',
+                                                    border: 'none',
+                                                    cursor: isRevertingMedia || isCurrentMedia(compared) ? 'not-allowed' : 'pointer',
+                                                    backgroundColor: isRevertingMedia || isCurrentMedia(compared) ? '#cccccc' : '#18A0FB',
+                                                    color: 'white'
+                                                }}
+                                            >
+                                                {isRevertingMedia ? 'Reverting...' : isCurrentMedia(compared) ? 'Current' : `↩ Revert to this ${compared.type}`}
+                                            </button>
+                                        </div>
+                                    )}
+                                    {mediaHistory.items.map(item => (
+                                        <div
+                                            key={item.id}
+                                            onClick={() => setCompareMediaId(item.id === compareMediaId ? null : item.id)}
+                                            style={{
+                                                display: 'flex',
+                                                alignItems: 'center',
+                                                gap: '8px',
+                                                padding: '4px',
+                                                backgroundColor: item.id === compareMediaId ? '#E5F4FF' : 'white',
+                                                borderRadius: '4px',
+                                                fontSize: '11px',
+                                                cursor: 'pointer'
+                                            }}
+                                        >
+                                            <div style={{ width: '48px', flexShrink: 0 }}>
+                                                {item.type === 'video' && !item.preview_url ? (
+                                                    <div style={{ height: '32px', textAlign: 'center', lineHeight: '32px' }}>🎬</div>
+                                                ) : (
+                                                    <img
+                                                        src={item.type === 'video' ? item.preview_url || '' : item.url}
+                                                        alt=""
+                                                        style={{ width: '48px', height: '32px', objectFit: 'cover', borderRadius: '2px' }}
+                                                    />
+                                                )}
+                                            </div>
+                                            <div style={{ flex: 1, minWidth: 0 }}>
+                                                <div>
+                                                    {item.type === 'video' ? '🎬' : '🎨'} {new Date(item.created_at).toLocaleString()}
+                                                    {isCurrentMedia(item) && <span style={{ color: '#10B981', fontWeight: 600 }}> · current</span>}
+                                                    {item.archived_at && <span style={{ color: '#999' }}> · not picked</span>}
+                                                </div>
+                                                <div style={{ color: '#999', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                                                    {[item.model, item.width && item.height ? `${item.width}×${item.height}` : ''].filter(Boolean).join(' · ')}
+                                                </div>
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            )
+                        })()}
                     </div>
 
                     {/* Prompt Section */}
@@ -1170,6 +2501,21 @@ function App() {
                                 resize: 'vertical'
                             }}
                         />
+                        {selectionContext.sceneId && !selectionContext.variantMediaId && (
+                            <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px', color: '#666' }}>
+                                Variants
+                                <select
+                                    value={imageVariantCount}
+                                    onChange={(e) => setImageVariantCount(parseInt(e.target.value, 10))}
+                                    style={{ fontSize: '12px' }}
+                                >
+                                    {Array.from({ length: MAX_IMAGE_VARIANTS }, (_, index) => index + 1).map(count => (
+                                        <option key={count} value={count}>{count}</option>
+                                    ))}
+                                </select>
+                                {imageVariantCount > 1 && <span style={{ fontSize: '11px' }}>pick one on the canvas</span>}
+                            </label>
+                        )}
                         <button
                             onClick={handleGenerateImage}
                             disabled={isGenerating || !promptText.trim()}
@@ -1370,6 +2716,76 @@ function App() {
                                 {videoQueueCount}
                             </span>
                         </div>
+                        {deadLetterCount > 0 && (
+                            <div style={{
+                                display: 'flex',
+                                alignItems: 'center',
+                                gap: '10px',
+                                padding: '8px',
+                                backgroundColor: 'white',
+                                borderRadius: '4px',
+                                fontSize: '12px'
+                            }}>
+                                <span style={{ fontSize: '16px' }}>☠️</span>
+                                <span style={{ flex: 1 }}>Dead letters</span>
+                                <button
+                                    onClick={handleToggleDeadLetters}
+                                    style={{
+                                        padding: '2px 8px',
+                                        fontSize: '11px',
+                                        borderRadius: '10px',
+                                        border: 'none',
+                                        backgroundColor: '#FDECEA',
+                                        color: '#D32F2F',
+                                        fontWeight: 600,
+                                        cursor: 'pointer'
+                                    }}
+                                >
+                                    {deadLetterCount} {deadLettersExpanded ? '▲' : '▼'}
+                                </button>
+                            </div>
+                        )}
+                        {deadLetterCount > 0 && deadLettersExpanded && deadLetters.map(deadLetter => (
+                            <div
+                                key={`${deadLetter.kind}-${deadLetter.msgId}`}
+                                style={{
+                                    padding: '8px',
+                                    backgroundColor: 'white',
+                                    borderRadius: '4px',
+                                    fontSize: '11px',
+                                    display: 'flex',
+                                    flexDirection: 'column',
+                                    gap: '4px'
+                                }}
+                            >
+                                <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                                    <span>{deadLetter.kind === 'video' ? '🎬' : '🎨'}</span>
+                                    <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                                        {deadLetter.message.prompt || 'No prompt'}
+                                    </span>
+                                    <button
+                                        onClick={() => handleRequeueDeadLetter(deadLetter)}
+                                        style={{
+                                            padding: '2px 8px',
+                                            fontSize: '11px',
+                                            borderRadius: '4px',
+                                            border: '1px solid #18A0FB',
+                                            backgroundColor: 'white',
+                                            color: '#18A0FB',
+                                            cursor: 'pointer'
+                                        }}
+                                    >
+                                        Requeue
+                                    </button>
+                                </div>
+                                <div style={{ color: '#999' }}>
+                                    {deadLetter.attempts} attempt{deadLetter.attempts === 1 ? '' : 's'} · {new Date(deadLetter.failedAt).toLocaleString()}
+                                </div>
+                                <div style={{ color: '#D32F2F', wordBreak: 'break-word' }}>
+                                    {deadLetter.error.slice(0, 200)}
+                                </div>
+                            </div>
+                        ))}
                     </div>
                     {/* Process Queue Button */}
                     {imageQueueCount > 0 && (
@@ -1419,6 +2835,91 @@ function App() {
                 </div>
             )}
 
+            {/* Generation Jobs (live via Realtime) */}
+            {generationJobs.length > 0 && (
+                <div style={{
+                    backgroundColor: '#f5f5f5',
+                    borderRadius: '6px',
+                    padding: '12px',
+                    border: '1px solid #e0e0e0'
+                }}>
+                    <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '10px' }}>
+                        <h3 style={{ fontSize: '13px', fontWeight: 600, margin: 0 }}>Generation Jobs</h3>
+                        <span style={{ fontSize: '11px', color: '#666' }}>
+                            {generationJobs.filter(isJobActive).length} active
+                        </span>
+                    </div>
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                        {generationJobs.map(job => {
+                            const isOwn = ownJobKeys.has(jobKey(job.queue_name, job.msg_id))
+                            return (
+                                <div
+                                    key={job.id}
+                                    style={{
+                                        padding: '8px',
+                                        backgroundColor: 'white',
+                                        borderRadius: '4px',
+                                        border: isOwn ? '1px solid #18A0FB' : '1px solid transparent',
+                                        fontSize: '11px',
+                                        display: 'flex',
+                                        flexDirection: 'column',
+                                        gap: '4px'
+                                    }}
+                                >
+                                    <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                                        <span style={{ fontSize: '14px' }}>{job.kind === 'video' ? '🎬' : '🎨'}</span>
+                                        <span style={{ flex: 1, fontWeight: 500 }}>
+                                            {describeJobTarget(job)}
+                                            {isOwn && <span style={{ color: '#18A0FB', fontWeight: 400 }}> · yours</span>}
+                                        </span>
+                                        <span style={{ color: job.status === 'failed' ? '#D32F2F' : '#666' }}>
+                                            {JOB_STATUS_LABELS[job.status]}
+                                        </span>
+                                    </div>
+                                    <div style={{ color: '#999' }}>
+                                        {job.model || 'model pending'} · attempt {Math.max(job.attempt, 1)}
+                                    </div>
+                                    {job.prompt && (
+                                        <div style={{ color: '#666', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                                            {job.prompt}
+                                        </div>
+                                    )}
+                                    {job.error && (job.status === 'failed' || job.status === 'queued') && (
+                                        <div style={{ color: '#D32F2F', wordBreak: 'break-word' }}>
+                                            {job.error.slice(0, 200)}
+                                        </div>
+                                    )}
+                                    {job.status === 'done' && (
+                                        <div style={{ display: 'flex', gap: '8px' }}>
+                                            {job.output_url && (
+                                                <a href={job.output_url} target="_blank" rel="noreferrer" style={{ color: '#18A0FB' }}>
+                                                    Open {job.kind}
+                                                </a>
+                                            )}
+                                            {job.scene_id && (
+                                                <button
+                                                    onClick={() => handleShowJobScene(job.scene_id as string)}
+                                                    style={{
+                                                        padding: 0,
+                                                        border: 'none',
+                                                        background: 'none',
+                                                        color: '#18A0FB',
+                                                        fontSize: '11px',
+                                                        cursor: 'pointer'
+                                                    }}
+                                                >
+                                                    Show on canvas
+                                                </button>
+                                            )}
+                                        </div>
+                                    )}
+                                </div>
+                            )
+                        })}
+                    </div>
+                </div>
+            )}
+
             <div className="notifications">
                 {notifications.map(notification => (
                     <div
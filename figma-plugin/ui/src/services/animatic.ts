@@ -0,0 +1,40 @@
+/**
+ * Animatic exports of a storyboard.
+ *
+ * The UI sends `{ storyboardId, order, captions }` to `animatic_queue`; the animatic worker
+ * (supabase/workers/animatic, needs ffmpeg) stitches the scene videos and stills into one MP4
+ * and records it in the storyboard's `metadata.animatic`, which reaches the UI through realtime
+ * (see migration `20251117_add_animatic_queue.sql`).
+ */
+
+import { callRpc } from './supabaseRpc'
+import { AnimaticOrder, StoryboardAnimatic } from '../../../plugin/types'
+
+export const ANIMATIC_QUEUE = 'animatic_queue'
+
+export const ANIMATIC_ORDER_LABELS: Record<AnimaticOrder, string> = {
+    'scene-number': 'Scene numbers',
+    'path': 'Story path (first branch)'
+}
+
+export const ANIMATIC_STATUS_LABELS: Record<StoryboardAnimatic['status'], string> = {
+    queued: '⏳ Queued',
+    rendering: '⚙️ Rendering',
+    done: '✅ Ready',
+    failed: '❌ Failed'
+}
+
+export interface AnimaticRequest {
+    storyboardId: string
+    order: AnimaticOrder
+    /** Burn each scene's dialogue in as captions */
+    captions: boolean
+}
+
+/**
+ * Ask the animatic worker for a new export
+ * @returns msg_id in animatic_queue
+ */
+export async function enqueueAnimatic(projectId: string, apiKey: string, request: AnimaticRequest): Promise<number> {
+    return await callRpc<number>(projectId, apiKey, 'pgmq_send', { queue_name: ANIMATIC_QUEUE, message: request })
+}
\ No newline at end of file
@@ -0,0 +1,83 @@
+/**
+ * Dead-lettered generation jobs.
+ *
+ * The workers move a message to `image_generation_dlq` / `video_generation_dlq` when its error
+ * is permanent or it ran out of attempts (see migration `20251112_add_generation_dlq.sql`).
+ * The entries can be listed and sent back to their queue from the UI.
+ */
+
+import { callRpc } from './supabaseRpc'
+
+export type GenerationKind = 'image' | 'video'
+
+export interface DeadLetter {
+    kind: GenerationKind
+    /** Id in the DLQ (used to requeue) */
+    msgId: number
+    /** Queue and id the message had before it was dead-lettered */
+    queueName: string
+    originalMsgId: number
+    attempts: number
+    error: string
+    failedAt: string
+    message: {
+        storyboardId?: string
+        sceneId?: string
+        characterId?: string
+        prompt?: string
+    }
+}
+
+interface DeadLetterRow {
+    msg_id: number
+    enqueued_at: string
+    entry: {
+        queue_name: string
+        msg_id: number
+        read_ct: number
+        error: string
+        failed_at: string
+        message: DeadLetter['message']
+    }
+}
+
+export const DLQ_NAMES: Record<GenerationKind, string> = {
+    image: 'image_generation_dlq',
+    video: 'video_generation_dlq'
+}
+
+/**
+ * Fetch the dead-lettered jobs of one kind, newest first
+ * @param projectId Supabase project id
+ * @param apiKey Supabase anon key
+ * @param kind 'image' or 'video'
+ */
+export async function fetchDeadLetters(projectId: string, apiKey: string, kind: GenerationKind): Promise<DeadLetter[]> {
+    const rows = await callRpc<DeadLetterRow[]>(projectId, apiKey, 'generation_dlq_list', { kind, max_count: 50 })
+
+    return (rows || []).map(row => ({
+        kind,
+        msgId: row.msg_id,
+        queueName: row.entry.queue_name,
+        originalMsgId: row.entry.msg_id,
+        attempts: row.entry.read_ct,
+        error: row.entry.error,
+        failedAt: row.entry.failed_at,
+        message: row.entry.message || {}
+    }))
+}
+
+/**
+ * Send a dead-lettered job back to its generation queue
+ * @returns The new msg_id in the generation queue, or null if the entry was already gone
+ */
+export async function requeueDeadLetter(
+    projectId: string,
+    apiKey: string,
+    deadLetter: Pick<DeadLetter, 'kind' | 'msgId'>
+): Promise<number | null> {
+    return await callRpc<number | null>(projectId, apiKey, 'generation_dlq_requeue', {
+        kind: deadLetter.kind,
+        msg_id: deadLetter.msgId
+    })
+}
\ No newline at end of file
@@ -0,0 +1,178 @@
+/**
+ * Generation job progress from the `generation_jobs` table.
+ *
+ * Every message sent to image_generation_queue / video_generation_queue gets a row
+ * (see migration `20251111_add_generation_jobs.sql`), which the workers move through
+ * queued → running → polling (video) → uploading → done | failed.
+ * The UI loads the recent jobs of a storyboard once and then applies Realtime changes.
+ *
+ * Jobs enqueued together share a `batch_id` (see migration `20251116_add_generation_batches.sql`).
+ */
+
+import { callRpc } from './supabaseRpc'
+
+export type GenerationJobStatus = 'queued' | 'running' | 'polling' | 'uploading' | 'done' | 'failed'
+
+export interface GenerationJob {
+    id: string
+    queue_name: string
+    msg_id: number
+    kind: 'image' | 'video'
+    storyboard_id: string | null
+    scene_id: string | null
+    character_id: string | null
+    prompt: string | null
+    /** Jobs enqueued together, e.g. the missing images of a storyboard */
+    batch_id: string | null
+    status: GenerationJobStatus
+    model: string | null
+    /** How many times the message has been read (1 on the first try) */
+    attempt: number
+    error: string | null
+    output_url: string | null
+    created_at: string
+    updated_at: string
+}
+
+export interface GenerationJobChangePayload {
+    data: {
+        type: 'INSERT' | 'UPDATE' | 'DELETE'
+        record?: GenerationJob
+        old_record?: Partial<GenerationJob>
+    }
+}
+
+export const GENERATION_JOBS_TABLE = 'generation_jobs'
+
+/** How many jobs the panel keeps (newest first) */
+export const MAX_GENERATION_JOBS = 20
+
+export const JOB_STATUS_LABELS: Record<GenerationJobStatus, string> = {
+    queued: '⏳ Queued',
+    running: '⚙️ Generating',
+    polling: '🔄 Waiting for model',
+    uploading: '⬆️ Uploading',
+    done: '✅ Done',
+    failed: '❌ Failed'
+}
+
+/**
+ * Key of the job behind a queue message (the msg_id pgmq_send returned)
+ */
+export function jobKey(queueName: string, msgId: number): string {
+    return `${queueName}:${msgId}`
+}
+
+export function isJobActive(job: GenerationJob): boolean {
+    return job.status !== 'done' && job.status !== 'failed'
+}
+
+/**
+ * Build the Realtime `postgres_changes` subscription for the jobs of one storyboard
+ * @param storyboardId Storyboard whose jobs are shown
+ */
+export function buildJobChangesConfig(storyboardId: string) {
+    return [{ event: '*', schema: 'public', table: GENERATION_JOBS_TABLE, filter: `storyboard_id=eq.${storyboardId}` }]
+}
+
+/**
+ * Fetch the most recent jobs of a storyboard
+ * @param projectId Supabase project id
+ * @param apiKey Supabase anon key
+ * @param storyboardId Storyboard whose jobs are fetched
+ * @returns Jobs, newest first
+ */
+export async function fetchGenerationJobs(
+    projectId: string,
+    apiKey: string,
+    storyboardId: string
+): Promise<GenerationJob[]> {
+    const url = `https://${projectId}.supabase.co/rest/v1/${GENERATION_JOBS_TABLE}` +
+        `?select=*&storyboard_id=eq.${encodeURIComponent(storyboardId)}` +
+        `&order=created_at.desc&limit=${MAX_GENERATION_JOBS}`
+
+    const response = await fetch(url, {
+        method: 'GET',
+        headers: {
+            'apikey': apiKey,
+            'Authorization': `Bearer ${apiKey}`
+        }
+    })
+
+    if (!response.ok) {
+        throw new Error(`Failed to fetch generation jobs: ${response.status}`)
+    }
+
+    return await response.json()
+}
+
+/**
+ * Apply a Realtime change to the job list
+ * @param jobs Current list, newest first
+ * @param payload The `postgres_changes` payload for generation_jobs
+ * @returns The new list (same array if nothing changed)
+ */
+export function applyJobChange(jobs: GenerationJob[], payload: GenerationJobChangePayload): GenerationJob[] {
+    const change = payload.data
+    if (!change) {
+        return jobs
+    }
+
+    if (change.type === 'DELETE') {
+        const id = change.old_record?.id
+        return id ? jobs.filter(job => job.id !== id) : jobs
+    }
+
+    const record = change.record
+    if (!record) {
+        return jobs
+    }
+
+    const existing = jobs.findIndex(job => job.id === record.id)
+    if (existing !== -1) {
+        // Realtime may deliver updates out of order; keep the newer one
+        if (jobs[existing].updated_at > record.updated_at) {
+            return jobs
+        }
+        const next = jobs.slice()
+        next[existing] = record
+        return next
+    }
+
+    return [record].concat(jobs)
+        .sort((a, b) => (a.created_at < b.created_at ? 1 : a.created_at > b.created_at ? -1 : 0))
+        .slice(0, MAX_GENERATION_JOBS)
+}
+
+export interface GenerationBatch {
+    /** null when nothing was enqueued */
+    batchId: string | null
+    enqueued: number
+    jobs: Array<{ sceneId: string; msgId: number }>
+}
+
+export interface BatchProgress {
+    total: number
+    queued: number
+    /** Running, polling or uploading */
+    running: number
+    done: number
+    failed: number
+}
+
+export function isBatchFinished(progress: BatchProgress): boolean {
+    return progress.done + progress.failed >= progress.total
+}
+
+/**
+ * Enqueue an image job for every scene of a storyboard that has no image yet
+ * Scenes waiting for a variant pick or with an unfinished image job are skipped.
+ * @returns The batch with the queue message of each scene
+ */
+export async function enqueueMissingSceneImages(projectId: string, apiKey: string, storyboardId: string): Promise<GenerationBatch> {
+    return await callRpc<GenerationBatch>(projectId, apiKey, 'enqueue_storyboard_images', { storyboard_id: storyboardId })
+}
+
+export async function fetchBatchProgress(projectId: string, apiKey: string, batchId: string): Promise<BatchProgress> {
+    return await callRpc<BatchProgress>(projectId, apiKey, 'generation_batch_progress', { batch_id: batchId })
+}
\ No newline at end of file
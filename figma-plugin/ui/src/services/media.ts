@@ -0,0 +1,110 @@
+/**
+ * Generated media (`public.media`) of scenes.
+ *
+ * The workers store every generated image and video as a media row; the scene points at the
+ * current ones (`mediaId`, `videoMediaId`) and the older rows are its history, which can be
+ * browsed and reverted to (see migration `20251115_add_media_history.sql`).
+ *
+ * A scene image job with `variants > 1` stores every image as a media row and lists them in
+ * `scene.metadata.imageVariants`; the plugin shows them as a contact strip until one is picked
+ * (see migration `20251114_add_media_variants.sql`).
+ */
+
+import { callRpc } from './supabaseRpc'
+import { Scene } from '../../../plugin/types'
+
+export const MAX_IMAGE_VARIANTS = 4
+
+/** How many media rows the history panel shows (newest first) */
+export const MAX_MEDIA_HISTORY = 30
+
+export const MEDIA_TABLE = 'media'
+
+export interface MediaItem {
+    id: string
+    type: 'image' | 'video'
+    url: string
+    preview_url: string | null
+    prompt: string | null
+    model: string | null
+    width: number | null
+    height: number | null
+    status: string
+    /** Set on variants that were not picked */
+    archived_at: string | null
+    created_at: string
+}
+
+export interface SceneMediaHistory {
+    items: MediaItem[]
+    /** Media ids the scene currently shows */
+    currentImageId: string | null
+    currentVideoId: string | null
+}
+
+function restHeaders(apiKey: string) {
+    return {
+        'apikey': apiKey,
+        'Authorization': `Bearer ${apiKey}`
+    }
+}
+
+/**
+ * Fetch the generated images and videos of a scene with the ones it currently uses
+ * @param projectId Supabase project id
+ * @param apiKey Supabase anon key
+ * @param storyboardId Storyboard of the scene
+ * @param sceneId Scene whose history is fetched
+ */
+export async function fetchSceneMediaHistory(
+    projectId: string,
+    apiKey: string,
+    storyboardId: string,
+    sceneId: string
+): Promise<SceneMediaHistory> {
+    const baseUrl = `https://${projectId}.supabase.co/rest/v1`
+    const mediaUrl = `${baseUrl}/${MEDIA_TABLE}` +
+        `?select=id,type,url,preview_url,prompt,model,width,height,status,archived_at,created_at` +
+        `&storyboard_id=eq.${encodeURIComponent(storyboardId)}&scene_id=eq.${encodeURIComponent(sceneId)}` +
+        `&deleted_at=is.null&status=eq.completed&order=created_at.desc&limit=${MAX_MEDIA_HISTORY}`
+    const sceneUrl = `${baseUrl}/kv_store_7ee7668a` +
+        `?key=eq.${encodeURIComponent(`scene:${storyboardId}:${sceneId}`)}&select=value`
+
+    const [mediaResponse, sceneResponse] = await Promise.all([
+        fetch(mediaUrl, { method: 'GET', headers: restHeaders(apiKey) }),
+        fetch(sceneUrl, { method: 'GET', headers: restHeaders(apiKey) })
+    ])
+
+    if (!mediaResponse.ok) {
+        throw new Error(`Failed to fetch media history: ${mediaResponse.status}`)
+    }
+    if (!sceneResponse.ok) {
+        throw new Error(`Failed to fetch scene: ${sceneResponse.status}`)
+    }
+
+    const items: MediaItem[] = await mediaResponse.json()
+    const sceneRows: { value: Scene }[] = await sceneResponse.json()
+    const scene = sceneRows.length > 0 ? sceneRows[0].value : undefined
+
+    return {
+        items,
+        currentImageId: scene?.mediaId || null,
+        currentVideoId: scene?.videoMediaId || null
+    }
+}
+
+/**
+ * Make an earlier image or video the scene's current one
+ * @returns The updated scene (also delivered through realtime)
+ */
+export async function revertSceneMedia(projectId: string, apiKey: string, mediaId: string): Promise<Scene> {
+    return await callRpc<Scene>(projectId, apiKey, 'revert_scene_media', { media_id: mediaId })
+}
+
+/**
+ * Make a variant the scene's image (`mediaId`/`imageUrl`) and archive the other variants
+ * @returns The updated scene (also delivered through realtime)
+ */
+export async function pickMediaVariant(projectId: string, apiKey: string, mediaId: string): Promise<Scene> {
+    return await callRpc<Scene>(projectId, apiKey, 'pick_media_variant', { media_id: mediaId })
+}
\ No newline at end of file
@@ -0,0 +1,129 @@
+import { PROTOCOL_VERSION } from '../../../plugin/protocol'
+import { ProtocolErrorCode, PluginToUIMessage, UIToPluginMessage } from '../../../plugin/types'
+
+/**
+ * Typed UI → Plugin messaging.
+ *
+ * `postToPlugin` is fire-and-forget. `requestPlugin` attaches a requestId and resolves
+ * with the plugin message that echoes it back, so callers can `await` a sync or a
+ * context extraction instead of matching responses in the window.onmessage switch.
+ */
+
+export { PROTOCOL_VERSION }
+
+const DEFAULT_REQUEST_TIMEOUT_MS = 30000
+
+type ResponseType = PluginToUIMessage['type']
+
+export type PluginResponse<T extends ResponseType> = Extract<PluginToUIMessage, { type: T }>
+
+interface PendingRequest {
+    responseTypes: ResponseType[]
+    resolve: (message: PluginToUIMessage) => void
+    reject: (error: Error) => void
+    timer: ReturnType<typeof setTimeout>
+}
+
+/**
+ * Error of a request the plugin rejected or never answered
+ */
+export class PluginRequestError extends Error {
+    code: ProtocolErrorCode | 'TIMEOUT'
+
+    constructor(code: ProtocolErrorCode | 'TIMEOUT', message: string) {
+        super(message)
+        this.name = 'PluginRequestError'
+        this.code = code
+    }
+}
+
+const pendingRequests: Map<string, PendingRequest> = new Map()
+let requestCounter = 0
+
+function createRequestId(): string {
+    requestCounter += 1
+    return `req-${Date.now().toString(36)}-${requestCounter}`
+}
+
+/**
+ * Send a message to the plugin without waiting for a response
+ * @param message The message to send
+ */
+export function postToPlugin(message: UIToPluginMessage) {
+    parent.postMessage({ pluginMessage: message }, '*')
+}
+
+/**
+ * Send a message to the plugin and wait for the response carrying the same requestId
+ * @param message The request message (requestId is added)
+ * @param responseTypes Message types that answer this request
+ * @param timeoutMs Reject with a TIMEOUT error after this many ms
+ * @returns The first response of one of `responseTypes`
+ */
+export function requestPlugin<T extends ResponseType>(
+    message: UIToPluginMessage,
+    responseTypes: T[],
+    timeoutMs: number = DEFAULT_REQUEST_TIMEOUT_MS
+): Promise<PluginResponse<T>> {
+    const requestId = createRequestId()
+
+    return new Promise<PluginResponse<T>>((resolve, reject) => {
+        const timer = setTimeout(() => {
+            pendingRequests.delete(requestId)
+            reject(new PluginRequestError('TIMEOUT', `No response to ${message.type} within ${timeoutMs}ms`))
+        }, timeoutMs)
+
+        pendingRequests.set(requestId, {
+            responseTypes,
+            resolve: response => resolve(response as PluginResponse<T>),
+            reject,
+            timer
+        })
+
+        postToPlugin({ ...message, requestId })
+    })
+}
+
+/**
+ * Settle the pending request a plugin message answers. Call first in window.onmessage.
+ * @param message Message received from the plugin
+ * @returns true if the message answered a pending request
+ */
+export function resolvePluginResponse(message: PluginToUIMessage): boolean {
+    if (!message.requestId) {
+        return false
+    }
+
+    const pending = pendingRequests.get(message.requestId)
+    if (!pending) {
+        return false
+    }
+
+    if (message.type === 'protocol-error') {
+        clearTimeout(pending.timer)
+        pendingRequests.delete(message.requestId)
+        pending.reject(new PluginRequestError(message.error.code, message.error.message))
+        return true
+    }
+
+    if (pending.responseTypes.indexOf(message.type) === -1) {
+        // Intermediate message of the same request (e.g. realtime-status during a sync)
+        return false
+    }
+
+    clearTimeout(pending.timer)
+    pendingRequests.delete(message.requestId)
+    pending.resolve(message)
+    return true
+}
+
+/**
+ * Reject every pending request, e.g. when the UI unmounts
+ */
+export function rejectPendingRequests() {
+    pendingRequests.forEach(pending => {
+        clearTimeout(pending.timer)
+        pending.reject(new PluginRequestError('TIMEOUT', 'Plugin bridge closed'))
+    })
+    pendingRequests.clear()
+}
\ No newline at end of file
@@ -0,0 +1,49 @@
+/**
+ * Presentation mode: steps through the synced scenes on the canvas.
+ *
+ * Scenes play in sceneNumber order or along their `nextScenes` links; a scene with several
+ * next scenes is a branch the presenter picks from. For every step the plugin zooms the canvas to
+ * the scene's sticky and image (`present-scene`) while the UI shows its dialogue and duration and
+ * can move on by itself once the duration is over.
+ */
+
+import { Scene } from '../../../plugin/types'
+
+export type PresentationOrder = 'scene-number' | 'path'
+
+export const PRESENTATION_ORDER_LABELS: Record<PresentationOrder, string> = {
+    'scene-number': 'Scene numbers',
+    'path': 'Story path (choose at branches)'
+}
+
+export interface PresentationState {
+    sceneId: string
+    /** Scenes shown before, most recent last (for "previous") */
+    history: string[]
+}
+
+function sortScenes(scenes: Scene[]): Scene[] {
+    return scenes.slice().sort((a, b) => (a.sceneNumber || 0) - (b.sceneNumber || 0) || a.id.localeCompare(b.id))
+}
+
+// The presentation always starts at the lowest scene number
+export function getFirstScene(scenes: Scene[]): Scene | undefined {
+    return sortScenes(scenes)[0]
+}
+
+/**
+ * Scenes that can follow a scene: the next scene number, or the scene's nextScenes links
+ * (several make a branch, none end the presentation; links to unknown scenes are skipped)
+ */
+export function getNextScenes(scene: Scene, scenes: Scene[], order: PresentationOrder): Scene[] {
+    if (order === 'path') {
+        const byId = new Map(scenes.map(item => [item.id, item]))
+        return (scene.nextScenes || [])
+            .map(sceneId => byId.get(sceneId))
+            .filter((item): item is Scene => !!item)
+    }
+
+    const sorted = sortScenes(scenes)
+    const next = sorted[sorted.findIndex(item => item.id === scene.id) + 1]
+    return next ? [next] : []
+}
\ No newline at end of file
@@ -0,0 +1,70 @@
+/**
+ * Printable storyboard sheets.
+ *
+ * The plugin lays the scenes out on page-sized frames and exports every sheet as a single-page
+ * PDF (`export-print-sheets`). The UI merges them into one document (pdf-lib), uploads it to the
+ * `storyboard-prints` bucket so the link can be shared (see migration
+ * `20251118_add_storyboard_prints_bucket.sql`) and records it in the storyboard's `metadata.print`.
+ */
+
+import { PDFDocument } from 'pdf-lib'
+import { PrintOrientation, PrintPaper, PrintSheetOptions } from '../../../plugin/types'
+
+export const PRINT_BUCKET = 'storyboard-prints'
+
+export const PRINT_PAPER_LABELS: Record<PrintPaper, string> = {
+    A4: 'A4',
+    Letter: 'Letter'
+}
+
+export const PRINT_ORIENTATION_LABELS: Record<PrintOrientation, string> = {
+    portrait: 'Portrait',
+    landscape: 'Landscape'
+}
+
+export const PRINT_PANELS_PER_PAGE: Array<PrintSheetOptions['panelsPerPage']> = [3, 6, 9]
+
+/**
+ * Merge the single-page PDFs exported by the plugin into one document, in order
+ */
+export async function mergePdfs(files: Uint8Array[]): Promise<Uint8Array> {
+    if (files.length === 0) {
+        throw new Error('Nothing to merge')
+    }
+    if (files.length === 1) {
+        return files[0]
+    }
+
+    const merged = await PDFDocument.create()
+    for (const file of files) {
+        const source = await PDFDocument.load(file)
+        const pages = await merged.copyPages(source, source.getPageIndices())
+        pages.forEach(page => merged.addPage(page))
+    }
+
+    return await merged.save()
+}
+
+/**
+ * Upload a PDF to the storyboard-prints bucket
+ * @returns Public URL of the PDF
+ */
+export async function uploadPrintPdf(projectId: string, apiKey: string, storyboardId: string, pdf: Uint8Array): Promise<string> {
+    const path = `${storyboardId}/storyboard_${Date.now()}.pdf`
+    const response = await fetch(`https://${projectId}.supabase.co/storage/v1/object/${PRINT_BUCKET}/${path}`, {
+        method: 'POST',
+        headers: {
+            'apikey': apiKey,
+            'Authorization': `Bearer ${apiKey}`,
+            'Content-Type': 'application/pdf'
+        },
+        // Copy backed by a plain ArrayBuffer, as Blob expects
+        body: new Blob([pdf.slice()], { type: 'application/pdf' })
+    })
+
+    if (!response.ok) {
+        throw new Error(`PDF upload failed: ${response.status}`)
+    }
+
+    return `https://${projectId}.supabase.co/storage/v1/object/public/${PRINT_BUCKET}/${path}`
+}
\ No newline at end of file
@@ -0,0 +1,461 @@
+import { KvRecord, PostgresChangePayload, buildPostgresChangesConfig } from './realtimeRouter'
+import { GENERATION_JOBS_TABLE, GenerationJobChangePayload, buildJobChangesConfig } from './generationJobs'
+
+/**
+ * Supabase Realtime client (Phoenix Channels protocol, object-based messages)
+ * for the `kv_store_7ee7668a` table.
+ *
+ * On top of the plain protocol it:
+ * - reconnects with exponential backoff after any close or error
+ * - detects dead connections by heartbeat replies (e.g. after a laptop sleep)
+ * - re-joins `realtime:public:kv_store_7ee7668a` on every reconnect
+ * - catches up on rows whose server-set `updated_at` column is not older than
+ *   the newest `updated_at` seen minus a safety margin (see migration
+ *   `20251120_add_kv_updated_at.sql`), so the canvas converges after a disconnect,
+ *   including worker results that never touch `value.updatedAt`. Deletes made
+ *   while offline are not visible to the catch-up and need a full sync.
+ *
+ * With `onJobChange` it also joins `realtime:public:generation_jobs` for the
+ * storyboard's generation jobs. That channel is optional: if it can't be joined
+ * (migration not applied) the kv channel keeps working.
+ */
+
+export type RealtimeStatus = 'disconnected' | 'connecting' | 'connected' | 'error'
+
+export interface RealtimeClientOptions {
+    projectId: string
+    apiKey: string
+    storyboardId: string
+
+    /** Called for every postgres change, including catch-up rows (as UPDATE) */
+    onChange: (payload: PostgresChangePayload) => void
+    onStatusChange?: (status: RealtimeStatus) => void
+
+    /** Called for every change of the storyboard's generation jobs */
+    onJobChange?: (payload: GenerationJobChangePayload) => void
+    /** Called whenever the jobs channel is (re)joined; changes missed while offline need a refetch */
+    onJobsSubscribed?: () => void
+
+    /**
+     * Server timestamp (`updated_at`) of the initial data; changes from it on are caught up.
+     * Without it the first catch-up refetches every row of the storyboard
+     */
+    since?: string
+
+    /** Overrides for tests against a local fake Phoenix server */
+    url?: string
+    WebSocketImpl?: typeof WebSocket
+    fetchRowsSince?: (since: string | undefined) => Promise<KvRecord[]>
+
+    heartbeatIntervalMs?: number
+    heartbeatTimeoutMs?: number
+    reconnectBaseDelayMs?: number
+    reconnectMaxDelayMs?: number
+    catchUpMarginMs?: number
+}
+
+interface PhoenixMessage {
+    event: string
+    topic: string
+    payload: {
+        status?: string
+        response?: unknown
+    } & Record<string, unknown>
+    ref: string | null
+}
+
+const CHANNEL_TOPIC = 'realtime:public:kv_store_7ee7668a'
+const JOBS_CHANNEL_TOPIC = `realtime:public:${GENERATION_JOBS_TABLE}`
+
+// `updated_at` is set to now(), the start time of the writing transaction, so a row committed
+// after the last event seen can still carry an older timestamp. Catch-up looks back this far
+const CATCH_UP_MARGIN_MS = 60000
+
+export class RealtimeClient {
+    private socket: WebSocket | null = null
+    private status: RealtimeStatus = 'disconnected'
+    private messageRef = 0
+    private joinRef = ''
+    private jobsJoinRef = ''
+    private joinFiltered = false
+    private hasJoinedBefore = false
+    private manualClose = false
+    private reconnectAttempts = 0
+    /** Latest `updated_at` seen (ms), NaN while none is known */
+    private lastEventAt: number
+
+    private heartbeatTimer: ReturnType<typeof setInterval> | null = null
+    private heartbeatTimeoutTimer: ReturnType<typeof setTimeout> | null = null
+    private pendingHeartbeatRef: string | null = null
+    private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+
+    private readonly heartbeatIntervalMs: number
+    private readonly heartbeatTimeoutMs: number
+    private readonly reconnectBaseDelayMs: number
+    private readonly reconnectMaxDelayMs: number
+    private readonly catchUpMarginMs: number
+
+    constructor(private options: RealtimeClientOptions) {
+        this.lastEventAt = options.since ? Date.parse(options.since) : NaN
+        this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? 30000
+        this.heartbeatTimeoutMs = options.heartbeatTimeoutMs ?? 10000
+        this.reconnectBaseDelayMs = options.reconnectBaseDelayMs ?? 1000
+        this.reconnectMaxDelayMs = options.reconnectMaxDelayMs ?? 30000
+        this.catchUpMarginMs = options.catchUpMarginMs ?? CATCH_UP_MARGIN_MS
+    }
+
+    /**
+     * Open the WebSocket and join the channel. Reconnects until `disconnect` is called
+     */
+    connect(): void {
+        this.manualClose = false
+        this.openSocket()
+    }
+
+    /**
+     * Close the connection for good (no reconnect)
+     */
+    disconnect(): void {
+        this.manualClose = true
+        this.clearTimers()
+
+        if (this.socket) {
+            this.socket.close()
+            this.socket = null
+        }
+        this.setStatus('disconnected')
+    }
+
+    getStatus(): RealtimeStatus {
+        return this.status
+    }
+
+    private get WebSocketImpl(): typeof WebSocket {
+        return this.options.WebSocketImpl || WebSocket
+    }
+
+    private get url(): string {
+        return this.options.url ||
+            `wss://${this.options.projectId}.supabase.co/realtime/v1/websocket?apikey=${this.options.apiKey}&vsn=1.0.0`
+    }
+
+    private openSocket(): void {
+        console.log('[Realtime] Connecting to WebSocket:', this.url)
+        this.setStatus('connecting')
+
+        const socket = new this.WebSocketImpl(this.url)
+        this.socket = socket
+
+        socket.onopen = () => {
+            console.log('[Realtime] WebSocket connected')
+            this.startHeartbeat()
+
+            // Join channel filtered by storyboard (falls back to the whole table if the
+            // storyboard_id column is missing, see handleReply)
+            this.sendJoin(true)
+            if (this.options.onJobChange) {
+                this.sendJobsJoin()
+            }
+        }
+
+        socket.onmessage = (event: MessageEvent) => {
+            try {
+                this.handleMessage(JSON.parse(event.data) as PhoenixMessage)
+            } catch (error) {
+                console.error('[Realtime] Error parsing WebSocket message:', error, event.data)
+            }
+        }
+
+        socket.onerror = (error: Event) => {
+            console.error('[Realtime] WebSocket error:', error)
+            this.setStatus('error')
+        }
+
+        socket.onclose = (event: CloseEvent) => {
+            // Ignore close events of sockets we already replaced
+            if (this.socket !== socket) {
+                return
+            }
+
+            console.log('[Realtime] WebSocket closed:', {
+                code: event.code,
+                reason: event.reason,
+                wasClean: event.wasClean
+            })
+
+            this.socket = null
+            this.stopHeartbeat()
+
+            if (this.manualClose) {
+                this.setStatus('disconnected')
+            } else {
+                this.scheduleReconnect()
+            }
+        }
+    }
+
+    private send(message: PhoenixMessage): void {
+        if (this.socket && this.socket.readyState === this.WebSocketImpl.OPEN) {
+            this.socket.send(JSON.stringify(message))
+        }
+    }
+
+    private nextRef(): string {
+        this.messageRef++
+        return this.messageRef.toString()
+    }
+
+    private sendJoin(filtered: boolean): void {
+        this.joinRef = this.nextRef()
+        this.joinFiltered = filtered
+
+        const joinMessage = {
+            event: 'phx_join',
+            topic: CHANNEL_TOPIC,
+            payload: {
+                config: {
+                    postgres_changes: buildPostgresChangesConfig(filtered ? this.options.storyboardId : undefined)
+                }
+            },
+            ref: this.joinRef
+        }
+        console.log('[Realtime] Sending join message:', joinMessage)
+        this.send(joinMessage)
+    }
+
+    private sendJobsJoin(): void {
+        this.jobsJoinRef = this.nextRef()
+        this.send({
+            event: 'phx_join',
+            topic: JOBS_CHANNEL_TOPIC,
+            payload: {
+                config: {
+                    postgres_changes: buildJobChangesConfig(this.options.storyboardId)
+                }
+            },
+            ref: this.jobsJoinRef
+        })
+    }
+
+    private handleMessage(message: PhoenixMessage): void {
+        const { event, topic, payload, ref } = message
+
+        if (topic === JOBS_CHANNEL_TOPIC) {
+            this.handleJobsMessage(message)
+        } else if (event === 'phx_reply') {
+            this.handleReply(payload, ref)
+        } else if (event === 'postgres_changes') {
+            const change = payload as unknown as PostgresChangePayload
+            this.trackEventTime(change)
+            this.options.onChange(change)
+        } else if (event === 'phx_error' || event === 'phx_close') {
+            // Channel crashed or was closed by the server: reconnect the whole socket
+            console.warn('[Realtime] Channel closed by server:', event, payload)
+            this.socket?.close()
+        } else if (event === 'system') {
+            console.log('[Realtime] 📡 System message:', payload)
+        } else {
+            console.log('[Realtime] ⚠️ Unhandled event type:', event, 'payload:', payload)
+        }
+    }
+
+    private handleJobsMessage(message: PhoenixMessage): void {
+        const { event, payload, ref } = message
+
+        if (event === 'phx_reply' && ref === this.jobsJoinRef) {
+            if (payload.status === 'ok') {
+                console.log('[Realtime] ✅ Subscribed to generation jobs')
+                this.options.onJobsSubscribed?.()
+            } else {
+                console.warn('[Realtime] Could not subscribe to generation jobs, is the generation_jobs migration applied?', payload)
+            }
+        } else if (event === 'postgres_changes') {
+            this.options.onJobChange?.(payload as unknown as GenerationJobChangePayload)
+        } else if (event === 'phx_error' || event === 'phx_close') {
+            // Only the optional jobs channel is affected, keep the socket
+            console.warn('[Realtime] Generation jobs channel closed by server:', event, payload)
+        }
+    }
+
+    private handleReply(payload: PhoenixMessage['payload'], ref: string | null): void {
+        // Heartbeat acknowledged
+        if (ref && ref === this.pendingHeartbeatRef) {
+            this.pendingHeartbeatRef = null
+            if (this.heartbeatTimeoutTimer) {
+                clearTimeout(this.heartbeatTimeoutTimer)
+                this.heartbeatTimeoutTimer = null
+            }
+            return
+        }
+
+        if (ref !== this.joinRef) {
+            return
+        }
+
+        if (payload.status === 'ok') {
+            console.log('[Realtime] ✅ Successfully joined channel')
+            this.reconnectAttempts = 0
+            this.setStatus('connected')
+
+            if (this.hasJoinedBefore) {
+                this.catchUp()
+            }
+            this.hasJoinedBefore = true
+        } else if (this.joinFiltered) {
+            console.warn('[Realtime] Filtered join failed, is the storyboard_id migration applied? Joining unfiltered:', payload)
+            this.sendJoin(false)
+        } else {
+            console.error('[Realtime] ❌ Failed to join channel:', payload)
+            this.setStatus('error')
+        }
+    }
+
+    private startHeartbeat(): void {
+        this.stopHeartbeat()
+
+        this.heartbeatTimer = setInterval(() => {
+            if (this.pendingHeartbeatRef) {
+                // Previous heartbeat never answered
+                this.handleHeartbeatTimeout()
+                return
+            }
+
+            this.pendingHeartbeatRef = this.nextRef()
+            this.send({
+                event: 'heartbeat',
+                topic: 'phoenix',
+                payload: {},
+                ref: this.pendingHeartbeatRef
+            })
+
+            this.heartbeatTimeoutTimer = setTimeout(() => this.handleHeartbeatTimeout(), this.heartbeatTimeoutMs)
+        }, this.heartbeatIntervalMs)
+    }
+
+    private stopHeartbeat(): void {
+        if (this.heartbeatTimer) {
+            clearInterval(this.heartbeatTimer)
+            this.heartbeatTimer = null
+        }
+        if (this.heartbeatTimeoutTimer) {
+            clearTimeout(this.heartbeatTimeoutTimer)
+            this.heartbeatTimeoutTimer = null
+        }
+        this.pendingHeartbeatRef = null
+    }
+
+    private handleHeartbeatTimeout(): void {
+        console.warn('[Realtime] Heartbeat timed out, reconnecting...')
+
+        const socket = this.socket
+        this.socket = null
+        this.stopHeartbeat()
+        socket?.close()
+
+        this.scheduleReconnect()
+    }
+
+    private scheduleReconnect(): void {
+        if (this.manualClose || this.reconnectTimer) {
+            return
+        }
+
+        // 1s, 2s, 4s, ... capped, with up to 20% jitter so clients don't reconnect in lockstep
+        const delay = Math.min(
+            this.reconnectBaseDelayMs * Math.pow(2, this.reconnectAttempts),
+            this.reconnectMaxDelayMs
+        )
+        const jitteredDelay = Math.round(delay * (1 + Math.random() * 0.2))
+        this.reconnectAttempts++
+
+        console.log(`[Realtime] Reconnecting in ${jitteredDelay}ms (attempt ${this.reconnectAttempts})`)
+        this.setStatus('connecting')
+
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null
+            this.openSocket()
+        }, jitteredDelay)
+    }
+
+    private clearTimers(): void {
+        this.stopHeartbeat()
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer)
+            this.reconnectTimer = null
+        }
+    }
+
+    // Only the trigger-set updated_at is tracked, the column the catch-up filters on. The commit
+    // time is later than it, so using it would skip rows written by transactions still open.
+    // Formats differ (Z vs +00:00, ms vs µs), so they are compared as times, not strings
+    private trackEventTime(change: PostgresChangePayload): void {
+        const updatedAt = change.data?.record?.updated_at
+        const time = updatedAt ? Date.parse(updatedAt) : NaN
+        if (!isNaN(time) && (isNaN(this.lastEventAt) || time > this.lastEventAt)) {
+            this.lastEventAt = time
+        }
+    }
+
+    private async catchUp(): Promise<void> {
+        const since = isNaN(this.lastEventAt) ? undefined : new Date(this.lastEventAt - this.catchUpMarginMs).toISOString()
+        console.log('[Realtime] Catching up on changes since', since || 'the start')
+
+        try {
+            const fetchRowsSince = this.options.fetchRowsSince ||
+                ((value: string | undefined) => fetchKvRowsUpdatedSince(this.options.projectId, this.options.apiKey, this.options.storyboardId, value))
+            const rows = await fetchRowsSince(since)
+
+            console.log(`[Realtime] Catch-up found ${rows.length} changed row(s)`)
+            for (const row of rows) {
+                const change: PostgresChangePayload = { data: { type: 'UPDATE', record: row } }
+                this.trackEventTime(change)
+                this.options.onChange(change)
+            }
+        } catch (error) {
+            console.error('[Realtime] Catch-up failed:', error)
+        }
+    }
+
+    private setStatus(status: RealtimeStatus): void {
+        if (this.status === status) {
+            return
+        }
+        this.status = status
+        this.options.onStatusChange?.(status)
+    }
+}
+
+/**
+ * Fetch the storyboard, scene and character rows of a storyboard updated since a timestamp
+ * @param projectId Supabase project id
+ * @param apiKey Supabase anon key
+ * @param storyboardId Storyboard whose rows are fetched
+ * @param since ISO 8601 server timestamp compared with the `updated_at` column (inclusive, as
+ * timestamps are tracked in ms); all rows when omitted
+ * @returns The changed rows
+ */
+export async function fetchKvRowsUpdatedSince(
+    projectId: string,
+    apiKey: string,
+    storyboardId: string,
+    since: string | undefined
+): Promise<KvRecord[]> {
+    const keyFilter = `(key.eq."storyboard_v2:${storyboardId}",key.like."scene:${storyboardId}:*",key.like."character:${storyboardId}:*")`
+    const url = `https://${projectId}.supabase.co/rest/v1/kv_store_7ee7668a` +
+        `?select=key,value,updated_at&or=${encodeURIComponent(keyFilter)}` +
+        (since ? `&updated_at=gte.${encodeURIComponent(since)}` : '')
+
+    const response = await fetch(url, {
+        method: 'GET',
+        headers: {
+            'apikey': apiKey,
+            'Authorization': `Bearer ${apiKey}`
+        }
+    })
+
+    if (!response.ok) {
+        throw new Error(`Failed to fetch changed rows: ${response.status}`)
+    }
+
+    return await response.json()
+}
\ No newline at end of file
@@ -0,0 +1,165 @@
+import { Scene, Character, StoryboardV2, UIToPluginMessage } from '../../../plugin/types'
+
+/**
+ * Routes Supabase Realtime changes of `kv_store_7ee7668a` to plugin messages.
+ *
+ * Every entity lives in the same table, so the row key tells what changed:
+ * - `scene:{storyboardId}:{sceneId}`
+ * - `character:{storyboardId}:{characterId}`
+ * - `storyboard_v2:{storyboardId}`
+ */
+
+export type KvEntityType = 'scene' | 'character' | 'storyboard'
+
+export interface KvKey {
+    entityType: KvEntityType
+    storyboardId: string
+    entityId: string
+}
+
+export interface KvRecord {
+    key?: string
+    value?: Scene | Character | StoryboardV2
+    /** Server write time (trigger-set column, see migration `20251120_add_kv_updated_at.sql`) */
+    updated_at?: string
+}
+
+export interface PostgresChangePayload {
+    data: {
+        type: 'INSERT' | 'UPDATE' | 'DELETE'
+        record?: KvRecord
+        old_record?: KvRecord
+        commit_timestamp?: string
+        old?: unknown
+        columns?: unknown
+    }
+}
+
+export type RoutedChange = Extract<UIToPluginMessage, {
+    type:
+        | 'scene-inserted'
+        | 'scene-updated'
+        | 'scene-deleted'
+        | 'character-inserted'
+        | 'character-updated'
+        | 'character-deleted'
+        | 'storyboard-updated'
+}>
+
+/**
+ * Parse a kv_store key into entity type, storyboard id and entity id
+ * @param key Row key, e.g. `scene:sb-1:scene-3`
+ * @returns The parsed key, or null for keys of other entities
+ */
+export function parseKvKey(key: string): KvKey | null {
+    const firstColon = key.indexOf(':')
+    if (firstColon === -1) {
+        return null
+    }
+
+    const prefix = key.slice(0, firstColon)
+    const rest = key.slice(firstColon + 1)
+
+    if (prefix === 'storyboard_v2') {
+        return { entityType: 'storyboard', storyboardId: rest, entityId: rest }
+    }
+
+    if (prefix === 'scene' || prefix === 'character') {
+        const secondColon = rest.indexOf(':')
+        if (secondColon === -1) {
+            return null
+        }
+        return {
+            entityType: prefix,
+            storyboardId: rest.slice(0, secondColon),
+            entityId: rest.slice(secondColon + 1)
+        }
+    }
+
+    return null
+}
+
+/**
+ * Build the Realtime `postgres_changes` subscription for one storyboard.
+ *
+ * INSERT/UPDATE are filtered server-side on the generated `storyboard_id` column
+ * (see migration `20251110_add_kv_storyboard_id.sql`). Realtime can't filter DELETE
+ * events, so those are filtered on the client by `routePostgresChange`.
+ * @param storyboardId Storyboard to listen to, or undefined for the whole table
+ */
+export function buildPostgresChangesConfig(storyboardId?: string) {
+    const base = { schema: 'public', table: 'kv_store_7ee7668a' }
+
+    if (!storyboardId) {
+        return [{ event: '*', ...base }]
+    }
+
+    const filter = `storyboard_id=eq.${storyboardId}`
+    return [
+        { event: 'INSERT', ...base, filter },
+        { event: 'UPDATE', ...base, filter },
+        { event: 'DELETE', ...base }
+    ]
+}
+
+/**
+ * Turn a postgres change into the message the plugin understands
+ * @param payload The `postgres_changes` payload from Realtime
+ * @param storyboardId The currently synced storyboard; changes of other storyboards are ignored
+ * @returns The plugin message, or null if the change is irrelevant
+ */
+export function routePostgresChange(payload: PostgresChangePayload, storyboardId: string): RoutedChange | null {
+    const change = payload.data
+    if (!change || !change.type) {
+        console.log('[UI] ❌ Invalid change payload - missing type')
+        return null
+    }
+
+    const row = change.type === 'DELETE' ? change.old_record : change.record
+    if (!row || !row.key) {
+        console.log('[UI] ❌ No row key found in change:', change.type)
+        return null
+    }
+
+    const kvKey = parseKvKey(row.key)
+    if (!kvKey) {
+        return null
+    }
+
+    if (kvKey.storyboardId !== storyboardId) {
+        console.log('[UI] Ignoring change from another storyboard:', row.key)
+        return null
+    }
+
+    if (change.type === 'DELETE') {
+        switch (kvKey.entityType) {
+        case 'scene':
+            return { type: 'scene-deleted', sceneId: kvKey.entityId }
+        case 'character':
+            return { type: 'character-deleted', characterId: kvKey.entityId }
+        default:
+            // Deleting the storyboard row leaves the canvas as is
+            return null
+        }
+    }
+
+    if (!row.value) {
+        console.log('[UI] ❌ No value found in change:', row.key)
+        return null
+    }
+
+    switch (kvKey.entityType) {
+    case 'scene':
+        return {
+            type: change.type === 'INSERT' ? 'scene-inserted' : 'scene-updated',
+            scene: row.value as Scene
+        }
+    case 'character':
+        return {
+            type: change.type === 'INSERT' ? 'character-inserted' : 'character-updated',
+            character: row.value as Character
+        }
+    case 'storyboard':
+        return { type: 'storyboard-updated', storyboard: row.value as StoryboardV2 }
+    }
+}
\ No newline at end of file
@@ -0,0 +1,24 @@
+/**
+ * Scene stickies edited on the canvas.
+ *
+ * The plugin posts `scene-edited` with only the fields that changed; the UI merges them into the
+ * stored scene with `update_scene_fields` (see migration `20251121_add_update_scene_fields.sql`),
+ * so media written by the workers in the meantime is kept. If the save fails the UI sends the
+ * plugin the last known scene (`restore-scene`) to put the sticky back.
+ */
+
+import { callRpc } from './supabaseRpc'
+import { Scene, SceneEdit } from '../../../plugin/types'
+
+/**
+ * Save the edited fields of a scene
+ * @returns The saved scene
+ */
+export async function saveSceneEdit(projectId: string, apiKey: string, edit: SceneEdit): Promise<Scene> {
+    return await callRpc<Scene>(projectId, apiKey, 'update_scene_fields', {
+        storyboard_id: edit.storyboardId,
+        scene_id: edit.sceneId,
+        changes: edit.changes,
+        updated_at: edit.updatedAt
+    })
+}
\ No newline at end of file
@@ -0,0 +1,28 @@
+/**
+ * Scenes reordered on the canvas.
+ *
+ * When stickies are dragged into a new order (or into another act section) the plugin reads the
+ * new numbers and posts `scenes-reordered`; the UI writes the new `sceneNumber` / `actNumber` of
+ * every changed scene in one `renumber_scenes` call (see migration `20251119_add_renumber_scenes.sql`)
+ * and only then has the plugin apply them (`reorder-scenes`). The numbers they replaced are kept
+ * for undo, which is saved and applied the same way.
+ */
+
+import { callRpc } from './supabaseRpc'
+import { SceneReorder } from '../../../plugin/types'
+
+/**
+ * Save a reorder in one transaction
+ * @returns How many scenes were updated (0 without a call when there is nothing to renumber)
+ */
+export async function saveSceneReorder(projectId: string, apiKey: string, reorder: SceneReorder): Promise<number> {
+    if (reorder.scenes.length === 0) {
+        return 0
+    }
+
+    return await callRpc<number>(projectId, apiKey, 'renumber_scenes', {
+        storyboard_id: reorder.storyboardId,
+        scenes: reorder.scenes,
+        updated_at: reorder.updatedAt
+    })
+}
\ No newline at end of file
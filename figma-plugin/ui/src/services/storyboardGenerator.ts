@@ -0,0 +1,58 @@
+/**
+ * Client for the `generate-storyboard` edge function.
+ *
+ * The function asks the model for a whole storyboard (acts, characters, scenes) from a
+ * logline, validates it and writes the kv rows itself, so the UI only has to select and
+ * sync the new storyboard afterwards.
+ */
+
+export interface GenerateStoryboardRequest {
+    logline: string
+    /** Formatted Figma context (see formatFigmaContext in App.tsx) */
+    context?: string
+    sceneCount?: number
+    genre?: string
+    /** Enqueue one image generation job per scene */
+    enqueueImages?: boolean
+}
+
+export interface GenerateStoryboardResult {
+    storyboardId: string
+    name: string
+    sceneCount: number
+    characterCount: number
+    imageJobs: number
+    /** Batch of the image jobs (null without enqueueImages) */
+    imageBatchId: string | null
+}
+
+/**
+ * Generate a storyboard from a logline
+ * @param projectId Supabase project id
+ * @param anonKey Supabase anon key
+ * @param request Logline and generation options
+ * @returns Summary of what was written to the database
+ */
+export async function generateStoryboard(
+    projectId: string,
+    anonKey: string,
+    request: GenerateStoryboardRequest
+): Promise<GenerateStoryboardResult> {
+    const response = await fetch(`https://${projectId}.supabase.co/functions/v1/generate-storyboard`, {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${anonKey}`,
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(request)
+    })
+
+    const result = await response.json().catch(() => ({}))
+
+    if (!response.ok) {
+        const details = Array.isArray(result.details) ? `: ${result.details.slice(0, 3).join('; ')}` : ''
+        throw new Error(`${result.error || `Failed to generate storyboard: ${response.status}`}${details}`)
+    }
+
+    return result as GenerateStoryboardResult
+}
\ No newline at end of file
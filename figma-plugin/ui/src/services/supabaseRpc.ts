@@ -0,0 +1,24 @@
+/**
+ * Call a Postgres function through the Supabase REST API (`/rest/v1/rpc/<name>`)
+ * @param projectId Supabase project id
+ * @param apiKey Supabase anon key
+ * @param name Function name
+ * @param params Named function arguments
+ */
+export async function callRpc<T>(projectId: string, apiKey: string, name: string, params: object): Promise<T> {
+    const response = await fetch(`https://${projectId}.supabase.co/rest/v1/rpc/${name}`, {
+        method: 'POST',
+        headers: {
+            'apikey': apiKey,
+            'Authorization': `Bearer ${apiKey}`,
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(params)
+    })
+
+    if (!response.ok) {
+        throw new Error(`${name} failed: ${response.status}`)
+    }
+
+    return await response.json()
+}
\ No newline at end of file
@@ -0,0 +1,58 @@
+// Fetching images for model requests (source images, references)
+
+import { GenerationError, isRetryableStatus } from './retry.ts'
+import { InlineImage } from './providers/types.ts'
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  // Chunked: spreading a whole image into String.fromCharCode overflows the stack
+  let binary = ''
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000))
+  }
+  return btoa(binary)
+}
+
+export function base64ToBytes(data: string): Uint8Array {
+  const binaryString = atob(data)
+  const bytes = new Uint8Array(binaryString.length)
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i)
+  }
+  return bytes
+}
+
+/**
+ * Download an image for a model request
+ * @throws GenerationError, retryable only for 408/429/5xx (a 404 source image stays broken)
+ */
+export async function fetchInlineImage(url: string): Promise<InlineImage> {
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new GenerationError(
+      `Image could not be fetched (${url}): ${response.status}`,
+      isRetryableStatus(response.status),
+      response.status
+    )
+  }
+
+  const blob = await response.blob()
+  return {
+    data: bytesToBase64(new Uint8Array(await blob.arrayBuffer())),
+    mimeType: blob.type || 'image/png'
+  }
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+
+/**
+ * Pixel size of a generated image, read from the PNG header (IHDR)
+ * @returns null for other formats (the size is informational only)
+ */
+export function imageSize(bytes: Uint8Array): { width: number; height: number } | null {
+  if (bytes.length < 24 || PNG_SIGNATURE.some((byte, i) => bytes[i] !== byte)) {
+    return null
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  return { width: view.getUint32(16), height: view.getUint32(20) }
+}
@@ -0,0 +1,106 @@
+// Progress of generation jobs in public.generation_jobs (see 20251111_add_generation_jobs.sql)
+// One row per queue message; pgmq_send creates it as 'queued', the workers move it on.
+
+export const JOBS_TABLE = 'generation_jobs'
+
+export type JobStatus = 'queued' | 'running' | 'polling' | 'uploading' | 'done' | 'failed'
+
+export type JobKind = 'image' | 'video'
+
+// Message fields the job row is filled from (image and video queue messages share them)
+export interface JobMessage {
+  msg_id: number | bigint
+  read_ct: number
+  message: {
+    storyboardId?: string
+    sceneId?: string
+    characterId?: string
+    prompt?: string
+    /** Set on jobs enqueued together (enqueue_storyboard_images) */
+    batchId?: string
+  }
+}
+
+export interface JobUpdate {
+  status: JobStatus
+  model?: string
+  error?: string | null
+  output_url?: string
+  /** Veo operation being polled (video jobs) */
+  operation_name?: string | null
+}
+
+export interface JobRow {
+  status: JobStatus
+  model: string | null
+  operation_name: string | null
+}
+
+/**
+ * Read the job behind a queue message
+ * @returns null if there is no row (or it could not be read)
+ */
+export async function getJob(supabase: any, queueName: string, msgId: number | bigint): Promise<JobRow | null> {
+  const { data, error } = await supabase
+    .from(JOBS_TABLE)
+    .select('status, model, operation_name')
+    .eq('queue_name', queueName)
+    .eq('msg_id', Number(msgId))
+    .maybeSingle()
+
+  if (error) {
+    console.error(`Failed to read job ${queueName}/${msgId}:`, error)
+    return null
+  }
+
+  return data
+}
+
+/**
+ * Record a status change of the job behind a queue message
+ * Upserts by (queue_name, msg_id), so messages enqueued without pgmq_send still get a row.
+ * Failures are only logged: job tracking must never fail the generation itself.
+ * @param supabase Service role client
+ * @param queueName Queue the message was read from
+ * @param kind 'image' or 'video'
+ * @param message The queue message (read_ct becomes the attempt number)
+ * @param update New status and whatever else is known at this point
+ */
+export async function updateJob(
+  supabase: any,
+  queueName: string,
+  kind: JobKind,
+  message: JobMessage,
+  update: JobUpdate
+): Promise<void> {
+  const { storyboardId, sceneId, characterId, prompt, batchId } = message.message
+
+  const { error } = await supabase
+    .from(JOBS_TABLE)
+    .upsert({
+      queue_name: queueName,
+      msg_id: Number(message.msg_id),
+      kind,
+      storyboard_id: storyboardId ?? null,
+      scene_id: sceneId ?? null,
+      character_id: characterId ?? null,
+      prompt: prompt ?? null,
+      batch_id: batchId ?? null,
+      attempt: message.read_ct,
+      ...update
+    }, { onConflict: 'queue_name,msg_id' })
+
+  if (error) {
+    console.error(`Failed to update job ${queueName}/${message.msg_id} to ${update.status}:`, error)
+  }
+}
+
+export function errorMessage(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message
+  }
+  if (error && typeof error === 'object' && 'message' in error) {
+    return String((error as { message: unknown }).message)
+  }
+  return String(error)
+}
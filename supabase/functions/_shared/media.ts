@@ -0,0 +1,50 @@
+// Generated media rows (public.media): one row per stored image/video, linked to its scene.
+// Every generation adds a row, so the rows of a scene are its history (newest first); the
+// scene points at its current image with `mediaId` and at its current video with `videoMediaId`.
+
+export const MEDIA_TABLE = 'media'
+
+export type MediaType = 'image' | 'video'
+
+export interface NewMedia {
+  type: MediaType
+  url: string
+  /** Video poster / thumbnail; images are their own preview */
+  preview_url?: string | null
+  prompt: string
+  model?: string | null
+  width?: number | null
+  height?: number | null
+  storyboard_id: string
+  scene_id?: string | null
+  character_id?: string | null
+  /** Rows generated together by one job (variants to pick from) */
+  variant_group?: string | null
+  variant_index?: number | null
+  /** References used, source image of edits, ... */
+  metadata?: Record<string, unknown>
+}
+
+// Scene metadata while its variants wait for a pick (cleared by pick_media_variant)
+export interface SceneImageVariants {
+  group: string
+  variants: { mediaId: string; url: string }[]
+  createdAt: string
+}
+
+/**
+ * Insert completed media rows
+ * @returns Ids in the order of the given rows
+ */
+export async function insertMedia(supabase: any, rows: NewMedia[]): Promise<string[]> {
+  const { data, error } = await supabase
+    .from(MEDIA_TABLE)
+    .insert(rows.map(row => ({ ...row, status: 'completed' })))
+    .select('id')
+
+  if (error) {
+    throw new Error(`Failed to insert media: ${error.message}`)
+  }
+
+  return (data || []).map((row: { id: string }) => row.id)
+}
@@ -0,0 +1,58 @@
+// Model priority lists from the environment
+// IMAGE_MODELS / VIDEO_MODELS: comma-separated model ids tried in order; 'mock' selects the
+// offline placeholder provider (e.g. IMAGE_MODELS=mock for a local Supabase without API keys).
+
+import { GenerationError, isRetryable } from '../retry.ts'
+import { errorMessage } from '../jobs.ts'
+
+export const DEFAULT_IMAGE_MODELS = ['gemini-2.5-flash-image-preview']
+
+// Fast models only (full VEO 3.1 reserved for VIP plans: veo-3.1-generate-preview)
+export const DEFAULT_VIDEO_MODELS = [
+  'veo-3.1-fast-generate-preview',
+  'veo-3.0-fast-generate-001',
+  'veo-2.0-generate-001'
+]
+
+export function modelPriority(envName: string, defaults: string[]): string[] {
+  const configured = (Deno.env.get(envName) || '')
+    .split(',')
+    .map(model => model.trim())
+    .filter(model => model !== '')
+  return configured.length > 0 ? configured : defaults
+}
+
+export function requireApiKey(apiKey: string | undefined, models: string[]): string {
+  if (!apiKey) {
+    throw new Error(`GOOGLE_GENERATIVE_AI_API_KEY not configured (needed for ${models.join(', ')})`)
+  }
+  return apiKey
+}
+
+/**
+ * Run an attempt against each provider in priority order until one succeeds
+ * The final error is retryable if any provider failed for a retryable reason (quota, 5xx).
+ */
+export async function withFallback<P extends { model: string }, R>(
+  providers: P[],
+  attempt: (provider: P) => Promise<R>
+): Promise<R> {
+  let lastError: unknown = null
+  let retryableFailure = false
+
+  for (const provider of providers) {
+    try {
+      console.log(`Calling ${provider.model}...`)
+      return await attempt(provider)
+    } catch (error) {
+      console.error(`${provider.model} failed:`, error)
+      lastError = error
+      retryableFailure = retryableFailure || isRetryable(error)
+    }
+  }
+
+  if (providers.length === 1) {
+    throw lastError
+  }
+  throw new GenerationError(errorMessage(lastError) || 'No model configured', retryableFailure)
+}
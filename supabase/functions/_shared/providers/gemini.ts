@@ -0,0 +1,63 @@
+// Gemini image models (generateContent with inline images)
+
+import { GoogleGenAI } from 'npm:@google/genai'
+import { GenerationError } from '../retry.ts'
+import { base64ToBytes } from '../images.ts'
+import { GeneratedImage, ImageProvider, ImageRequest } from './types.ts'
+
+export const GEMINI_PROVIDER = 'gemini'
+
+// Finish reasons that mean the prompt or image was refused (retrying won't help)
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'IMAGE_SAFETY', 'BLOCKLIST', 'SPII']
+
+export class GeminiImageProvider implements ImageProvider {
+  readonly name = GEMINI_PROVIDER
+  private ai: GoogleGenAI
+
+  constructor(apiKey: string, readonly model: string) {
+    this.ai = new GoogleGenAI({ apiKey })
+  }
+
+  async generate(request: ImageRequest): Promise<GeneratedImage> {
+    const contents: any[] = []
+
+    if (request.sourceImage) {
+      contents.push({ image: { inlineData: request.sourceImage } })
+    }
+    for (const reference of request.referenceImages || []) {
+      contents.push({ inlineData: reference })
+    }
+    // No negative prompt parameter for Gemini image models: spelled out in the prompt
+    const text = request.negativePrompt
+      ? `${request.prompt}\n\nAvoid: ${request.negativePrompt}.`
+      : request.prompt
+    contents.push({ text })
+
+    const response = await this.ai.models.generateContent({
+      model: this.model,
+      contents
+    })
+
+    const blockReason = response.promptFeedback?.blockReason
+    if (blockReason) {
+      throw new GenerationError(`Prompt blocked by safety filter: ${blockReason}`, false)
+    }
+
+    const candidate = response.candidates?.[0]
+    if (candidate?.finishReason && BLOCKED_FINISH_REASONS.indexOf(candidate.finishReason) !== -1) {
+      throw new GenerationError(`Image blocked by safety filter: ${candidate.finishReason}`, false)
+    }
+
+    for (const part of candidate?.content?.parts || []) {
+      if (part.inlineData?.data) {
+        return {
+          bytes: base64ToBytes(part.inlineData.data),
+          mimeType: part.inlineData.mimeType || 'image/png',
+          model: this.model
+        }
+      }
+    }
+
+    throw new Error('No image generated in response')
+  }
+}
@@ -0,0 +1,23 @@
+// Image providers in priority order (IMAGE_MODELS)
+
+import { DEFAULT_IMAGE_MODELS, modelPriority, requireApiKey, withFallback } from './config.ts'
+import { GeminiImageProvider } from './gemini.ts'
+import { MOCK_PROVIDER, MockImageProvider } from './mock.ts'
+import { GeneratedImage, ImageProvider, ImageRequest } from './types.ts'
+
+/**
+ * @param apiKey Google API key (only needed for Gemini models)
+ */
+export function createImageProviders(apiKey?: string): ImageProvider[] {
+  const models = modelPriority('IMAGE_MODELS', DEFAULT_IMAGE_MODELS)
+  return models.map(model => model === MOCK_PROVIDER
+    ? new MockImageProvider()
+    : new GeminiImageProvider(requireApiKey(apiKey, models), model))
+}
+
+/**
+ * Generate with the first provider that succeeds
+ */
+export function generateImage(providers: ImageProvider[], request: ImageRequest): Promise<GeneratedImage> {
+  return withFallback(providers, provider => provider.generate(request))
+}
@@ -0,0 +1,200 @@
+// Deterministic offline providers: placeholder PNG/MP4 bytes derived from the prompt, so the
+// queue → storage → kv pipeline can be tested against a local Supabase without model calls.
+// Enable with IMAGE_MODELS=mock / VIDEO_MODELS=mock.
+
+import {
+  GeneratedImage,
+  ImageProvider,
+  ImageRequest,
+  VideoOperation,
+  VideoPollResult,
+  VideoProvider,
+  VideoRequest
+} from './types.ts'
+
+export const MOCK_PROVIDER = 'mock'
+export const MOCK_OPERATIONS_PREFIX = 'mock-operations'
+
+const PLACEHOLDER_WIDTH = 320
+const PLACEHOLDER_HEIGHT = 180
+const PLACEHOLDER_DURATION_MS = 8000
+
+// FNV-1a, enough to turn a prompt into a stable color/id
+function hashString(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193) >>> 0
+  }
+  return hash
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function adler32(bytes: Uint8Array): number {
+  let a = 1
+  let b = 0
+  for (let i = 0; i < bytes.length; i++) {
+    a = (a + bytes[i]) % 65521
+    b = (b + a) % 65521
+  }
+  return ((b << 16) | a) >>> 0
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    result.set(part, offset)
+    offset += part.length
+  }
+  return result
+}
+
+function uint32(value: number): Uint8Array {
+  return new Uint8Array([(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff])
+}
+
+function ascii(value: string): Uint8Array {
+  return new TextEncoder().encode(value)
+}
+
+// zlib stream with uncompressed (stored) deflate blocks: no compressor needed, always the same bytes
+function zlibStore(data: Uint8Array): Uint8Array {
+  const parts: Uint8Array[] = [new Uint8Array([0x78, 0x01])]
+  for (let offset = 0; offset < data.length || offset === 0; offset += 0xffff) {
+    const block = data.subarray(offset, Math.min(offset + 0xffff, data.length))
+    const isLast = offset + 0xffff >= data.length
+    parts.push(new Uint8Array([
+      isLast ? 1 : 0,
+      block.length & 0xff,
+      (block.length >>> 8) & 0xff,
+      ~block.length & 0xff,
+      (~block.length >>> 8) & 0xff
+    ]))
+    parts.push(block)
+  }
+  parts.push(uint32(adler32(data)))
+  return concat(parts)
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const typeAndData = concat([ascii(type), data])
+  return concat([uint32(data.length), typeAndData, uint32(crc32(typeAndData))])
+}
+
+/**
+ * Solid-color PNG (color from the seed) with a darker frame, like an empty storyboard panel
+ */
+export function placeholderPng(seed: string, width = PLACEHOLDER_WIDTH, height = PLACEHOLDER_HEIGHT): Uint8Array {
+  const hash = hashString(seed)
+  const color = [(hash >>> 16) & 0xff, (hash >>> 8) & 0xff, hash & 0xff].map(value => 96 + (value % 128))
+  const border = color.map(value => value - 64)
+  const borderSize = Math.max(2, Math.round(Math.min(width, height) / 30))
+
+  const raw = new Uint8Array((width * 3 + 1) * height)
+  for (let y = 0; y < height; y++) {
+    const row = y * (width * 3 + 1)
+    raw[row] = 0 // filter: none
+    for (let x = 0; x < width; x++) {
+      const isBorder = x < borderSize || y < borderSize || x >= width - borderSize || y >= height - borderSize
+      const pixel = isBorder ? border : color
+      raw.set(pixel, row + 1 + x * 3)
+    }
+  }
+
+  const header = concat([uint32(width), uint32(height), new Uint8Array([8, 2, 0, 0, 0])])  // 8-bit RGB
+
+  return concat([
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlibStore(raw)),
+    pngChunk('IEND', new Uint8Array(0))
+  ])
+}
+
+function mp4Box(type: string, ...payload: Uint8Array[]): Uint8Array {
+  const body = concat(payload)
+  return concat([uint32(body.length + 8), ascii(type), body])
+}
+
+/**
+ * Structurally valid MP4 without tracks (ftyp + moov/mvhd + free box with the seed):
+ * enough for storage, kv updates and players to accept it as an empty 8s clip
+ */
+export function placeholderMp4(seed: string, durationMs = PLACEHOLDER_DURATION_MS): Uint8Array {
+  const identityMatrix = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000]
+
+  const mvhd = mp4Box(
+    'mvhd',
+    uint32(0),  // version 0, no flags
+    uint32(0),  // creation time
+    uint32(0),  // modification time
+    uint32(1000),  // timescale: ms
+    uint32(durationMs),
+    uint32(0x00010000),  // rate 1.0
+    new Uint8Array([0x01, 0x00]),  // volume 1.0
+    new Uint8Array(10),  // reserved
+    ...identityMatrix.map(uint32),
+    new Uint8Array(24),  // pre_defined
+    uint32(1)  // next track id
+  )
+
+  return concat([
+    mp4Box('ftyp', ascii('isom'), uint32(0x200), ascii('isomiso2mp41')),
+    mp4Box('moov', mvhd),
+    mp4Box('free', ascii(`superstoryboard placeholder ${hashString(seed).toString(16)}`))
+  ])
+}
+
+export class MockImageProvider implements ImageProvider {
+  readonly name = MOCK_PROVIDER
+  readonly model = 'mock-image'
+
+  generate(request: ImageRequest): Promise<GeneratedImage> {
+    const seed = [
+      request.prompt,
+      request.sourceImage ? 'edit' : 'new',
+      (request.referenceImages || []).length,
+      request.variant || 0
+    ].join('|')
+    return Promise.resolve({ bytes: placeholderPng(seed), mimeType: 'image/png', model: this.model })
+  }
+}
+
+export class MockVideoProvider implements VideoProvider {
+  readonly name = MOCK_PROVIDER
+  readonly model = 'mock-video'
+
+  start(request: VideoRequest): Promise<VideoOperation> {
+    const id = hashString(`${request.prompt}|${request.image ? 'image' : 'text'}`).toString(16)
+    return Promise.resolve({ provider: this.name, name: `${MOCK_OPERATIONS_PREFIX}/${id}`, model: this.model })
+  }
+
+  // Done on the first poll
+  poll(operation: VideoOperation): Promise<VideoPollResult> {
+    return Promise.resolve({ done: true, videoUri: `mock://${operation.name}` })
+  }
+
+  download(videoUri: string): Promise<Uint8Array> {
+    return Promise.resolve(placeholderMp4(videoUri))
+  }
+}
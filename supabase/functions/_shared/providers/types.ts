@@ -0,0 +1,77 @@
+// Image/video model providers used by process-image-generation and process-video-generation
+// The workers build prompts, fetch source images and handle queues, jobs and storage;
+// a provider only talks to one model (or returns placeholder bytes, see mock.ts).
+
+// Image passed to a model inline (base64)
+export interface InlineImage {
+  data: string
+  mimeType: string
+}
+
+export interface ImageRequest {
+  /** Full prompt text, templates already applied */
+  prompt: string
+  /** What the image should not contain (style preset) */
+  negativePrompt?: string
+  /** Image to edit (image-to-image) */
+  sourceImage?: InlineImage
+  /** Extra images the model should match (characters, then the style reference) */
+  referenceImages?: InlineImage[]
+  /** Index when several variants are generated for one job (lets deterministic providers differ) */
+  variant?: number
+}
+
+export interface GeneratedImage {
+  bytes: Uint8Array
+  mimeType: string
+  /** Model that produced the image (stored on the job) */
+  model: string
+}
+
+export interface ImageProvider {
+  /** Provider id, e.g. 'gemini' or 'mock' */
+  readonly name: string
+  /** Model label for jobs and logs */
+  readonly model: string
+  /**
+   * @throws GenerationError with retryable = false when retrying can't help (safety block, 400)
+   */
+  generate(request: ImageRequest): Promise<GeneratedImage>
+}
+
+export interface VideoRequest {
+  prompt: string
+  negativePrompt?: string
+  /** First frame (image-to-video) */
+  image?: InlineImage
+  aspectRatio?: '16:9' | '9:16' | '1:1'
+  resolution?: '720p' | '1080p'
+  durationSeconds?: number
+}
+
+// A started long-running generation; persisted in video_poll_queue between runs
+export interface VideoOperation {
+  /** Provider that started it (polls go to the same provider) */
+  provider: string
+  name: string
+  model: string
+}
+
+export type VideoPollResult =
+  | { done: false }
+  | { done: true; videoUri: string }
+  // Ended without a video (failed or blocked): only a new operation can help
+  | { done: true; error: Error }
+
+export interface VideoProvider {
+  readonly name: string
+  readonly model: string
+  start(request: VideoRequest): Promise<VideoOperation>
+  /**
+   * Failed and blocked operations are results (with a GenerationError telling whether a new
+   * operation is worth it)
+   * @throws GenerationError when the operation could not be checked; it may still be running
+   */
+  poll(operation: VideoOperation): Promise<VideoPollResult>
+  download(videoUri: string): Promise<Uint8Array>
+}
@@ -0,0 +1,137 @@
+// Veo video models (predictLongRunning + operations REST API)
+
+import { GenerationError, isRetryableStatus } from '../retry.ts'
+import { VideoOperation, VideoPollResult, VideoProvider, VideoRequest } from './types.ts'
+
+export const VEO_PROVIDER = 'veo'
+
+const API_BASE = 'https://generativelanguage.googleapis.com/v1beta'
+
+// Always 8 seconds (required for 1080p, works for all resolutions)
+const DEFAULT_DURATION_SECONDS = 8
+
+// google.rpc codes of a failed operation that retrying won't fix
+// (INVALID_ARGUMENT, PERMISSION_DENIED, FAILED_PRECONDITION)
+const PERMANENT_OPERATION_CODES = [3, 7, 9]
+
+// Labels stored as the job model / scene videoModel
+const MODEL_LABELS: Record<string, string> = {
+  'veo-3.1-generate-preview': 'VEO 3.1 Full',
+  'veo-3.1-fast-generate-preview': 'VEO 3.1 Fast',
+  'veo-3.0-fast-generate-001': 'VEO 3.0 Fast',
+  'veo-2.0-generate-001': 'VEO 2.0'
+}
+
+export class VeoVideoProvider implements VideoProvider {
+  readonly name = VEO_PROVIDER
+  readonly model: string
+
+  constructor(private apiKey: string, private modelId: string) {
+    this.model = MODEL_LABELS[modelId] || modelId
+  }
+
+  async start(request: VideoRequest): Promise<VideoOperation> {
+    const parameters: Record<string, unknown> = {
+      aspectRatio: request.aspectRatio || '16:9',
+      durationSeconds: request.durationSeconds || DEFAULT_DURATION_SECONDS
+    }
+    // VEO 2.0 doesn't support the resolution parameter
+    if (!this.modelId.startsWith('veo-2')) {
+      parameters.resolution = request.resolution || '720p'
+    }
+
+    const instance: Record<string, unknown> = { prompt: request.prompt }
+    if (request.negativePrompt) {
+      instance.negativePrompt = request.negativePrompt
+    }
+    if (request.image) {
+      // Experimental - format might need adjustment
+      instance.image = { bytesBase64Encoded: request.image.data, mimeType: request.image.mimeType }
+    }
+
+    const response = await fetch(`${API_BASE}/models/${this.modelId}:predictLongRunning`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': this.apiKey
+      },
+      body: JSON.stringify({ instances: [instance], parameters })
+    })
+
+    const data = await response.json().catch(() => ({}))
+
+    if (!response.ok) {
+      console.error(`${this.model} API error:`, data)
+      const reason = response.status === 429 ? 'quota exceeded' : `${response.status} - ${JSON.stringify(data)}`
+      throw new GenerationError(`${this.model} failed: ${reason}`, isRetryableStatus(response.status), response.status)
+    }
+
+    return { provider: this.name, name: data.name, model: this.model }
+  }
+
+  async poll(operation: VideoOperation): Promise<VideoPollResult> {
+    const response = await fetch(`${API_BASE}/${operation.name}`, {
+      headers: { 'x-goog-api-key': this.apiKey }
+    })
+
+    if (!response.ok) {
+      throw new GenerationError(
+        `Failed to check operation ${operation.name}: ${response.status}`,
+        isRetryableStatus(response.status),
+        response.status
+      )
+    }
+
+    const status = await response.json()
+    if (!status.done) {
+      return { done: false }
+    }
+
+    if (status.error) {
+      return {
+        done: true,
+        error: new GenerationError(
+          `Video generation failed: ${status.error.message}`,
+          PERMANENT_OPERATION_CODES.indexOf(status.error.code) === -1
+        )
+      }
+    }
+
+    const videoResponse = status.response?.generateVideoResponse
+    if (videoResponse?.raiMediaFilteredCount > 0) {
+      const reasons = (videoResponse.raiMediaFilteredReasons || []).join('; ')
+      return { done: true, error: new GenerationError(`Video blocked by safety filter: ${reasons || 'no reason given'}`, false) }
+    }
+
+    // Try different paths where video URL might be
+    const videoUri =
+      videoResponse?.generatedSamples?.[0]?.video?.uri ||
+      status.response?.generatedSamples?.[0]?.video?.uri ||
+      status.response?.video?.uri ||
+      status.response?.predictions?.[0]?.uri
+
+    if (!videoUri) {
+      console.log('Response structure:', JSON.stringify(status.response, null, 2))
+      return { done: true, error: new Error('No video URL in response') }
+    }
+
+    return { done: true, videoUri }
+  }
+
+  async download(videoUri: string): Promise<Uint8Array> {
+    // Generated files need the API key
+    const response = await fetch(videoUri, {
+      headers: { 'x-goog-api-key': this.apiKey }
+    })
+
+    if (!response.ok) {
+      throw new GenerationError(
+        `Failed to download video: ${response.status}`,
+        isRetryableStatus(response.status),
+        response.status
+      )
+    }
+
+    return new Uint8Array(await response.arrayBuffer())
+  }
+}
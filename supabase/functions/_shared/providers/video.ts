@@ -0,0 +1,37 @@
+// Video providers in priority order (VIDEO_MODELS)
+
+import { DEFAULT_VIDEO_MODELS, modelPriority, requireApiKey, withFallback } from './config.ts'
+import { MOCK_OPERATIONS_PREFIX, MOCK_PROVIDER, MockVideoProvider } from './mock.ts'
+import { VEO_PROVIDER, VeoVideoProvider } from './veo.ts'
+import { VideoOperation, VideoProvider, VideoRequest } from './types.ts'
+
+/**
+ * @param apiKey Google API key (only needed for Veo models)
+ */
+export function createVideoProviders(apiKey?: string): VideoProvider[] {
+  const models = modelPriority('VIDEO_MODELS', DEFAULT_VIDEO_MODELS)
+  return models.map(model => model === MOCK_PROVIDER
+    ? new MockVideoProvider()
+    : new VeoVideoProvider(requireApiKey(apiKey, models), model))
+}
+
+/**
+ * Start an operation with the first provider that accepts the request
+ */
+export function startVideoOperation(providers: VideoProvider[], request: VideoRequest): Promise<VideoOperation> {
+  return withFallback(providers, provider => provider.start(request))
+}
+
+/**
+ * Provider that has to poll an operation
+ * Operations without a provider id (resumed from generation_jobs, or queued before providers
+ * existed) are recognised by their name.
+ */
+export function findVideoProvider(
+  providers: VideoProvider[],
+  operation: Pick<VideoOperation, 'name'> & Partial<VideoOperation>
+): VideoProvider | undefined {
+  const name = operation.provider ||
+    (operation.name.startsWith(`${MOCK_OPERATIONS_PREFIX}/`) ? MOCK_PROVIDER : VEO_PROVIDER)
+  return providers.find(provider => provider.name === name)
+}
@@ -0,0 +1,160 @@
+// Bounded retries for the generation workers (see 20251112_add_generation_dlq.sql)
+// Retryable errors are postponed with exponential backoff (pgmq_set_vt); permanent errors and
+// messages out of attempts go to the queue's DLQ with the error attached.
+
+import { JobKind, JobMessage, errorMessage, updateJob } from './jobs.ts'
+
+export interface RetryPolicy {
+  /** Attempts (pgmq read_ct) before a message is dead-lettered */
+  maxAttempts: number
+  /** Delay before the 2nd attempt; doubles with every further attempt */
+  baseDelaySeconds: number
+  maxDelaySeconds: number
+}
+
+export const IMAGE_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelaySeconds: 30,
+  maxDelaySeconds: 600
+}
+
+export const VIDEO_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelaySeconds: 120,
+  maxDelaySeconds: 1800
+}
+
+/**
+ * Error with a known retry behaviour, thrown by the workers where they can tell
+ * (HTTP status of the model API, safety blocks, broken source images)
+ */
+export class GenerationError extends Error {
+  constructor(message: string, readonly retryable: boolean, readonly status?: number) {
+    super(message)
+    this.name = 'GenerationError'
+  }
+}
+
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500
+}
+
+/**
+ * Decide whether an error is worth another attempt
+ * 429, 5xx, timeouts and network errors are retryable; safety blocks and other 4xx are not.
+ * Unknown errors are retried (the attempt limit still applies).
+ */
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof GenerationError) {
+    return error.retryable
+  }
+
+  // @google/genai ApiError and fetch-style errors carry the HTTP status
+  const status = (error as { status?: unknown })?.status
+  if (typeof status === 'number') {
+    return isRetryableStatus(status)
+  }
+
+  const message = errorMessage(error).toLowerCase()
+  if (/safety|blocked|prohibited|invalid_argument/.test(message)) {
+    return false
+  }
+  return true
+}
+
+/**
+ * Seconds until the next attempt: base · 2^(attempt-1), capped, with up to 20% jitter
+ * @param attempt The attempt that just failed (read_ct)
+ */
+export function backoffSeconds(policy: RetryPolicy, attempt: number): number {
+  const delay = Math.min(policy.baseDelaySeconds * Math.pow(2, Math.max(attempt - 1, 0)), policy.maxDelaySeconds)
+  return Math.round(delay * (1 + Math.random() * 0.2))
+}
+
+async function moveToDeadLetterQueue(
+  supabase: any,
+  queueName: string,
+  kind: JobKind,
+  message: JobMessage,
+  reason: string
+): Promise<void> {
+  const { error } = await supabase.rpc('pgmq_move_to_dlq', {
+    queue_name: queueName,
+    msg_id: message.msg_id,
+    error_message: reason
+  })
+
+  if (error) {
+    // Leave the message in the queue; the attempt check catches it on the next read
+    console.error(`Failed to dead-letter message ${message.msg_id}:`, error)
+  } else {
+    console.log(`Message ${message.msg_id} moved to the ${kind} DLQ: ${reason}`)
+  }
+
+  await updateJob(supabase, queueName, kind, message, { status: 'failed', error: reason })
+}
+
+/**
+ * Dead-letter a message that was read more often than the policy allows
+ * (e.g. the worker was killed mid-generation each time, so failures were never recorded)
+ * @returns true if the message was dead-lettered and must not be processed
+ */
+export async function deadLetterIfExhausted(
+  supabase: any,
+  queueName: string,
+  kind: JobKind,
+  message: JobMessage,
+  policy: RetryPolicy
+): Promise<boolean> {
+  if (message.read_ct <= policy.maxAttempts) {
+    return false
+  }
+
+  await moveToDeadLetterQueue(supabase, queueName, kind, message, `Gave up after ${policy.maxAttempts} attempts`)
+  return true
+}
+
+/**
+ * Handle a failed attempt: schedule a retry with backoff, or dead-letter the message
+ * @returns 'retry' or 'dead-lettered'
+ */
+export async function handleFailure(
+  supabase: any,
+  queueName: string,
+  kind: JobKind,
+  message: JobMessage,
+  error: unknown,
+  policy: RetryPolicy
+): Promise<'retry' | 'dead-lettered'> {
+  const reason = errorMessage(error)
+  const attempt = message.read_ct
+
+  if (!isRetryable(error)) {
+    await moveToDeadLetterQueue(supabase, queueName, kind, message, `Permanent error: ${reason}`)
+    return 'dead-lettered'
+  }
+
+  if (attempt >= policy.maxAttempts) {
+    await moveToDeadLetterQueue(supabase, queueName, kind, message, `Failed after ${attempt} attempts: ${reason}`)
+    return 'dead-lettered'
+  }
+
+  const delay = backoffSeconds(policy, attempt)
+  const { error: vtError } = await supabase.rpc('pgmq_set_vt', {
+    queue_name: queueName,
+    msg_id: message.msg_id,
+    vt: delay
+  })
+
+  if (vtError) {
+    // The read's visibility timeout still applies, so the retry just comes sooner
+    console.error(`Failed to postpone message ${message.msg_id}:`, vtError)
+  }
+
+  console.log(`Message ${message.msg_id} will be retried in ${delay}s (attempt ${attempt}/${policy.maxAttempts})`)
+  await updateJob(supabase, queueName, kind, message, {
+    status: 'queued',
+    error: `Attempt ${attempt}/${policy.maxAttempts} failed, retrying in ${delay}s: ${reason}`
+  })
+  return 'retry'
+}
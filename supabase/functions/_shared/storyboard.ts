@@ -0,0 +1,108 @@
+// Storyboard entities as stored in kv_store_7ee7668a
+// Mirrors figma-plugin/plugin/types.ts (Scene, Character, Act, StoryboardV2) — keep both in sync
+
+export const KV_TABLE = 'kv_store_7ee7668a'
+
+export interface Scene {
+  id: string
+  storyboardId: string
+  sceneNumber: number
+  shotType: string
+  description: string
+  dialogue: string
+  notes: string
+  imageUrl: string
+  mediaId?: string
+  videoUrl?: string
+  videoMediaId?: string
+  duration: string
+  nextScenes?: string[]
+  characters?: string[]
+  parentScene?: string
+  actNumber?: number
+  color?: string
+  figmaNodeId?: string
+  figmaConnectorIds?: string[]
+  nextSceneLabels?: Record<string, string>
+  metadata: Record<string, unknown>
+  createdAt: string
+  updatedAt: string
+}
+
+export interface Act {
+  number: number
+  name: string
+  description?: string
+  color?: string
+  sceneRange?: [number, number]
+}
+
+export interface Character {
+  id: string
+  storyboardId: string
+  name: string
+  description: string
+  imageUrl?: string
+  color?: string
+  figmaNodeId?: string
+  metadata: Record<string, unknown>
+  createdAt: string
+  updatedAt: string
+}
+
+export type StylePresetId = 'cinematic' | 'anime' | 'comic-book' | 'pencil-sketch' | 'noir' | 'custom'
+
+export interface StoryboardStyle {
+  preset: StylePresetId
+  prompt?: string
+  negativePrompt?: string
+  referenceImageUrl?: string
+}
+
+// Scene order of an animatic: by sceneNumber, or along the first nextScenes link from the first scene
+export type AnimaticOrder = 'scene-number' | 'path'
+
+export type AnimaticStatus = 'queued' | 'rendering' | 'done' | 'failed'
+
+// Last animatic of a storyboard (written by the animatic worker, see supabase/workers/animatic)
+export interface StoryboardAnimatic {
+  status: AnimaticStatus
+  order: AnimaticOrder
+  captions: boolean
+  url?: string
+  durationSeconds?: number
+  sceneCount?: number
+  error?: string
+  updatedAt: string
+}
+
+export interface StoryboardMetadata {
+  acts?: Act[]
+  genre?: string
+  targetDuration?: string
+  style?: StoryboardStyle
+  animatic?: StoryboardAnimatic
+  [key: string]: unknown
+}
+
+export interface StoryboardV2 {
+  id: string
+  name: string
+  scenesFrameId?: string
+  charactersFrameId?: string
+  metadata: StoryboardMetadata
+  createdAt: string
+  updatedAt: string
+}
+
+export function storyboardKey(storyboardId: string) {
+  return `storyboard_v2:${storyboardId}`
+}
+
+export function sceneKey(storyboardId: string, sceneId: string) {
+  return `scene:${storyboardId}:${sceneId}`
+}
+
+export function characterKey(storyboardId: string, characterId: string) {
+  return `character:${storyboardId}:${characterId}`
+}
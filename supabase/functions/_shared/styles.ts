@@ -0,0 +1,76 @@
+// Storyboard style presets (StoryboardMetadata.style), applied by both generation workers so
+// every frame of a storyboard shares one look
+
+import { KV_TABLE, StoryboardStyle, StoryboardV2, StylePresetId, storyboardKey } from './storyboard.ts'
+
+interface StylePreset {
+  prompt: string
+  negativePrompt: string
+}
+
+const STYLE_PRESETS: Record<Exclude<StylePresetId, 'custom'>, StylePreset> = {
+  cinematic: {
+    prompt: 'Cinematic, detailed, high quality storyboard frame, film lighting, shallow depth of field',
+    negativePrompt: 'cartoon, flat colors, text, watermark, low quality'
+  },
+  anime: {
+    prompt: 'Anime style, clean cel shading, expressive characters, vibrant colors, detailed backgrounds',
+    negativePrompt: 'photorealistic, 3d render, text, watermark, low quality'
+  },
+  'comic-book': {
+    prompt: 'Comic book style, bold ink outlines, halftone shading, dynamic composition, saturated colors',
+    negativePrompt: 'photorealistic, blurry, speech bubbles, text, watermark'
+  },
+  'pencil-sketch': {
+    prompt: 'Pencil sketch storyboard, loose graphite lines, hatching for shading, monochrome on white paper',
+    negativePrompt: 'color, photorealistic, painted, text, watermark'
+  },
+  noir: {
+    prompt: 'Film noir, high-contrast black and white, hard shadows, low-key lighting, moody atmosphere',
+    negativePrompt: 'color, bright daylight, cartoon, text, watermark'
+  }
+}
+
+// Storyboards without a saved style keep the original look
+const DEFAULT_PRESET = 'cinematic'
+
+export interface ResolvedStyle {
+  prompt: string
+  negativePrompt: string
+  referenceImageUrl?: string
+}
+
+/**
+ * Prompt texts for a storyboard style
+ * A custom style uses its own prompt (cinematic if empty); prompt/negativePrompt of a preset
+ * style are added to the preset's texts.
+ */
+export function resolveStyle(style?: StoryboardStyle): ResolvedStyle {
+  const custom = style?.preset === 'custom'
+  const preset = STYLE_PRESETS[!style || custom ? DEFAULT_PRESET : style.preset] || STYLE_PRESETS[DEFAULT_PRESET]
+
+  const join = (base: string, extra?: string) => [base, extra?.trim()].filter(part => part).join(', ')
+
+  return {
+    prompt: custom && style?.prompt?.trim() ? style.prompt.trim() : join(preset.prompt, style?.prompt),
+    negativePrompt: custom ? style?.negativePrompt?.trim() || '' : join(preset.negativePrompt, style?.negativePrompt),
+    referenceImageUrl: style?.referenceImageUrl || undefined
+  }
+}
+
+/**
+ * Resolved style of a storyboard (default style if the storyboard can't be loaded)
+ */
+export async function loadStoryboardStyle(supabase: any, storyboardId: string): Promise<ResolvedStyle> {
+  const { data, error } = await supabase
+    .from(KV_TABLE)
+    .select('value')
+    .eq('key', storyboardKey(storyboardId))
+    .maybeSingle()
+
+  if (error) {
+    console.error(`Failed to load style of storyboard ${storyboardId}:`, error)
+  }
+
+  return resolveStyle((data?.value as StoryboardV2 | undefined)?.metadata?.style)
+}
@@ -0,0 +1,144 @@
+/// <reference types="https://esm.sh/@supabase/functions-js/src/edge-runtime.d.ts" />
+
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { KV_TABLE, characterKey, sceneKey, storyboardKey } from '../_shared/storyboard.ts'
+import { createStoryboardModel, StoryboardModel } from './model.ts'
+import { buildStoryboard, GeneratedStoryboard, validateDraft } from './validate.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+}
+
+const DEFAULT_SCENE_COUNT = 8
+const MAX_SCENE_COUNT = 30
+
+// Request body sent by the Figma plugin UI
+interface GenerateStoryboardRequest {
+  logline: string
+  // Formatted output of the plugin's extract-context
+  context?: string
+  sceneCount?: number
+  genre?: string
+  // Enqueue one image_generation_queue job per scene
+  enqueueImages?: boolean
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+}
+
+function createStoryboardId() {
+  return `sb-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`
+}
+
+// Write storyboard, scenes and characters in one upsert so the plugin never sees half a storyboard
+async function saveStoryboard(supabase: any, generated: GeneratedStoryboard) {
+  const { storyboard, scenes, characters } = generated
+  const rows = [
+    { key: storyboardKey(storyboard.id), value: storyboard },
+    ...scenes.map(scene => ({ key: sceneKey(storyboard.id, scene.id), value: scene })),
+    ...characters.map(character => ({ key: characterKey(storyboard.id, character.id), value: character }))
+  ]
+
+  const { error } = await supabase.from(KV_TABLE).upsert(rows)
+  if (error) {
+    throw new Error(`Failed to save storyboard: ${error.message}`)
+  }
+}
+
+// Every scene of a new storyboard is missing its image: one batch for all of them
+async function enqueueSceneImages(supabase: any, storyboardId: string): Promise<{ batchId: string | null; enqueued: number }> {
+  const { data, error } = await supabase.rpc('enqueue_storyboard_images', { storyboard_id: storyboardId })
+  if (error) {
+    console.error(`Failed to enqueue images for ${storyboardId}:`, error)
+    return { batchId: null, enqueued: 0 }
+  }
+  return { batchId: data.batchId, enqueued: data.enqueued }
+}
+
+export async function generateStoryboard(
+  request: GenerateStoryboardRequest,
+  model: StoryboardModel,
+  supabase: any
+) {
+  const sceneCount = Math.min(Math.max(1, Math.round(request.sceneCount || DEFAULT_SCENE_COUNT)), MAX_SCENE_COUNT)
+  // Always a new id: the upsert below would overwrite the media of an existing storyboard's scenes
+  const storyboardId = createStoryboardId()
+
+  console.log(`Generating storyboard ${storyboardId} with ${model.name}: "${request.logline}"`)
+
+  const raw = await model.generate({
+    logline: request.logline,
+    context: request.context,
+    sceneCount,
+    genre: request.genre
+  })
+
+  const validation = validateDraft(raw)
+  if (!validation.ok) {
+    console.error('Model returned an invalid storyboard:', validation.errors)
+    return { success: false as const, errors: validation.errors }
+  }
+
+  const generated = buildStoryboard(validation.draft, storyboardId, {
+    model: model.name,
+    logline: request.logline,
+    generatedAt: new Date().toISOString()
+  })
+
+  await saveStoryboard(supabase, generated)
+
+  const imageBatch = request.enqueueImages
+    ? await enqueueSceneImages(supabase, storyboardId)
+    : { batchId: null, enqueued: 0 }
+
+  console.log(`Storyboard ${storyboardId} saved: ${generated.scenes.length} scenes, ${generated.characters.length} characters`)
+
+  return {
+    success: true as const,
+    storyboardId,
+    name: generated.storyboard.name,
+    sceneCount: generated.scenes.length,
+    characterCount: generated.characters.length,
+    imageJobs: imageBatch.enqueued,
+    imageBatchId: imageBatch.batchId
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const body = await req.json().catch(() => null) as GenerateStoryboardRequest | null
+    if (!body || typeof body.logline !== 'string' || !body.logline.trim()) {
+      return jsonResponse({ error: 'logline is required' }, 400)
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseKey)
+
+    const result = await generateStoryboard(
+      { ...body, logline: body.logline.trim() },
+      createStoryboardModel(),
+      supabase
+    )
+
+    if (!result.success) {
+      return jsonResponse({ error: 'Model returned an invalid storyboard', details: result.errors }, 502)
+    }
+    return jsonResponse(result)
+
+  } catch (error) {
+    console.error('Error in main handler:', error)
+    return jsonResponse({
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, 500)
+  }
+})
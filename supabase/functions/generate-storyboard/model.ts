@@ -0,0 +1,166 @@
+import { GoogleGenAI, Type } from 'npm:@google/genai'
+
+// What the model is asked for: a whole storyboard draft from a logline
+export interface StoryboardPrompt {
+  logline: string
+  // Text from the Figma plugin's extract-context (selection, page info)
+  context?: string
+  sceneCount: number
+  genre?: string
+}
+
+// Model-agnostic interface, returns the raw JSON the model produced.
+// The result is untrusted and goes through validateDraft() before anything is written.
+export interface StoryboardModel {
+  name: string
+  generate(prompt: StoryboardPrompt): Promise<unknown>
+}
+
+const GEMINI_MODEL = 'gemini-2.5-flash'
+
+// JSON schema for Gemini structured output (subset of StoryboardV2/Scene/Character/Act)
+const STORYBOARD_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING },
+    genre: { type: Type.STRING },
+    targetDuration: { type: Type.STRING },
+    acts: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          number: { type: Type.INTEGER },
+          name: { type: Type.STRING },
+          description: { type: Type.STRING }
+        },
+        required: ['number', 'name']
+      }
+    },
+    characters: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          ref: { type: Type.STRING, description: 'Short unique slug, used by scenes to reference the character' },
+          name: { type: Type.STRING },
+          description: { type: Type.STRING, description: 'Appearance and personality' }
+        },
+        required: ['ref', 'name', 'description']
+      }
+    },
+    scenes: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          sceneNumber: { type: Type.INTEGER },
+          actNumber: { type: Type.INTEGER },
+          shotType: { type: Type.STRING, description: 'Wide, Medium, Close-up, ...' },
+          description: { type: Type.STRING, description: 'What the frame shows' },
+          dialogue: { type: Type.STRING },
+          notes: { type: Type.STRING },
+          duration: { type: Type.STRING, description: 'e.g. "4s"' },
+          characters: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Character refs' }
+        },
+        required: ['sceneNumber', 'shotType', 'description', 'duration']
+      }
+    }
+  },
+  required: ['name', 'scenes']
+}
+
+function buildInstruction(prompt: StoryboardPrompt) {
+  const lines = [
+    'You are a storyboard artist. Break the following logline into a storyboard.',
+    `Logline: ${prompt.logline}`,
+    `Number of scenes: ${prompt.sceneCount}`,
+    'Group scenes into acts (usually 3). Number scenes from 1 in story order.',
+    'Descriptions must be visual and concrete, usable as image generation prompts.'
+  ]
+  if (prompt.genre) {
+    lines.push(`Genre: ${prompt.genre}`)
+  }
+  if (prompt.context) {
+    lines.push('Use this context from the user\'s Figma board:', prompt.context)
+  }
+  return lines.join('\n')
+}
+
+export class GeminiStoryboardModel implements StoryboardModel {
+  name = GEMINI_MODEL
+  private ai: GoogleGenAI
+
+  constructor(apiKey: string) {
+    this.ai = new GoogleGenAI({ apiKey })
+  }
+
+  async generate(prompt: StoryboardPrompt): Promise<unknown> {
+    const response = await this.ai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: buildInstruction(prompt),
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: STORYBOARD_SCHEMA
+      }
+    })
+
+    const text = response.text
+    if (!text) {
+      throw new Error('Empty response from model')
+    }
+    return JSON.parse(text)
+  }
+}
+
+// Local responder returning a fixed draft, for tests and offline development
+export class CannedStoryboardModel implements StoryboardModel {
+  name = 'canned'
+
+  constructor(private response?: unknown) {}
+
+  generate(prompt: StoryboardPrompt): Promise<unknown> {
+    if (this.response !== undefined) {
+      return Promise.resolve(this.response)
+    }
+
+    const scenes = []
+    for (let i = 1; i <= prompt.sceneCount; i++) {
+      scenes.push({
+        sceneNumber: i,
+        actNumber: Math.min(3, Math.ceil((i / prompt.sceneCount) * 3)),
+        shotType: i === 1 ? 'Wide' : 'Medium',
+        description: `Scene ${i}: ${prompt.logline}`,
+        dialogue: '',
+        notes: '',
+        duration: '4s',
+        characters: ['hero']
+      })
+    }
+
+    return Promise.resolve({
+      name: prompt.logline.slice(0, 60),
+      genre: prompt.genre,
+      acts: [
+        { number: 1, name: 'Setup' },
+        { number: 2, name: 'Confrontation' },
+        { number: 3, name: 'Resolution' }
+      ],
+      characters: [{ ref: 'hero', name: 'Hero', description: 'The protagonist' }],
+      scenes
+    })
+  }
+}
+
+// STORYBOARD_MODEL=canned switches to the local responder (no API key needed)
+export function createStoryboardModel(): StoryboardModel {
+  if (Deno.env.get('STORYBOARD_MODEL') === 'canned') {
+    return new CannedStoryboardModel()
+  }
+
+  const geminiApiKey = Deno.env.get('GOOGLE_GENERATIVE_AI_API_KEY')
+  if (!geminiApiKey) {
+    throw new Error('GOOGLE_GENERATIVE_AI_API_KEY not configured')
+  }
+  return new GeminiStoryboardModel(geminiApiKey)
+}
@@ -0,0 +1,200 @@
+import { Act, Character, Scene, StoryboardV2 } from '../_shared/storyboard.ts'
+
+// Draft as returned by the model, after validation
+export interface StoryboardDraft {
+  name: string
+  genre?: string
+  targetDuration?: string
+  acts: Act[]
+  characters: Array<{ ref: string, name: string, description: string }>
+  scenes: Array<{
+    sceneNumber: number
+    actNumber?: number
+    shotType: string
+    description: string
+    dialogue: string
+    notes: string
+    duration: string
+    characters: string[]
+  }>
+}
+
+export type DraftValidation =
+  | { ok: true, draft: StoryboardDraft }
+  | { ok: false, errors: string[] }
+
+export interface GeneratedStoryboard {
+  storyboard: StoryboardV2
+  scenes: Scene[]
+  characters: Character[]
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function optionalString(value: unknown) {
+  return typeof value === 'string' ? value.trim() : ''
+}
+
+// Check the model output field by field; collect every problem instead of stopping at the first
+export function validateDraft(raw: unknown): DraftValidation {
+  const errors: string[] = []
+
+  if (!isObject(raw)) {
+    return { ok: false, errors: ['Response is not a JSON object'] }
+  }
+
+  const name = optionalString(raw.name)
+  if (!name) {
+    errors.push('name is required')
+  }
+
+  const acts: Act[] = []
+  if (raw.acts !== undefined && !Array.isArray(raw.acts)) {
+    errors.push('acts must be an array')
+  }
+  for (const [i, act] of (Array.isArray(raw.acts) ? raw.acts : []).entries()) {
+    if (!isObject(act) || typeof act.number !== 'number' || !optionalString(act.name)) {
+      errors.push(`acts[${i}] needs number and name`)
+      continue
+    }
+    acts.push({
+      number: act.number,
+      name: optionalString(act.name),
+      description: optionalString(act.description) || undefined
+    })
+  }
+
+  const characters: StoryboardDraft['characters'] = []
+  const characterRefs = new Set<string>()
+  for (const [i, character] of (Array.isArray(raw.characters) ? raw.characters : []).entries()) {
+    if (!isObject(character) || !optionalString(character.ref) || !optionalString(character.name)) {
+      errors.push(`characters[${i}] needs ref and name`)
+      continue
+    }
+    const ref = optionalString(character.ref)
+    if (characterRefs.has(ref)) {
+      errors.push(`characters[${i}] duplicates ref "${ref}"`)
+      continue
+    }
+    characterRefs.add(ref)
+    characters.push({ ref, name: optionalString(character.name), description: optionalString(character.description) })
+  }
+
+  const scenes: StoryboardDraft['scenes'] = []
+  if (!Array.isArray(raw.scenes) || raw.scenes.length === 0) {
+    errors.push('scenes must be a non-empty array')
+  }
+  for (const [i, scene] of (Array.isArray(raw.scenes) ? raw.scenes : []).entries()) {
+    if (!isObject(scene)) {
+      errors.push(`scenes[${i}] is not an object`)
+      continue
+    }
+    const description = optionalString(scene.description)
+    if (!description) {
+      errors.push(`scenes[${i}].description is required`)
+      continue
+    }
+    const sceneCharacters = Array.isArray(scene.characters)
+      ? scene.characters.filter((ref): ref is string => typeof ref === 'string' && characterRefs.has(ref))
+      : []
+    scenes.push({
+      sceneNumber: typeof scene.sceneNumber === 'number' ? scene.sceneNumber : i + 1,
+      actNumber: typeof scene.actNumber === 'number' ? scene.actNumber : undefined,
+      shotType: optionalString(scene.shotType) || 'Medium',
+      description,
+      dialogue: optionalString(scene.dialogue),
+      notes: optionalString(scene.notes),
+      duration: optionalString(scene.duration) || '3s',
+      characters: sceneCharacters
+    })
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors }
+  }
+
+  // Renumber in story order so gaps or duplicates from the model don't reach the canvas
+  scenes.sort((a, b) => a.sceneNumber - b.sceneNumber)
+  scenes.forEach((scene, index) => {
+    scene.sceneNumber = index + 1
+  })
+
+  return {
+    ok: true,
+    draft: {
+      name,
+      genre: optionalString(raw.genre) || undefined,
+      targetDuration: optionalString(raw.targetDuration) || undefined,
+      acts,
+      characters,
+      scenes
+    }
+  }
+}
+
+// Turn a validated draft into the kv entities, with ids, links and sceneRange per act
+export function buildStoryboard(
+  draft: StoryboardDraft,
+  storyboardId: string,
+  generation: Record<string, unknown>
+): GeneratedStoryboard {
+  const now = new Date().toISOString()
+
+  const characterIds = new Map<string, string>()
+  const characters: Character[] = draft.characters.map((character, index) => {
+    const id = `character-${index + 1}`
+    characterIds.set(character.ref, id)
+    return {
+      id,
+      storyboardId,
+      name: character.name,
+      description: character.description,
+      metadata: { generatedFrom: 'generate-storyboard' },
+      createdAt: now,
+      updatedAt: now
+    }
+  })
+
+  const sceneIds = draft.scenes.map(scene => `scene-${scene.sceneNumber}`)
+  const scenes: Scene[] = draft.scenes.map((scene, index) => ({
+    id: sceneIds[index],
+    storyboardId,
+    sceneNumber: scene.sceneNumber,
+    shotType: scene.shotType,
+    description: scene.description,
+    dialogue: scene.dialogue,
+    notes: scene.notes,
+    imageUrl: '',
+    duration: scene.duration,
+    actNumber: scene.actNumber,
+    nextScenes: index + 1 < sceneIds.length ? [sceneIds[index + 1]] : [],
+    characters: scene.characters.map(ref => characterIds.get(ref)!),
+    metadata: { generatedFrom: 'generate-storyboard' },
+    createdAt: now,
+    updatedAt: now
+  }))
+
+  const acts: Act[] = draft.acts.map(act => {
+    const numbers = scenes.filter(scene => scene.actNumber === act.number).map(scene => scene.sceneNumber)
+    return numbers.length > 0
+      ? { ...act, sceneRange: [Math.min(...numbers), Math.max(...numbers)] }
+      : act
+  })
+
+  const storyboard: StoryboardV2 = {
+    id: storyboardId,
+    name: draft.name,
+    metadata: {
+      acts,
+      genre: draft.genre,
+      targetDuration: draft.targetDuration,
+      generation
+    },
+    createdAt: now,
+    updatedAt: now
+  }
+
+  return { storyboard, scenes, characters }
+}
@@ -1,7 +1,27 @@
 /// <reference types="https://esm.sh/@supabase/functions-js/src/edge-runtime.d.ts" />
 
 import { createClient } from 'npm:@supabase/supabase-js@2'
-import { GoogleGenAI } from 'npm:@google/genai'
+import { updateJob } from '../_shared/jobs.ts'
+import { fetchInlineImage, imageSize } from '../_shared/images.ts'
+import { SceneImageVariants, insertMedia } from '../_shared/media.ts'
+import { IMAGE_RETRY_POLICY, deadLetterIfExhausted, handleFailure } from '../_shared/retry.ts'
+import { ResolvedStyle, loadStoryboardStyle } from '../_shared/styles.ts'
+import { createImageProviders, generateImage } from '../_shared/providers/image.ts'
+import { ImageProvider, ImageRequest } from '../_shared/providers/types.ts'
+import { SceneReferences, loadSceneReferences } from './references.ts'
+
+const QUEUE_NAME = 'image_generation_queue'
+const BUCKET = 'storyboard-images'
+
+// Variants per job; each one is a full model call
+const MAX_VARIANTS = 4
+
+// Messages per invocation, read one at a time so none waits invisible behind the others
+const MESSAGES_PER_RUN = 5
+
+// Visibility timeout of a message for one model call and its upload; renewed before every
+// further variant, so a slow job doesn't reappear and get processed twice
+const VISIBILITY_SECONDS = 120
 
 // Интерфейс для сообщений из очереди
 interface QueueMessage {
@@ -17,16 +37,52 @@ interface QueueMessage {
     sourceImageUrl?: string  // For image-to-image editing
     editMode?: boolean
     sceneNumber?: number
+    variants?: number  // Scene jobs only: images to pick from (default 1)
+    batchId?: string  // Jobs enqueued together by enqueue_storyboard_images
+  }
+}
+
+async function extendVisibility(supabase: any, message: QueueMessage): Promise<void> {
+  const { error } = await supabase.rpc('pgmq_set_vt', {
+    queue_name: QUEUE_NAME,
+    msg_id: message.msg_id,
+    vt: VISIBILITY_SECONDS
+  })
+
+  if (error) {
+    console.error(`Failed to extend visibility of message ${message.msg_id}:`, error)
   }
 }
 
+async function uploadImage(supabase: any, fileName: string, bytes: Uint8Array, mimeType: string): Promise<string> {
+  const { error: uploadError } = await supabase.storage
+    .from(BUCKET)
+    .upload(fileName, bytes, {
+      contentType: mimeType,
+      upsert: false
+    })
+
+  if (uploadError) {
+    console.error('Upload error:', uploadError)
+    throw uploadError
+  }
+
+  // Получаем публичный URL
+  const { data: publicUrlData } = supabase.storage
+    .from(BUCKET)
+    .getPublicUrl(fileName)
+
+  return publicUrlData.publicUrl
+}
+
 // Обработка одного сообщения
 async function processMessage(
   message: QueueMessage,
   supabase: any,
-  geminiApiKey: string
+  providers: ImageProvider[]
 ) {
   const { sceneId, characterId, storyboardId, prompt, sourceImageUrl, editMode } = message.message
+  const variantCount = sceneId ? Math.min(Math.max(Math.floor(message.message.variants || 1), 1), MAX_VARIANTS) : 1
 
   const entityId = sceneId || characterId || `gen-${Date.now()}`
   const entityType = sceneId ? 'scene' : characterId ? 'character' : 'generic'
@@ -36,95 +92,107 @@ async function processMessage(
     console.log(`Edit mode: true, source: ${sourceImageUrl}`)
   }
 
-  try {
-    // Генерация изображения через Google Gemini SDK
-    const ai = new GoogleGenAI({ apiKey: geminiApiKey })
+  if (await deadLetterIfExhausted(supabase, QUEUE_NAME, 'image', message, IMAGE_RETRY_POLICY)) {
+    return { success: false, sceneId, deadLettered: true }
+  }
 
-    const contents: any[] = []
+  await updateJob(supabase, QUEUE_NAME, 'image', message, { status: 'running', model: providers[0].model, error: null })
+
+  try {
+    const request: ImageRequest = { prompt: '' }
+    let style: ResolvedStyle | null = null
 
     // If editing mode with source image, add image to request
     if (sourceImageUrl && editMode) {
-      // Fetch source image
-      const imageResponse = await fetch(sourceImageUrl)
-      const imageBlob = await imageResponse.blob()
-      const imageBuffer = await imageBlob.arrayBuffer()
-      const imageBase64 = btoa(String.fromCharCode(...new Uint8Array(imageBuffer)))
-
-      contents.push({
-        image: {
-          inlineData: {
-            data: imageBase64,
-            mimeType: imageBlob.type || 'image/png'
-          }
-        }
-      })
-      contents.push({
-        text: `Edit this storyboard image: ${prompt}. Maintain the composition and style.`
-      })
+      request.sourceImage = await fetchInlineImage(sourceImageUrl)
+      request.prompt = `Edit this storyboard image: ${prompt}. Maintain the composition and style.`
     } else {
-      // Text-to-image generation
+      // Text-to-image generation in the storyboard's style preset
+      style = await loadStoryboardStyle(supabase, storyboardId)
       const styleHint = characterId
-        ? 'Maintain character consistency, detailed character design'
-        : 'Cinematic, detailed, high quality storyboard frame'
+        ? `${style.prompt}. Maintain character consistency, detailed character design`
+        : style.prompt
 
-      contents.push({
-        text: `Generate a professional storyboard image: ${prompt}. Style: ${styleHint}.`
-      })
+      request.prompt = `Generate a professional storyboard image: ${prompt}. Style: ${styleHint}.`
+      request.negativePrompt = style.negativePrompt || undefined
     }
 
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-image-preview",
-      contents
-    })
-
-    // Ищем inlineData в ответе
-    let imageData: string | null = null
-    let mimeType = "image/png"
-
-    for (const part of response.candidates[0].content.parts) {
-      if (part.inlineData) {
-        imageData = part.inlineData.data
-        mimeType = part.inlineData.mimeType || "image/png"
-        break
+    // Characters appearing in the scene: reference images + descriptions for consistency
+    let sceneReferences: SceneReferences | null = null
+    if (sceneId) {
+      sceneReferences = await loadSceneReferences(supabase, storyboardId, sceneId)
+      if (sceneReferences.references.length > 0) {
+        console.log(`Using ${sceneReferences.images.length} character reference image(s) for ${sceneReferences.references.length} character(s)`)
+        request.referenceImages = sceneReferences.images
+        request.prompt = `${request.prompt}\n\n${sceneReferences.promptContext}`
       }
     }
 
-    if (!imageData) {
-      throw new Error('No image generated in response')
-    }
-
-    // Конвертируем base64 в buffer для Deno
-    const binaryString = atob(imageData)
-    const bytes = new Uint8Array(binaryString.length)
-    for (let i = 0; i < binaryString.length; i++) {
-      bytes[i] = binaryString.charCodeAt(i)
+    // Style reference goes last so character reference numbering stays the same
+    if (style?.referenceImageUrl) {
+      try {
+        request.referenceImages = [...request.referenceImages || [], await fetchInlineImage(style.referenceImageUrl)]
+        request.prompt = `${request.prompt}\n\nMatch the art style, palette and rendering of the last reference image (style reference, not content).`
+      } catch (fetchError) {
+        console.log('Style reference image unavailable, using the style prompt only:', fetchError)
+      }
     }
 
-    // Загружаем изображение в Supabase Storage
+    // Generate and upload every variant before touching the database, so a failed
+    // variant retries the whole job without leaving half a set behind
     const timestamp = Date.now()
-    const fileName = `${storyboardId}/${entityType}-${entityId}_${timestamp}.png`
-    const bucket = "storyboard-images"
-
-    const { error: uploadError } = await supabase.storage
-      .from(bucket)
-      .upload(fileName, bytes, {
-        contentType: mimeType,
-        upsert: false
-      })
+    const imageUrls: string[] = []
+    const imageSizes: ReturnType<typeof imageSize>[] = []
+    let model = providers[0].model
 
-    if (uploadError) {
-      console.error('Upload error:', uploadError)
-      throw uploadError
-    }
+    for (let index = 0; index < variantCount; index++) {
+      if (index > 0) {
+        await extendVisibility(supabase, message)
+      }
+      const generated = await generateImage(providers, variantCount > 1 ? { ...request, variant: index } : request)
+      model = generated.model
 
-    // Получаем публичный URL
-    const { data: publicUrlData } = supabase.storage
-      .from(bucket)
-      .getPublicUrl(fileName)
+      await updateJob(supabase, QUEUE_NAME, 'image', message, { status: 'uploading', model })
 
-    const imageUrl = publicUrlData.publicUrl
+      // Загружаем изображение в Supabase Storage
+      const suffix = variantCount > 1 ? `_v${index + 1}` : ''
+      const fileName = `${storyboardId}/${entityType}-${entityId}_${timestamp}${suffix}.png`
+      imageUrls.push(await uploadImage(supabase, fileName, generated.bytes, generated.mimeType))
+      imageSizes.push(imageSize(generated.bytes))
+    }
 
-    console.log('Image uploaded:', imageUrl)
+    const imageUrl = imageUrls[0]
+    console.log('Image uploaded:', imageUrls.join(', '))
+
+    // Every image becomes a media row (the scene's history); variants share a group and the
+    // scene keeps its image until one is picked
+    const group = variantCount > 1 ? `${QUEUE_NAME}:${message.msg_id}:${message.read_ct}` : null
+    const mediaIds = await insertMedia(supabase, imageUrls.map((url, index) => ({
+      type: 'image',
+      url,
+      prompt,
+      model,
+      width: imageSizes[index]?.width,
+      height: imageSizes[index]?.height,
+      storyboard_id: storyboardId,
+      scene_id: sceneId || null,
+      character_id: characterId || null,
+      variant_group: group,
+      variant_index: group ? index : null,
+      metadata: {
+        imageReferences: sceneReferences?.references || [],
+        ...(sourceImageUrl && editMode ? { sourceImageUrl } : {})
+      }
+    })))
+
+    let imageVariants: SceneImageVariants | null = null
+    if (group) {
+      imageVariants = {
+        group,
+        variants: mediaIds.map((mediaId, index) => ({ mediaId, url: imageUrls[index] })),
+        createdAt: new Date().toISOString()
+      }
+    }
 
     // Обновляем сцену или персонажа в базе данных (если указаны)
     let entityKey: string | null = null
@@ -143,11 +211,29 @@ async function processMessage(
         .single()
 
       if (entityData) {
-        console.log(`Updating ${entityType} with imageUrl`)
-        const updatedEntity = {
-          ...entityData.value,
-          imageUrl,
-          imageGeneratedAt: new Date().toISOString()
+        const updatedEntity = { ...entityData.value }
+
+        if (imageVariants) {
+          // Shown as a contact strip in the plugin until one is picked (pick_media_variant)
+          console.log(`Updating ${entityType} with ${imageVariants.variants.length} image variants`)
+          updatedEntity.metadata = { ...entityData.value.metadata, imageVariants }
+        } else {
+          console.log(`Updating ${entityType} with imageUrl`)
+          updatedEntity.imageUrl = imageUrl
+          updatedEntity.imageGeneratedAt = new Date().toISOString()
+
+          // Scenes point at their current image in the media history
+          if (sceneId) {
+            updatedEntity.mediaId = mediaIds[0]
+          }
+
+          // Scenes remember which character references the current image was generated with
+          if (sceneReferences) {
+            updatedEntity.metadata = {
+              ...entityData.value.metadata,
+              imageReferences: sceneReferences.references
+            }
+          }
         }
 
         await supabase
@@ -155,14 +241,16 @@ async function processMessage(
           .update({ value: updatedEntity })
           .eq('key', entityKey)
 
-        console.log(`${entityType} updated with image URL`)
+        console.log(`${entityType} updated`)
       }
     }
 
+    await updateJob(supabase, QUEUE_NAME, 'image', message, { status: 'done', output_url: imageUrl })
+
     // Удаляем сообщение из очереди (успешно обработано)
     const { error: deleteError } = await supabase
       .rpc('pgmq_delete', {
-        queue_name: 'image_generation_queue',
+        queue_name: QUEUE_NAME,
         msg_id: message.msg_id
       })
 
@@ -172,9 +260,10 @@ async function processMessage(
       console.log(`Message ${message.msg_id} deleted from queue`)
     }
 
-    return { success: true, sceneId, imageUrl }
+    return { success: true, sceneId, imageUrl, mediaId: mediaIds[0], variants: imageVariants?.variants, references: sceneReferences?.references }
   } catch (error) {
     console.error(`Error processing message ${message.msg_id}:`, error)
+    await handleFailure(supabase, QUEUE_NAME, 'image', message, error, IMAGE_RETRY_POLICY)
     throw error
   }
 }
@@ -185,51 +274,44 @@ Deno.serve(async (_req) => {
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
     const geminiApiKey = Deno.env.get('GOOGLE_GENERATIVE_AI_API_KEY')
 
-    if (!geminiApiKey) {
-      throw new Error('GOOGLE_GENERATIVE_AI_API_KEY not configured')
-    }
+    // Throws if a Gemini model is configured without the API key
+    const providers = createImageProviders(geminiApiKey)
 
     const supabase = createClient(supabaseUrl, supabaseKey)
-    const queueName = 'image_generation_queue'
-
-    // Читаем сообщения из очереди через прямой SQL вызов
-    const { data: messages, error } = await supabase
-      .rpc('pgmq_read', {
-        queue_name: queueName,
-        vt: 120,
-        qty: 5
-      })
+    const queueName = QUEUE_NAME
 
-    if (error) {
-      console.error(`Error reading from ${queueName} queue:`, error)
-      return new Response(JSON.stringify({ error: error.message }), {
-        status: 500,
-        headers: { 'Content-Type': 'application/json' }
-      })
-    }
+    const results = []
 
-    if (!messages || messages.length === 0) {
-      console.log('No messages in queue')
-      return new Response(JSON.stringify({
-        message: 'No messages in queue',
-        processed: 0
-      }), {
-        status: 200,
-        headers: { 'Content-Type': 'application/json' }
-      })
-    }
+    for (let processed = 0; processed < MESSAGES_PER_RUN; processed++) {
+      // Читаем сообщения из очереди через прямой SQL вызов
+      const { data: messages, error: readError } = await supabase
+        .rpc('pgmq_read', {
+          queue_name: queueName,
+          vt: VISIBILITY_SECONDS,
+          qty: 1
+        })
 
-    console.log(`Found ${messages.length} messages to process`)
+      if (readError) {
+        console.error(`Error reading from ${queueName} queue:`, readError)
+        if (processed > 0) {
+          break
+        }
+        return new Response(JSON.stringify({ error: readError.message }), {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' }
+        })
+      }
 
-    const results = []
+      const message = messages?.[0]
+      if (!message) {
+        break
+      }
 
-    // Обрабатываем каждое сообщение
-    for (const message of messages) {
       try {
         const result = await processMessage(
           message as QueueMessage,
           supabase,
-          geminiApiKey
+          providers
         )
         results.push(result)
       } catch (error) {
@@ -242,9 +324,20 @@ Deno.serve(async (_req) => {
       }
     }
 
+    if (results.length === 0) {
+      console.log('No messages in queue')
+      return new Response(JSON.stringify({
+        message: 'No messages in queue',
+        processed: 0
+      }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      })
+    }
+
     return new Response(JSON.stringify({
-      message: `Processed ${messages.length} messages`,
-      processed: messages.length,
+      message: `Processed ${results.length} messages`,
+      processed: results.length,
       results
     }), {
       status: 200,
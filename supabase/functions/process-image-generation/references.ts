@@ -0,0 +1,95 @@
+// Character references for scene images: the characters linked to a scene (Scene.characters)
+// go along with the request as reference images and descriptions, so they look the same in
+// every scene.
+
+import { fetchInlineImage } from '../_shared/images.ts'
+import { InlineImage } from '../_shared/providers/types.ts'
+import { Character, KV_TABLE, Scene, characterKey, sceneKey } from '../_shared/storyboard.ts'
+
+// More reference images than this make Gemini mix characters up (and slow the request down)
+const MAX_REFERENCE_IMAGES = 3
+
+// Stored on the scene (metadata.imageReferences) with the image it was used for
+export interface CharacterReference {
+  characterId: string
+  name: string
+  /** Reference image sent to the model; missing when only the description was used */
+  imageUrl?: string
+}
+
+export interface SceneReferences {
+  references: CharacterReference[]
+  images: InlineImage[]
+  /** Prompt text describing the characters, empty without characters */
+  promptContext: string
+}
+
+const NO_REFERENCES: SceneReferences = { references: [], images: [], promptContext: '' }
+
+/**
+ * Characters of a scene with their reference images
+ * Best effort: a character image that can't be fetched falls back to its description only.
+ */
+export async function loadSceneReferences(
+  supabase: any,
+  storyboardId: string,
+  sceneId: string
+): Promise<SceneReferences> {
+  const { data: sceneRow } = await supabase
+    .from(KV_TABLE)
+    .select('value')
+    .eq('key', sceneKey(storyboardId, sceneId))
+    .maybeSingle()
+
+  const characterIds: string[] = (sceneRow?.value as Scene | undefined)?.characters || []
+  if (characterIds.length === 0) {
+    return NO_REFERENCES
+  }
+
+  const { data: characterRows, error } = await supabase
+    .from(KV_TABLE)
+    .select('value')
+    .in('key', characterIds.map(characterId => characterKey(storyboardId, characterId)))
+
+  if (error) {
+    console.error(`Failed to load characters of scene ${sceneId}:`, error)
+    return NO_REFERENCES
+  }
+
+  // Keep the scene's character order (first listed = main character of the shot)
+  const characters = characterIds
+    .map(characterId => (characterRows || []).find((row: any) => row.value?.id === characterId)?.value as Character)
+    .filter(character => character)
+
+  const references: CharacterReference[] = []
+  const images: InlineImage[] = []
+  const lines: string[] = []
+
+  for (const character of characters) {
+    const reference: CharacterReference = { characterId: character.id, name: character.name }
+
+    if (character.imageUrl && images.length < MAX_REFERENCE_IMAGES) {
+      try {
+        images.push(await fetchInlineImage(character.imageUrl))
+        reference.imageUrl = character.imageUrl
+      } catch (fetchError) {
+        console.log(`Reference image of ${character.name} unavailable, using description only:`, fetchError)
+      }
+    }
+
+    const imageNote = reference.imageUrl ? ` (reference image ${images.length})` : ''
+    lines.push(`- ${character.name}${imageNote}: ${character.description || 'no description'}`)
+    references.push(reference)
+  }
+
+  if (references.length === 0) {
+    return NO_REFERENCES
+  }
+
+  const consistencyHint = images.length > 0
+    ? 'keep their faces, hair, build and clothing exactly as described and as shown in the reference images'
+    : 'keep their faces, hair, build and clothing exactly as described'
+  const promptContext = [`Characters in this scene (${consistencyHint}):`, ...lines].join('\n')
+
+  return { references, images, promptContext }
+}
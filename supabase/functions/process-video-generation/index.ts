@@ -1,5 +1,12 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { JobMessage, errorMessage, getJob, updateJob } from "../_shared/jobs.ts";
+import { VIDEO_RETRY_POLICY, deadLetterIfExhausted, handleFailure } from "../_shared/retry.ts";
+import { fetchInlineImage } from "../_shared/images.ts";
+import { insertMedia } from "../_shared/media.ts";
+import { loadStoryboardStyle } from "../_shared/styles.ts";
+import { createVideoProviders, findVideoProvider, startVideoOperation } from "../_shared/providers/video.ts";
+import { VideoProvider, VideoRequest } from "../_shared/providers/types.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -7,6 +14,33 @@ const corsHeaders = {
     "authorization, x-client-info, apikey, content-type",
 };
 
+// Video generation runs in two phases so no invocation blocks for minutes:
+//   start: read video_generation_queue, start an operation with the first provider that
+//          accepts it (VIDEO_MODELS), persist the operation name (generation_jobs.operation_name)
+//          and hand it to video_poll_queue
+//   poll:  read video_poll_queue, ask the provider about the operation; when done download,
+//          upload and update the scene/character
+// The start message stays in its queue (invisible) until the video is done, so a failed
+// operation is retried through the normal read_ct-based retry/DLQ path of the start message.
+const QUEUE_NAME = "video_generation_queue";
+const POLL_QUEUE_NAME = "video_poll_queue";
+
+// Videos generating at the same time (one poll message each)
+const MAX_IN_FLIGHT = 4;
+
+// Poll message becomes visible again after this long, i.e. the poll interval
+const POLL_INTERVAL_SECONDS = 15;
+
+// Give up on an operation (retryable) after this long
+const OPERATION_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Start message stays hidden while its operation is polled; reappears only if the poll
+// message got lost, and then resumes from the persisted operation name
+const START_MESSAGE_HIDDEN_SECONDS = OPERATION_TIMEOUT_MS / 1000 + 300;
+
+// Claim a finished poll message while downloading/uploading
+const FINISH_VISIBILITY_SECONDS = 300;
+
 interface VideoMessage {
   storyboardId: string;
   sceneId?: string;
@@ -27,361 +61,462 @@ interface QueueMessage {
   message: VideoMessage;
 }
 
-serve(async (req) => {
-  // Handle CORS preflight requests
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
+// Message of video_poll_queue: one running operation
+interface PollMessage {
+  /** msg_id of the start message in video_generation_queue (also keys the job) */
+  jobMsgId: number;
+  /** read_ct of the start message when the operation was started */
+  attempt: number;
+  /** Provider that started the operation (missing in messages queued before providers) */
+  provider?: string;
+  operationName: string;
+  model: string;
+  startedAt: string;
+  request: VideoMessage;
+}
+
+interface PollQueueMessage {
+  msg_id: number;
+  read_ct: number;
+  enqueued_at: string;
+  vt: string;
+  message: PollMessage;
+}
+
+// The start message as the job/retry helpers see it
+function startMessageOf(poll: PollMessage): JobMessage {
+  return { msg_id: poll.jobMsgId, read_ct: poll.attempt, message: poll.request };
+}
+
+async function readQueue<T>(supabase: any, queueName: string, vt: number, qty: number): Promise<T[]> {
+  const { data, error } = await supabase
+    .rpc("pgmq_read", {
+      queue_name: queueName,
+      vt,
+      qty,
+    }) as { data: T[] | null; error: any };
+
+  if (error) {
+    console.error(`Error reading from ${queueName}:`, error);
+    throw error;
   }
 
-  try {
-    // Initialize Supabase client with service role key for full access
-    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const supabase = createClient(supabaseUrl, supabaseKey);
+  return data || [];
+}
 
-    // Get Google Generative AI API key
-    const geminiApiKey = Deno.env.get("GOOGLE_GENERATIVE_AI_API_KEY");
-    if (!geminiApiKey) {
-      throw new Error("GOOGLE_GENERATIVE_AI_API_KEY is not set");
+async function deleteMessage(supabase: any, queueName: string, msgId: number): Promise<void> {
+  const { error } = await supabase
+    .rpc("pgmq_delete", {
+      queue_name: queueName,
+      msg_id: msgId,
+    });
+
+  if (error) {
+    console.error(`Error deleting message ${msgId} from ${queueName}:`, error);
+  }
+}
+
+async function setVisibility(supabase: any, queueName: string, msgId: number, vt: number): Promise<void> {
+  const { error } = await supabase
+    .rpc("pgmq_set_vt", {
+      queue_name: queueName,
+      msg_id: msgId,
+      vt,
+    });
+
+  if (error) {
+    console.error(`Error setting visibility of message ${msgId} in ${queueName}:`, error);
+  }
+}
+
+async function countInFlight(supabase: any): Promise<number> {
+  const { data } = await supabase.rpc("pgmq_metrics", { queue_name: POLL_QUEUE_NAME });
+  return data?.[0]?.queue_length || 0;
+}
+
+/**
+ * Provider request for a queue message, in the storyboard's style preset
+ * The source image is best effort: if it can't be fetched the video is generated from text.
+ */
+async function buildRequest(supabase: any, request: VideoMessage): Promise<VideoRequest> {
+  const { storyboardId, prompt, sourceImageUrl, aspectRatio, resolution, negativePrompt } = request;
+  const style = await loadStoryboardStyle(supabase, storyboardId);
+
+  const videoRequest: VideoRequest = {
+    prompt: `${prompt}. Style: ${style.prompt}.`,
+    negativePrompt: [negativePrompt, style.negativePrompt].filter((part) => part).join(", ") || undefined,
+    aspectRatio,
+    resolution,
+  };
+
+  if (sourceImageUrl) {
+    console.log("Fetching source image for image-to-video...");
+    try {
+      videoRequest.image = await fetchInlineImage(sourceImageUrl);
+      console.log("Image added to request (experimental)");
+    } catch (imgError) {
+      console.log("Failed to add image, continuing with text-to-video:", imgError);
     }
+  }
 
-    const queueName = "video_generation_queue";
-    console.log(`Processing video generation queue: ${queueName}`);
+  return videoRequest;
+}
+
+/**
+ * Start phase for one message of video_generation_queue
+ * Resumes a persisted operation instead of starting a second one when the job is still polling.
+ */
+async function startVideo(supabase: any, providers: VideoProvider[], message: QueueMessage) {
+  console.log(`Starting message ${message.msg_id}:`, message.message);
 
-    // Read messages from queue (visibility timeout: 600 seconds = 10 minutes)
-    const { data: messages, error } = await supabase
-      .rpc("pgmq_read", {
-        queue_name: queueName,
-        vt: 600, // 10 minutes visibility timeout
-        qty: 1, // Process one video at a time due to long generation time
-      }) as { data: QueueMessage[] | null; error: any };
+  if (await deadLetterIfExhausted(supabase, QUEUE_NAME, "video", message, VIDEO_RETRY_POLICY)) {
+    return { success: false, msg_id: message.msg_id, deadLettered: true };
+  }
 
-    if (error) {
-      console.error("Error reading from queue:", error);
-      throw error;
+  try {
+    let provider: string | undefined;
+    let operationName: string;
+    let model: string;
+
+    const job = await getJob(supabase, QUEUE_NAME, message.msg_id);
+    if (job?.status === "polling" && job.operation_name) {
+      // Started before, but its poll message is gone (function restart): resume polling
+      operationName = job.operation_name;
+      model = job.model || "";
+      console.log(`Resuming operation ${operationName} of message ${message.msg_id}`);
+    } else {
+      await updateJob(supabase, QUEUE_NAME, "video", message, { status: "running", error: null, operation_name: null });
+
+      const sourceLabel = message.message.sourceImageUrl ? "image-to-video" : "text-to-video";
+      console.log(`Generating video (${sourceLabel}): ${message.message.prompt}`);
+
+      const operation = await startVideoOperation(providers, await buildRequest(supabase, message.message));
+      ({ provider, name: operationName, model } = operation);
+      console.log(`Video generation started. Operation: ${operationName}`);
+
+      await updateJob(supabase, QUEUE_NAME, "video", message, {
+        status: "polling",
+        model,
+        operation_name: operationName,
+      });
     }
 
-    if (!messages || messages.length === 0) {
-      console.log("No messages in queue");
-      return new Response(
-        JSON.stringify({ message: "No messages in queue", processed: 0 }),
-        {
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-          status: 200,
-        }
-      );
+    const pollMessage: PollMessage = {
+      jobMsgId: message.msg_id,
+      attempt: message.read_ct,
+      provider,
+      operationName,
+      model,
+      startedAt: new Date().toISOString(),
+      request: message.message,
+    };
+
+    const { error: sendError } = await supabase.rpc("pgmq_send", {
+      queue_name: POLL_QUEUE_NAME,
+      message: pollMessage,
+    });
+
+    if (sendError) {
+      // The start message reappears after its visibility timeout and resumes from the job
+      console.error(`Failed to enqueue poll for message ${message.msg_id}:`, sendError);
     }
 
-    console.log(`Found ${messages.length} message(s) to process`);
+    // Keep the start message until the video is done (it carries read_ct for retries)
+    await setVisibility(supabase, QUEUE_NAME, message.msg_id, START_MESSAGE_HIDDEN_SECONDS);
 
-    const results = [];
+    return { success: true, msg_id: message.msg_id, operationName, model };
+  } catch (error) {
+    console.error(`✗ Error starting message ${message.msg_id}:`, error);
+    const outcome = await handleFailure(supabase, QUEUE_NAME, "video", message, error, VIDEO_RETRY_POLICY);
+    return {
+      success: false,
+      msg_id: message.msg_id,
+      error: errorMessage(error),
+      deadLettered: outcome === "dead-lettered",
+    };
+  }
+}
 
-    // Process each message
-    for (const message of messages) {
-      console.log(`Processing message ${message.msg_id}:`, message.message);
-
-      try {
-        const {
-          storyboardId,
-          sceneId,
-          characterId,
-          prompt,
-          sourceImageUrl,
-          aspectRatio,
-          durationSeconds,
-          resolution,
-          negativePrompt
-        } = message.message;
-
-        const entityId = sceneId || characterId || `video-${Date.now()}`;
-        const entityType = sceneId ? 'scene' : characterId ? 'character' : 'generic';
-        const mode = sourceImageUrl ? 'image-to-video' : 'text-to-video';
-
-        console.log(`Generating video with VEO 3.1 (${mode})...`);
-        console.log(`Entity type: ${entityType}, ID: ${entityId}`);
-        console.log(`Prompt: ${prompt}`);
-        if (sourceImageUrl) {
-          console.log(`Source image: ${sourceImageUrl}`);
-        }
+// Output size for the requested aspect ratio and resolution (Veo defaults: 16:9, 720p)
+function videoSize(request: VideoMessage): { width: number; height: number } {
+  const long = request.resolution === "1080p" ? 1920 : 1280;
+  const short = request.resolution === "1080p" ? 1080 : 720;
+
+  switch (request.aspectRatio) {
+    case "9:16":
+      return { width: short, height: long };
+    case "1:1":
+      return { width: short, height: short };
+    default:
+      return { width: long, height: short };
+  }
+}
 
-        // Prepare request for VEO 3.1 REST API
-        // Always use 8 seconds duration (required for 1080p, works for all resolutions)
-        const VIDEO_DURATION = 8;
-
-        const requestBody: any = {
-          instances: [{
-            prompt: prompt,
-            ...(negativePrompt && { negativePrompt }),
-          }],
-          parameters: {
-            aspectRatio: aspectRatio || "16:9",
-            resolution: resolution || "720p",
-            durationSeconds: VIDEO_DURATION,
-          },
-        };
-
-        // Add source image if provided (experimental - might not work)
-        if (sourceImageUrl) {
-          console.log("Fetching source image for image-to-video...");
-
-          try {
-            const imageResponse = await fetch(sourceImageUrl);
-            const imageBlob = await imageResponse.blob();
-            const imageBuffer = await imageBlob.arrayBuffer();
-            const imageBase64 = btoa(String.fromCharCode(...new Uint8Array(imageBuffer)));
-
-            // Try to add image to request (format might need adjustment)
-            requestBody.instances[0].image = {
-              bytesBase64Encoded: imageBase64,
-              mimeType: imageBlob.type || 'image/png'
-            };
-
-            console.log("Image added to request (experimental)");
-          } catch (imgError) {
-            console.log("Failed to add image, continuing with text-to-video:", imgError);
-          }
-        }
+/**
+ * Download a finished video, upload it to storage and link it to its scene/character
+ * @returns Public URL of the uploaded video
+ */
+async function finishVideo(
+  supabase: any,
+  provider: VideoProvider,
+  poll: PollMessage,
+  videoUrl: string
+): Promise<string> {
+  const { storyboardId, sceneId, characterId } = poll.request;
+  const entityId = sceneId || characterId || `video-${Date.now()}`;
+  const entityType = sceneId ? 'scene' : characterId ? 'character' : 'generic';
+
+  console.log("Downloading video...");
+  const videoBytes = await provider.download(videoUrl);
+
+  console.log(`Downloaded video: ${videoBytes.length} bytes`);
+
+  // Generate unique filename
+  const timestamp = Date.now();
+  const fileName = `${storyboardId}/${entityType}-${entityId}_${timestamp}.mp4`;
+
+  console.log(`Uploading to Supabase Storage: ${fileName}`);
+
+  // Upload to Supabase Storage
+  const { error: uploadError } = await supabase.storage
+    .from("storyboard-videos")
+    .upload(fileName, videoBytes, {
+      contentType: "video/mp4",
+      upsert: false,
+    });
+
+  if (uploadError) {
+    console.error("Storage upload error:", uploadError);
+    throw uploadError;
+  }
 
-        // Try VEO models with fallback
-        let operationName: string;
-        let modelUsed: string;
-
-        // Try VEO models - Fast models only (full VEO 3.1 reserved for VIP plans)
-        const models = [
-          { name: "veo-3.1-fast-generate-preview", label: "VEO 3.1 Fast", removeResolution: false },
-          { name: "veo-3.0-fast-generate-001", label: "VEO 3.0 Fast", removeResolution: false },
-          { name: "veo-2.0-generate-001", label: "VEO 2.0", removeResolution: true } // VEO 2.0 doesn't support resolution param
-          // Full VEO 3.1 will be added for VIP plans: { name: "veo-3.1-generate-preview", label: "VEO 3.1 Full" }
-        ];
-
-        let lastError: Error | null = null;
-
-        for (const model of models) {
-          try {
-            const veoEndpoint = `https://generativelanguage.googleapis.com/v1beta/models/${model.name}:predictLongRunning`;
-
-            // Adjust request for VEO 2.0 (remove resolution parameter)
-            const modelRequestBody = { ...requestBody };
-            if (model.removeResolution) {
-              delete modelRequestBody.parameters.resolution;
-              console.log(`${model.label}: Removed resolution parameter (not supported)`);
-            }
-
-            console.log(`Calling ${model.label} API...`);
-            const veoResponse = await fetch(veoEndpoint, {
-              method: "POST",
-              headers: {
-                "Content-Type": "application/json",
-                "x-goog-api-key": geminiApiKey,
-              },
-              body: JSON.stringify(modelRequestBody),
-            });
-
-            const veoData = await veoResponse.json();
-
-            if (!veoResponse.ok) {
-              console.error(`${model.label} API error:`, veoData);
-
-              // If quota exceeded, try next model
-              if (veoResponse.status === 429) {
-                console.log(`Quota exceeded for ${model.label}, trying next model...`);
-                lastError = new Error(`${model.label} quota exceeded`);
-                continue;
-              }
-
-              // For other errors, also try next model unless it's the last one
-              lastError = new Error(`${model.label} failed: ${veoResponse.status} - ${JSON.stringify(veoData)}`);
-              continue;
-            }
-
-            operationName = veoData.name;
-            modelUsed = model.label;
-            console.log(`Successfully started with ${modelUsed}`);
-            break; // Success, exit loop
-
-          } catch (error) {
-            lastError = error as Error;
-
-            // If this is the last model, throw the error
-            if (model === models[models.length - 1]) {
-              throw lastError;
-            }
-          }
-        }
+  // Get public URL
+  const { data: urlData } = supabase.storage
+    .from("storyboard-videos")
+    .getPublicUrl(fileName);
+
+  const publicVideoUrl = urlData.publicUrl;
+  console.log(`Video uploaded successfully: ${publicVideoUrl}`);
+
+  // Keep it in the media history; the scene points at it with videoMediaId
+  const size = videoSize(poll.request);
+  const [mediaId] = await insertMedia(supabase, [{
+    type: "video",
+    url: publicVideoUrl,
+    preview_url: poll.request.sourceImageUrl || null,
+    prompt: poll.request.prompt,
+    model: poll.model,
+    width: size.width,
+    height: size.height,
+    storyboard_id: storyboardId,
+    scene_id: sceneId || null,
+    character_id: characterId || null,
+    metadata: { provider: provider.name, operationName: poll.operationName },
+  }]);
+
+  // Update scene or character in database (if exists)
+  let entityKey: string | null = null;
+
+  if (sceneId) {
+    entityKey = `scene:${storyboardId}:${sceneId}`;
+  } else if (characterId) {
+    entityKey = `character:${storyboardId}:${characterId}`;
+  }
 
-        if (!operationName!) {
-          throw lastError || new Error("Failed to start video generation");
-        }
-        console.log(`Video generation started. Operation: ${operationName}`);
-
-        // Poll for completion (max 6 minutes)
-        const maxAttempts = 36; // 36 * 10s = 6 minutes
-        let attempts = 0;
-        let videoUrl = null;
-
-        while (attempts < maxAttempts) {
-          await new Promise((resolve) => setTimeout(resolve, 10000)); // Wait 10 seconds
-          attempts++;
-
-          console.log(`Polling operation status... (attempt ${attempts}/${maxAttempts})`);
-
-          // Check status
-          const statusResponse = await fetch(
-            `https://generativelanguage.googleapis.com/v1beta/${operationName}`,
-            {
-              headers: {
-                "x-goog-api-key": geminiApiKey,
-              },
-            }
-          );
-
-          const statusData = await statusResponse.json();
-
-          if (statusData.done) {
-            if (statusData.error) {
-              throw new Error(`Video generation failed: ${statusData.error.message}`);
-            }
-
-            // Try different paths where video URL might be
-            videoUrl =
-              statusData.response?.generateVideoResponse?.generatedSamples?.[0]?.video?.uri ||
-              statusData.response?.generatedSamples?.[0]?.video?.uri ||
-              statusData.response?.video?.uri ||
-              statusData.response?.predictions?.[0]?.uri;
-
-            if (!videoUrl) {
-              console.log("Response structure:", JSON.stringify(statusData.response, null, 2));
-              throw new Error("No video URL in response");
-            }
-
-            console.log(`Video generation completed with ${modelUsed}!`);
-            console.log(`Video URL: ${videoUrl}`);
-            break;
-          }
-        }
+  if (entityKey) {
+    const { data: entityData, error: entityError } = await supabase
+      .from("kv_store_7ee7668a")
+      .select("value")
+      .eq("key", entityKey)
+      .single();
+
+    if (!entityError && entityData) {
+      console.log(`Updating ${entityType} ${entityId} with video URL`);
+      const updatedEntity = {
+        ...entityData.value,
+        videoUrl: publicVideoUrl,
+        videoGeneratedAt: new Date().toISOString(),
+        videoModel: poll.model,
+        ...(sceneId ? { videoMediaId: mediaId } : {}),
+      };
+
+      await supabase
+        .from("kv_store_7ee7668a")
+        .update({ value: updatedEntity })
+        .eq("key", entityKey);
+
+      console.log(`${entityType} updated with video URL`);
+    }
+  }
 
-        if (!videoUrl) {
-          throw new Error("Video generation timed out after 6 minutes");
-        }
+  return publicVideoUrl;
+}
 
-        // Download video (with API key for authentication)
-        console.log("Downloading video...");
-        const videoResponse = await fetch(videoUrl, {
-          headers: {
-            "x-goog-api-key": geminiApiKey,
-          },
-        });
+// The operation failed, was blocked or ran out of time: drop its poll message and let the
+// start message decide about a new operation (retry with backoff or DLQ)
+async function endOperation(supabase: any, message: PollQueueMessage, error: unknown) {
+  const poll = message.message;
+  console.error(`✗ Operation ${poll.operationName} of message ${poll.jobMsgId} failed:`, error);
+
+  await deleteMessage(supabase, POLL_QUEUE_NAME, message.msg_id);
+  const outcome = await handleFailure(supabase, QUEUE_NAME, "video", startMessageOf(poll), error, VIDEO_RETRY_POLICY);
+  return {
+    success: false,
+    sceneId: poll.request.sceneId,
+    characterId: poll.request.characterId,
+    error: errorMessage(error),
+    msg_id: poll.jobMsgId,
+    deadLettered: outcome === "dead-lettered",
+  };
+}
 
-        if (!videoResponse.ok) {
-          throw new Error(`Failed to download video: ${videoResponse.status}`);
-        }
+function isOperationTimedOut(poll: PollMessage): boolean {
+  return Date.now() - new Date(poll.startedAt).getTime() > OPERATION_TIMEOUT_MS;
+}
 
-        const videoBlob = await videoResponse.blob();
-        const videoBuffer = await videoBlob.arrayBuffer();
-        const videoBytes = new Uint8Array(videoBuffer);
+/**
+ * Poll phase for one message of video_poll_queue
+ * Not done yet: nothing to do, the message reappears after POLL_INTERVAL_SECONDS.
+ * Errors checking, downloading or uploading a video leave the operation alone and the poll
+ * message in the queue, so it is polled again; only a failed or timed out operation is retried
+ * with a new one.
+ */
+async function pollVideo(supabase: any, providers: VideoProvider[], message: PollQueueMessage) {
+  const poll = message.message;
+  const startMessage = startMessageOf(poll);
 
-        console.log(`Downloaded video: ${videoBytes.length} bytes`);
+  try {
+    const job = await getJob(supabase, QUEUE_NAME, poll.jobMsgId);
+    if (job?.status === "done" || (job?.operation_name && job.operation_name !== poll.operationName)) {
+      // Finished by a duplicate poll message, or superseded by a retry
+      await deleteMessage(supabase, POLL_QUEUE_NAME, message.msg_id);
+      return { success: true, msg_id: poll.jobMsgId, skipped: true };
+    }
 
-        // Generate unique filename
-        const timestamp = Date.now();
-        const fileName = `${storyboardId}/${entityType}-${entityId}_${timestamp}.mp4`;
+    const provider = findVideoProvider(providers, { provider: poll.provider, name: poll.operationName });
+    if (!provider) {
+      // VIDEO_MODELS changed while the operation was running: it can't be polled any more
+      return await endOperation(supabase, message, new Error(`Provider of operation ${poll.operationName} is not configured`));
+    }
 
-        console.log(`Uploading to Supabase Storage: ${fileName}`);
+    const status = await provider.poll({
+      provider: provider.name,
+      name: poll.operationName,
+      model: poll.model,
+    });
 
-        // Upload to Supabase Storage
-        const { data: uploadData, error: uploadError } = await supabase.storage
-          .from("storyboard-videos")
-          .upload(fileName, videoBytes, {
-            contentType: "video/mp4",
-            upsert: false,
-          });
+    if (!status.done) {
+      if (isOperationTimedOut(poll)) {
+        return await endOperation(supabase, message, new Error(`Video generation timed out after ${OPERATION_TIMEOUT_MS / 60000} minutes`));
+      }
+      console.log(`Operation ${poll.operationName} still running`);
+      return { success: true, msg_id: poll.jobMsgId, pending: true };
+    }
 
-        if (uploadError) {
-          console.error("Storage upload error:", uploadError);
-          throw uploadError;
-        }
+    if ("error" in status) {
+      return await endOperation(supabase, message, status.error);
+    }
 
-        // Get public URL
-        const { data: urlData } = supabase.storage
-          .from("storyboard-videos")
-          .getPublicUrl(fileName);
+    const videoUrl = status.videoUri;
 
-        const publicVideoUrl = urlData.publicUrl;
-        console.log(`Video uploaded successfully: ${publicVideoUrl}`);
+    console.log(`Video generation completed with ${poll.model}! Video URL: ${videoUrl}`);
 
-        // Update scene or character in database (if exists)
-        let entityKey: string | null = null;
+    await setVisibility(supabase, POLL_QUEUE_NAME, message.msg_id, FINISH_VISIBILITY_SECONDS);
+    await updateJob(supabase, QUEUE_NAME, "video", startMessage, { status: "uploading" });
 
-        if (sceneId) {
-          entityKey = `scene:${storyboardId}:${sceneId}`;
-        } else if (characterId) {
-          entityKey = `character:${storyboardId}:${characterId}`;
-        }
+    const publicVideoUrl = await finishVideo(supabase, provider, poll, videoUrl);
 
-        if (entityKey) {
-          const { data: entityData, error: entityError } = await supabase
-            .from("kv_store_7ee7668a")
-            .select("value")
-            .eq("key", entityKey)
-            .single();
-
-          if (!entityError && entityData) {
-            console.log(`Updating ${entityType} ${entityId} with video URL`);
-            const updatedEntity = {
-              ...entityData.value,
-              videoUrl: publicVideoUrl,
-              videoGeneratedAt: new Date().toISOString(),
-              videoModel: modelUsed,
-            };
-
-            await supabase
-              .from("kv_store_7ee7668a")
-              .update({ value: updatedEntity })
-              .eq("key", entityKey);
-
-            console.log(`${entityType} updated with video URL`);
-          }
-        }
+    await updateJob(supabase, QUEUE_NAME, "video", startMessage, { status: "done", error: null, output_url: publicVideoUrl });
 
-        // Delete message from queue (successfully processed)
-        console.log(`Deleting message ${message.msg_id} from queue`);
-        const { error: deleteError } = await supabase
-          .rpc("pgmq_delete", {
-            queue_name: queueName,
-            msg_id: message.msg_id,
-          });
+    // Done: drop both the poll message and the start message
+    await deleteMessage(supabase, POLL_QUEUE_NAME, message.msg_id);
+    await deleteMessage(supabase, QUEUE_NAME, poll.jobMsgId);
 
-        if (deleteError) {
-          console.error("Error deleting message from queue:", deleteError);
-        }
+    console.log(`✓ Successfully processed message ${poll.jobMsgId}`);
+    return {
+      success: true,
+      sceneId: poll.request.sceneId,
+      characterId: poll.request.characterId,
+      videoUrl: publicVideoUrl,
+      msg_id: poll.jobMsgId,
+      model: poll.model,
+    };
+  } catch (error) {
+    // Checking, downloading or uploading failed, not the operation (5xx, network, storage)
+    if (isOperationTimedOut(poll)) {
+      return await endOperation(supabase, message, error);
+    }
 
-        results.push({
-          success: true,
-          sceneId,
-          characterId,
-          videoUrl: publicVideoUrl,
-          msg_id: message.msg_id,
-          model: modelUsed,
-        });
-
-        console.log(`✓ Successfully processed message ${message.msg_id}`);
-      } catch (error) {
-        console.error(`✗ Error processing message ${message.msg_id}:`, error);
-        results.push({
-          success: false,
-          sceneId: message.message.sceneId,
-          characterId: message.message.characterId,
-          error: error.message,
-          msg_id: message.msg_id,
-        });
-        // Message will be re-processed after visibility timeout expires
+    console.error(`✗ Error polling message ${poll.jobMsgId}, polling again:`, error);
+    await setVisibility(supabase, POLL_QUEUE_NAME, message.msg_id, POLL_INTERVAL_SECONDS);
+    await updateJob(supabase, QUEUE_NAME, "video", startMessage, {
+      status: "polling",
+      error: `Polling again: ${errorMessage(error)}`,
+    });
+    return {
+      success: false,
+      sceneId: poll.request.sceneId,
+      characterId: poll.request.characterId,
+      error: errorMessage(error),
+      msg_id: poll.jobMsgId,
+      pending: true,
+    };
+  }
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Initialize Supabase client with service role key for full access
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // Google Generative AI API key (only needed for Veo models, throws if missing)
+    const geminiApiKey = Deno.env.get("GOOGLE_GENERATIVE_AI_API_KEY");
+    const providers = createVideoProviders(geminiApiKey);
+
+    // Optional { phase: "start" | "poll" } to run only one phase (default: poll, then start)
+    const body = await req.json().catch(() => ({}));
+    const phase: string | undefined = body?.phase;
+
+    const results = [];
+
+    if (phase !== "start") {
+      const polls = await readQueue<PollQueueMessage>(supabase, POLL_QUEUE_NAME, POLL_INTERVAL_SECONDS, MAX_IN_FLIGHT * 2);
+      console.log(`Polling ${polls.length} running operation(s)`);
+      for (const poll of polls) {
+        results.push(await pollVideo(supabase, providers, poll));
+      }
+    }
+
+    let started = 0;
+    if (phase !== "poll") {
+      const freeSlots = MAX_IN_FLIGHT - await countInFlight(supabase);
+      if (freeSlots > 0) {
+        // Short visibility timeout: starting only takes seconds, then startVideo hides the message
+        const messages = await readQueue<QueueMessage>(supabase, QUEUE_NAME, 120, freeSlots);
+        console.log(`Starting ${messages.length} video(s) (${freeSlots} free slot(s))`);
+        for (const message of messages) {
+          results.push(await startVideo(supabase, providers, message));
+          started++;
+        }
+      } else {
+        console.log(`${MAX_IN_FLIGHT} videos in flight, not starting new ones`);
       }
     }
 
+    const finished = results.filter((result: any) => result.videoUrl).length;
+
     return new Response(
       JSON.stringify({
-        message: `Processed ${results.length} message(s)`,
-        processed: results.length,
+        message: `Started ${started}, finished ${finished} video(s)`,
+        processed: finished,
+        started,
         results,
       }),
       {
@@ -392,11 +527,11 @@ serve(async (req) => {
   } catch (error) {
     console.error("Fatal error:", error);
     return new Response(
-      JSON.stringify({ error: error.message }),
+      JSON.stringify({ error: errorMessage(error) }),
       {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
         status: 500,
       }
     );
   }
-});
\ No newline at end of file
+});
@@ -44,12 +44,17 @@ serve(async (req) => {
         });
       }
 
-      // Проверяем очередь видео
+      // Проверяем очередь видео и запущенные операции Veo (video_poll_queue)
       const { data: videoQueue } = await supabase
         .rpc("pgmq_metrics", { queue_name: "video_generation_queue" });
+      const { data: videoPollQueue } = await supabase
+        .rpc("pgmq_metrics", { queue_name: "video_poll_queue" });
 
-      if (videoQueue?.[0]?.queue_length > 0) {
-        console.log(`Found ${videoQueue[0].queue_length} videos to process`);
+      const videosQueued = videoQueue?.[0]?.queue_length || 0;
+      const videosInFlight = videoPollQueue?.[0]?.queue_length || 0;
+
+      if (videosQueued > 0 || videosInFlight > 0) {
+        console.log(`Found ${videosQueued} videos to process, ${videosInFlight} in flight`);
 
         await fetch(`${supabaseUrl}/functions/v1/process-video-generation`, {
           method: "POST",
@@ -0,0 +1,18 @@
+-- Expose the storyboard id of every kv row as a real column
+-- Realtime postgres_changes filters only support eq/neq/lt/lte/gt/gte/in (no LIKE on key),
+-- so the Figma plugin filters its subscription with storyboard_id=eq.<id> instead of
+-- receiving the whole table.
+--
+-- Key formats:
+--   storyboard_v2:{storyboardId}
+--   scene:{storyboardId}:{sceneId}
+--   character:{storyboardId}:{characterId}
+
+ALTER TABLE public.kv_store_7ee7668a
+    ADD COLUMN IF NOT EXISTS storyboard_id TEXT
+    GENERATED ALWAYS AS (split_part(key, ':', 2)) STORED;
+
+CREATE INDEX IF NOT EXISTS kv_store_7ee7668a_storyboard_id_idx
+    ON public.kv_store_7ee7668a (storyboard_id);
+
+COMMENT ON COLUMN public.kv_store_7ee7668a.storyboard_id IS 'Storyboard id parsed from key, used for Realtime channel filters';
@@ -0,0 +1,89 @@
+-- Status of every image/video generation job, so the plugin can show which job is whose,
+-- how far it got and why it failed.
+--
+-- A row is created as 'queued' when a message is sent to a generation queue (pgmq_send below)
+-- and moved on by the workers:
+--   queued → running → (polling, video only) → uploading → done
+--                                                        ↘ failed
+-- Rows are keyed by (queue_name, msg_id); the workers upsert, so messages enqueued
+-- without the wrapper still get a row once they are picked up.
+
+CREATE TABLE IF NOT EXISTS public.generation_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    queue_name TEXT NOT NULL,
+    msg_id BIGINT NOT NULL,
+    kind TEXT NOT NULL CHECK (kind IN ('image', 'video')),
+    storyboard_id TEXT,
+    scene_id TEXT,
+    character_id TEXT,
+    prompt TEXT,
+    status TEXT NOT NULL DEFAULT 'queued'
+        CHECK (status IN ('queued', 'running', 'polling', 'uploading', 'done', 'failed')),
+    model TEXT,
+    attempt INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    output_url TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    CONSTRAINT generation_jobs_queue_msg_key UNIQUE (queue_name, msg_id)
+);
+
+CREATE INDEX IF NOT EXISTS generation_jobs_storyboard_created_idx
+    ON public.generation_jobs (storyboard_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION public.set_generation_jobs_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at := now();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS generation_jobs_updated_at ON public.generation_jobs;
+CREATE TRIGGER generation_jobs_updated_at
+    BEFORE UPDATE ON public.generation_jobs
+    FOR EACH ROW EXECUTE FUNCTION public.set_generation_jobs_updated_at();
+
+-- Readable by the plugin (anon key), written only by the workers (service role)
+ALTER TABLE public.generation_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "generation_jobs are readable" ON public.generation_jobs;
+CREATE POLICY "generation_jobs are readable"
+    ON public.generation_jobs FOR SELECT
+    TO anon, authenticated
+    USING (true);
+
+-- Live progress in the plugin (filtered by storyboard_id)
+ALTER PUBLICATION supabase_realtime ADD TABLE public.generation_jobs;
+
+-- pgmq_send also records a 'queued' job for the generation queues
+DROP FUNCTION IF EXISTS public.pgmq_send(TEXT, JSONB);
+CREATE FUNCTION public.pgmq_send(queue_name TEXT, message JSONB)
+RETURNS BIGINT AS $$
+DECLARE
+    new_msg_id BIGINT;
+BEGIN
+    SELECT pgmq.send(queue_name, message) INTO new_msg_id;
+
+    IF queue_name IN ('image_generation_queue', 'video_generation_queue') THEN
+        INSERT INTO public.generation_jobs (queue_name, msg_id, kind, storyboard_id, scene_id, character_id, prompt)
+        VALUES (
+            queue_name,
+            new_msg_id,
+            CASE WHEN queue_name = 'video_generation_queue' THEN 'video' ELSE 'image' END,
+            message->>'storyboardId',
+            message->>'sceneId',
+            message->>'characterId',
+            message->>'prompt'
+        )
+        ON CONFLICT ON CONSTRAINT generation_jobs_queue_msg_key DO NOTHING;
+    END IF;
+
+    RETURN new_msg_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pgmq;
+
+GRANT EXECUTE ON FUNCTION public.pgmq_send(TEXT, JSONB) TO anon, authenticated, service_role;
+
+COMMENT ON TABLE public.generation_jobs IS 'Progress of image/video generation jobs (one row per queue message)';
+COMMENT ON FUNCTION public.pgmq_send(TEXT, JSONB) IS 'Enqueue a message; generation queues also get a queued generation_jobs row';
@@ -0,0 +1,117 @@
+-- Dead-letter queues and bounded retries for the generation workers
+--
+-- A failed message used to reappear after its visibility timeout forever. Now the workers
+-- (supabase/functions/_shared/retry.ts):
+--   - retry retryable errors (429, 5xx, timeouts) with exponential backoff via pgmq_set_vt
+--   - move the message to <kind>_generation_dlq once read_ct reaches the attempt limit,
+--     or right away for permanent errors (safety block, 400, broken source image)
+-- DLQ entries keep the original message and the error; generation_dlq_requeue sends them back.
+
+SELECT pgmq.create('image_generation_dlq');
+SELECT pgmq.create('video_generation_dlq');
+
+-- Postpone a message: it becomes visible again after vt seconds (backoff)
+CREATE OR REPLACE FUNCTION public.pgmq_set_vt(queue_name TEXT, msg_id BIGINT, vt INTEGER)
+RETURNS VOID AS $$
+BEGIN
+    PERFORM pgmq.set_vt(queue_name, msg_id, vt);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pgmq;
+
+REVOKE EXECUTE ON FUNCTION public.pgmq_set_vt(TEXT, BIGINT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.pgmq_set_vt(TEXT, BIGINT, INTEGER) TO service_role;
+
+-- Move a generation message to its DLQ in one transaction.
+-- DLQ entry: { queue_name, msg_id, read_ct, enqueued_at, error, failed_at, message }
+CREATE OR REPLACE FUNCTION public.pgmq_move_to_dlq(queue_name TEXT, msg_id BIGINT, error_message TEXT)
+RETURNS BIGINT AS $$
+DECLARE
+    dlq_name TEXT;
+    original RECORD;
+    dlq_msg_id BIGINT;
+BEGIN
+    IF queue_name = 'image_generation_queue' THEN
+        dlq_name := 'image_generation_dlq';
+    ELSIF queue_name = 'video_generation_queue' THEN
+        dlq_name := 'video_generation_dlq';
+    ELSE
+        RAISE EXCEPTION 'No dead-letter queue for %', queue_name;
+    END IF;
+
+    EXECUTE format('SELECT msg_id, read_ct, enqueued_at, message FROM pgmq.%I WHERE msg_id = $1', 'q_' || queue_name)
+        INTO original
+        USING msg_id;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT pgmq.send(dlq_name, jsonb_build_object(
+        'queue_name', queue_name,
+        'msg_id', original.msg_id,
+        'read_ct', original.read_ct,
+        'enqueued_at', original.enqueued_at,
+        'error', error_message,
+        'failed_at', now(),
+        'message', original.message
+    )) INTO dlq_msg_id;
+
+    PERFORM pgmq.delete(queue_name, msg_id);
+
+    RETURN dlq_msg_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pgmq;
+
+REVOKE EXECUTE ON FUNCTION public.pgmq_move_to_dlq(TEXT, BIGINT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.pgmq_move_to_dlq(TEXT, BIGINT, TEXT) TO service_role;
+
+-- List DLQ entries without touching them (kind: 'image' or 'video'), newest first
+CREATE OR REPLACE FUNCTION public.generation_dlq_list(kind TEXT, max_count INTEGER DEFAULT 50)
+RETURNS TABLE (msg_id BIGINT, enqueued_at TIMESTAMPTZ, entry JSONB) AS $$
+BEGIN
+    IF kind NOT IN ('image', 'video') THEN
+        RAISE EXCEPTION 'Unknown generation kind: %', kind;
+    END IF;
+
+    RETURN QUERY EXECUTE format(
+        'SELECT msg_id, enqueued_at, message FROM pgmq.%I ORDER BY msg_id DESC LIMIT $1',
+        'q_' || kind || '_generation_dlq'
+    ) USING max_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pgmq;
+
+-- Send a DLQ entry back to its generation queue (with a fresh job) and drop it from the DLQ
+-- Returns the new msg_id, or NULL if the entry no longer exists
+CREATE OR REPLACE FUNCTION public.generation_dlq_requeue(kind TEXT, msg_id BIGINT)
+RETURNS BIGINT AS $$
+DECLARE
+    dlq_name TEXT;
+    dead_entry JSONB;
+    new_msg_id BIGINT;
+BEGIN
+    IF kind NOT IN ('image', 'video') THEN
+        RAISE EXCEPTION 'Unknown generation kind: %', kind;
+    END IF;
+    dlq_name := kind || '_generation_dlq';
+
+    EXECUTE format('SELECT message FROM pgmq.%I WHERE msg_id = $1', 'q_' || dlq_name)
+        INTO dead_entry
+        USING msg_id;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    new_msg_id := public.pgmq_send(kind || '_generation_queue', dead_entry->'message');
+    PERFORM pgmq.delete(dlq_name, msg_id);
+
+    RETURN new_msg_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pgmq;
+
+GRANT EXECUTE ON FUNCTION public.generation_dlq_list(TEXT, INTEGER) TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.generation_dlq_requeue(TEXT, BIGINT) TO anon, authenticated, service_role;
+
+COMMENT ON FUNCTION public.pgmq_move_to_dlq(TEXT, BIGINT, TEXT) IS 'Move a generation message to its dead-letter queue with the error attached';
+COMMENT ON FUNCTION public.generation_dlq_list(TEXT, INTEGER) IS 'List dead-lettered image/video generation messages';
+COMMENT ON FUNCTION public.generation_dlq_requeue(TEXT, BIGINT) IS 'Requeue a dead-lettered image/video generation message';
@@ -0,0 +1,13 @@
+-- Two-phase video generation (start, then poll) so several videos can be in flight
+--
+-- process-video-generation starts a Veo operation, stores its name on the job and sends a
+-- message to video_poll_queue; later runs (queue-monitor) poll operations/{name} and upload
+-- the video when it is done. The operation name on the job lets a restarted function resume
+-- polling instead of starting the generation again.
+
+SELECT pgmq.create('video_poll_queue');
+
+ALTER TABLE public.generation_jobs
+    ADD COLUMN IF NOT EXISTS operation_name TEXT;
+
+COMMENT ON COLUMN public.generation_jobs.operation_name IS 'Veo long-running operation being polled (video jobs)';
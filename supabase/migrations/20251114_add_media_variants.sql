@@ -0,0 +1,99 @@
+-- Image variants: a scene job with `variants: N` stores N images as media rows sharing a
+-- variant_group; the plugin shows them as a contact strip and pick_media_variant makes one
+-- the scene's image (mediaId/imageUrl) and archives the others.
+
+-- The table scene_with_media reads (created here for databases that don't have it yet)
+CREATE TABLE IF NOT EXISTS public.media (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    scene_id TEXT,
+    type VARCHAR(20) NOT NULL DEFAULT 'image',
+    url TEXT,
+    preview_url TEXT,
+    status VARCHAR(20) NOT NULL DEFAULT 'completed',
+    prompt TEXT,
+    width INTEGER,
+    height INTEGER,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    deleted_at TIMESTAMPTZ
+);
+
+ALTER TABLE public.media
+    ADD COLUMN IF NOT EXISTS storyboard_id TEXT,
+    ADD COLUMN IF NOT EXISTS character_id TEXT,
+    ADD COLUMN IF NOT EXISTS variant_group TEXT,
+    ADD COLUMN IF NOT EXISTS variant_index INTEGER,
+    ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS metadata JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN public.media.variant_group IS 'Rows generated together by one job (queue:msg_id:attempt)';
+COMMENT ON COLUMN public.media.archived_at IS 'Set on the variants that were not picked';
+
+CREATE INDEX IF NOT EXISTS media_scene_created_idx
+    ON public.media (scene_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS media_variant_group_idx
+    ON public.media (variant_group)
+    WHERE variant_group IS NOT NULL;
+
+-- Readable by the plugin (anon key), written by the workers (service role) and pick_media_variant
+ALTER TABLE public.media ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "media is readable" ON public.media;
+CREATE POLICY "media is readable"
+    ON public.media FOR SELECT
+    TO anon, authenticated
+    USING (true);
+
+-- Make a variant the scene's image
+-- Sets mediaId/imageUrl (and the references it was generated with) on the scene, drops
+-- metadata.imageVariants, archives the rest of the group. Returns the updated scene.
+CREATE OR REPLACE FUNCTION public.pick_media_variant(media_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+    picked public.media%ROWTYPE;
+    scene_key TEXT;
+    scene_value JSONB;
+BEGIN
+    SELECT * INTO picked FROM public.media WHERE id = media_id AND deleted_at IS NULL;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Media % not found', media_id;
+    END IF;
+
+    IF picked.scene_id IS NULL OR picked.storyboard_id IS NULL THEN
+        RAISE EXCEPTION 'Media % is not linked to a scene', media_id;
+    END IF;
+
+    scene_key := 'scene:' || picked.storyboard_id || ':' || picked.scene_id;
+
+    SELECT value INTO scene_value FROM kv_store_7ee7668a WHERE key = scene_key FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Scene % not found', scene_key;
+    END IF;
+
+    scene_value := scene_value || jsonb_build_object(
+        'mediaId', picked.id::TEXT,
+        'imageUrl', picked.url,
+        'imageGeneratedAt', to_jsonb(picked.created_at),
+        'updatedAt', to_jsonb(now()),
+        'metadata', (COALESCE(scene_value->'metadata', '{}'::jsonb) - 'imageVariants')
+            || jsonb_build_object('imageReferences', COALESCE(picked.metadata->'imageReferences', '[]'::jsonb))
+    );
+
+    UPDATE kv_store_7ee7668a SET value = scene_value WHERE key = scene_key;
+
+    UPDATE public.media SET archived_at = NULL WHERE id = picked.id;
+    IF picked.variant_group IS NOT NULL THEN
+        UPDATE public.media
+        SET archived_at = now()
+        WHERE variant_group = picked.variant_group
+        AND id <> picked.id
+        AND archived_at IS NULL;
+    END IF;
+
+    RETURN scene_value;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.pick_media_variant(UUID) TO anon, authenticated, service_role;
+
+COMMENT ON FUNCTION public.pick_media_variant IS 'Makes a media variant the image of its scene and archives the other variants of its group';
@@ -0,0 +1,60 @@
+-- Media history: the workers store every generated image and video as a media row and point
+-- the scene at the current one (mediaId for the image, videoMediaId for the video). The older
+-- rows of a scene are its history; revert_scene_media makes one of them current again.
+
+ALTER TABLE public.media
+    ADD COLUMN IF NOT EXISTS model TEXT;
+
+COMMENT ON COLUMN public.media.model IS 'Model that generated the media';
+
+CREATE INDEX IF NOT EXISTS media_storyboard_scene_idx
+    ON public.media (storyboard_id, scene_id, created_at DESC)
+    WHERE deleted_at IS NULL;
+
+-- Make an earlier image or video of a scene its current one
+-- Images go through pick_media_variant (same scene update, and an archived variant comes back);
+-- videos set videoMediaId/videoUrl. Returns the updated scene.
+CREATE OR REPLACE FUNCTION public.revert_scene_media(media_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+    picked public.media%ROWTYPE;
+    scene_key TEXT;
+    scene_value JSONB;
+BEGIN
+    SELECT * INTO picked FROM public.media WHERE id = media_id AND deleted_at IS NULL;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Media % not found', media_id;
+    END IF;
+
+    IF picked.type = 'image' THEN
+        RETURN public.pick_media_variant(media_id);
+    END IF;
+
+    IF picked.scene_id IS NULL OR picked.storyboard_id IS NULL THEN
+        RAISE EXCEPTION 'Media % is not linked to a scene', media_id;
+    END IF;
+
+    scene_key := 'scene:' || picked.storyboard_id || ':' || picked.scene_id;
+
+    SELECT value INTO scene_value FROM kv_store_7ee7668a WHERE key = scene_key FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Scene % not found', scene_key;
+    END IF;
+
+    scene_value := scene_value || jsonb_build_object(
+        'videoMediaId', picked.id::TEXT,
+        'videoUrl', picked.url,
+        'videoGeneratedAt', to_jsonb(picked.created_at),
+        'videoModel', picked.model,
+        'updatedAt', to_jsonb(now())
+    );
+
+    UPDATE kv_store_7ee7668a SET value = scene_value WHERE key = scene_key;
+
+    RETURN scene_value;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.revert_scene_media(UUID) TO anon, authenticated, service_role;
+
+COMMENT ON FUNCTION public.revert_scene_media IS 'Makes an earlier image or video of a scene its current one';
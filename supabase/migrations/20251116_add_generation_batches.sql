@@ -0,0 +1,125 @@
+-- Batches of generation jobs: enqueue_storyboard_images sends one image job for every scene of a
+-- storyboard that has no image yet, all with the same batchId, and generation_batch_progress
+-- counts how far the batch got. Used by the plugin ("Generate missing scene images") and by
+-- `queue-trigger.ts storyboard-images <storyboardId>`.
+
+ALTER TABLE public.generation_jobs
+    ADD COLUMN IF NOT EXISTS batch_id TEXT;
+
+COMMENT ON COLUMN public.generation_jobs.batch_id IS 'batchId of the message (jobs enqueued together)';
+
+CREATE INDEX IF NOT EXISTS generation_jobs_batch_idx
+    ON public.generation_jobs (batch_id)
+    WHERE batch_id IS NOT NULL;
+
+-- pgmq_send also copies batchId onto the queued job
+CREATE OR REPLACE FUNCTION public.pgmq_send(queue_name TEXT, message JSONB)
+RETURNS BIGINT AS $$
+DECLARE
+    new_msg_id BIGINT;
+BEGIN
+    SELECT pgmq.send(queue_name, message) INTO new_msg_id;
+
+    IF queue_name IN ('image_generation_queue', 'video_generation_queue') THEN
+        INSERT INTO public.generation_jobs (queue_name, msg_id, kind, storyboard_id, scene_id, character_id, prompt, batch_id)
+        VALUES (
+            queue_name,
+            new_msg_id,
+            CASE WHEN queue_name = 'video_generation_queue' THEN 'video' ELSE 'image' END,
+            message->>'storyboardId',
+            message->>'sceneId',
+            message->>'characterId',
+            message->>'prompt',
+            message->>'batchId'
+        )
+        ON CONFLICT ON CONSTRAINT generation_jobs_queue_msg_key DO NOTHING;
+    END IF;
+
+    RETURN new_msg_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pgmq;
+
+-- Enqueue an image job for every scene of a storyboard without an image
+-- Skips scenes that have imageUrl or mediaId, wait for a variant pick (metadata.imageVariants)
+-- or already have an unfinished image job. The prompt is built from the shot type, the
+-- description and the names of the scene's characters; the worker adds the storyboard style
+-- and the character reference images as for every scene job.
+-- Returns { batchId, enqueued, jobs: [{ sceneId, msgId }] } (batchId is null when nothing was missing).
+CREATE OR REPLACE FUNCTION public.enqueue_storyboard_images(storyboard_id TEXT)
+RETURNS JSONB AS $$
+DECLARE
+    new_batch_id TEXT := 'batch-' || gen_random_uuid()::TEXT;
+    scene JSONB;
+    character_names TEXT;
+    scene_prompt TEXT;
+    new_msg_id BIGINT;
+    jobs JSONB := '[]'::jsonb;
+BEGIN
+    FOR scene IN
+        SELECT s.value
+        FROM kv_store_7ee7668a s
+        WHERE s.storyboard_id = enqueue_storyboard_images.storyboard_id
+        AND s.key LIKE 'scene:%'
+        AND COALESCE(s.value->>'imageUrl', '') = ''
+        AND COALESCE(s.value->>'mediaId', '') = ''
+        AND NOT (COALESCE(s.value->'metadata', '{}'::jsonb) ? 'imageVariants')
+        AND NOT EXISTS (
+            SELECT 1 FROM public.generation_jobs j
+            WHERE j.queue_name = 'image_generation_queue'
+            AND j.storyboard_id = enqueue_storyboard_images.storyboard_id
+            AND j.scene_id = s.value->>'id'
+            AND j.status NOT IN ('done', 'failed')
+        )
+        ORDER BY (s.value->>'sceneNumber')::INTEGER NULLS LAST, s.key
+    LOOP
+        -- Keep the scene's character order (first listed = main character of the shot)
+        SELECT string_agg(c.value->>'name', ', ' ORDER BY ids.position)
+        INTO character_names
+        FROM jsonb_array_elements_text(COALESCE(scene->'characters', '[]'::jsonb)) WITH ORDINALITY AS ids(character_id, position)
+        JOIN kv_store_7ee7668a c
+            ON c.key = 'character:' || enqueue_storyboard_images.storyboard_id || ':' || ids.character_id;
+
+        scene_prompt := concat_ws(' ',
+            NULLIF(scene->>'shotType', '') || ' shot.',
+            NULLIF(scene->>'description', ''),
+            'Characters: ' || character_names || '.'
+        );
+
+        new_msg_id := public.pgmq_send('image_generation_queue', jsonb_build_object(
+            'storyboardId', enqueue_storyboard_images.storyboard_id,
+            'sceneId', scene->>'id',
+            'sceneNumber', (scene->>'sceneNumber')::INTEGER,
+            'prompt', scene_prompt,
+            'batchId', new_batch_id
+        ));
+
+        jobs := jobs || jsonb_build_array(jsonb_build_object('sceneId', scene->>'id', 'msgId', new_msg_id));
+    END LOOP;
+
+    RETURN jsonb_build_object(
+        'batchId', CASE WHEN jsonb_array_length(jobs) > 0 THEN new_batch_id END,
+        'enqueued', jsonb_array_length(jobs),
+        'jobs', jobs
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pgmq;
+
+-- Job counts of a batch by status (running includes polling and uploading)
+CREATE OR REPLACE FUNCTION public.generation_batch_progress(batch_id TEXT)
+RETURNS JSONB AS $$
+    SELECT jsonb_build_object(
+        'total', count(*),
+        'queued', count(*) FILTER (WHERE j.status = 'queued'),
+        'running', count(*) FILTER (WHERE j.status IN ('running', 'polling', 'uploading')),
+        'done', count(*) FILTER (WHERE j.status = 'done'),
+        'failed', count(*) FILTER (WHERE j.status = 'failed')
+    )
+    FROM public.generation_jobs j
+    WHERE j.batch_id = generation_batch_progress.batch_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.enqueue_storyboard_images(TEXT) TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.generation_batch_progress(TEXT) TO anon, authenticated, service_role;
+
+COMMENT ON FUNCTION public.enqueue_storyboard_images IS 'Enqueues one image job (same batchId) for every scene of a storyboard without an image';
+COMMENT ON FUNCTION public.generation_batch_progress IS 'Counts the jobs of a batch by status';
@@ -0,0 +1,5 @@
+-- Animatic exports: the plugin sends { storyboardId, order, captions } to animatic_queue and the
+-- animatic worker (supabase/workers/animatic, needs ffmpeg) renders the scenes into one MP4,
+-- uploads it to storyboard-videos and records it in the storyboard's metadata.animatic.
+
+SELECT pgmq.create('animatic_queue');
@@ -0,0 +1,13 @@
+-- Printable storyboard sheets: the plugin exports the sheets as PDF, the UI merges them and
+-- uploads the file to storyboard-prints/{storyboardId}/storyboard_{timestamp}.pdf with the anon
+-- key, then shares the public URL (recorded in the storyboard's metadata.print).
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('storyboard-prints', 'storyboard-prints', true, 52428800, ARRAY['application/pdf'])
+ON CONFLICT (id) DO NOTHING;
+
+-- Uploads only; the bucket is public for reading
+CREATE POLICY "Anyone can upload storyboard prints"
+ON storage.objects FOR INSERT
+TO anon, authenticated
+WITH CHECK (bucket_id = 'storyboard-prints');
@@ -0,0 +1,41 @@
+-- Scene renumbering from the canvas: when stickies are dragged into a new order (or into another
+-- act section) the plugin reads the order back, and renumber_scenes writes the new sceneNumber
+-- (and actNumber) of every changed scene in one transaction. updatedAt comes from the plugin so it
+-- recognises the realtime echoes of its own change. Undo writes the previous numbers the same way.
+
+-- scenes: [{ "sceneId": "...", "sceneNumber": 3, "actNumber": 2 }, ...] (actNumber optional)
+-- Returns the number of scenes updated
+CREATE OR REPLACE FUNCTION public.renumber_scenes(storyboard_id TEXT, scenes JSONB, updated_at TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+    change JSONB;
+    scene_key TEXT;
+    patch JSONB;
+    updated_count INTEGER := 0;
+BEGIN
+    FOR change IN SELECT * FROM jsonb_array_elements(scenes) LOOP
+        scene_key := 'scene:' || renumber_scenes.storyboard_id || ':' || (change->>'sceneId');
+
+        patch := jsonb_build_object(
+            'sceneNumber', change->'sceneNumber',
+            'updatedAt', to_jsonb(renumber_scenes.updated_at)
+        );
+        IF change ? 'actNumber' THEN
+            patch := patch || jsonb_build_object('actNumber', change->'actNumber');
+        END IF;
+
+        UPDATE kv_store_7ee7668a SET value = value || patch WHERE key = scene_key;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Scene % not found', scene_key;
+        END IF;
+
+        updated_count := updated_count + 1;
+    END LOOP;
+
+    RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.renumber_scenes(TEXT, JSONB, TEXT) TO anon, authenticated, service_role;
+
+COMMENT ON FUNCTION public.renumber_scenes IS 'Writes new scene numbers (and acts) of a storyboard in one transaction';
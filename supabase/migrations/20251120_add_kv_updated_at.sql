@@ -0,0 +1,26 @@
+-- Server-maintained modification time of every kv row
+-- The Figma plugin catches up on rows changed while its realtime connection was down. The
+-- `updatedAt` inside value is written by clients and not by the workers (image, variant and video
+-- results), so the catch-up filters on this column instead. It is set by the database clock only;
+-- now() is the transaction start time, so the plugin looks back a safety margin when catching up.
+
+ALTER TABLE public.kv_store_7ee7668a
+    ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+CREATE INDEX IF NOT EXISTS kv_store_7ee7668a_storyboard_updated_idx
+    ON public.kv_store_7ee7668a (storyboard_id, updated_at);
+
+CREATE OR REPLACE FUNCTION public.set_kv_store_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at := now();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS kv_store_7ee7668a_updated_at ON public.kv_store_7ee7668a;
+CREATE TRIGGER kv_store_7ee7668a_updated_at
+    BEFORE INSERT OR UPDATE ON public.kv_store_7ee7668a
+    FOR EACH ROW EXECUTE FUNCTION public.set_kv_store_updated_at();
+
+COMMENT ON COLUMN public.kv_store_7ee7668a.updated_at IS 'Last write time (set by trigger), used by the plugin realtime catch-up';
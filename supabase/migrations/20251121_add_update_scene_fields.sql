@@ -0,0 +1,37 @@
+-- Scene edits from the canvas: when a scene sticky is edited in FigJam, update_scene_fields merges
+-- the edited fields into the stored scene in one statement. Fields written meanwhile by others
+-- (imageUrl, mediaId, videoUrl of the workers) are kept, unlike a read-then-write of the whole
+-- value. updatedAt comes from the plugin so it recognises the realtime echo of its own edit.
+
+-- changes: { "description": "...", "dialogue": "...", "notes": "...", "duration": "...", "actNumber": 2 }
+-- (any subset; other keys are ignored)
+-- Returns the saved scene
+CREATE OR REPLACE FUNCTION public.update_scene_fields(storyboard_id TEXT, scene_id TEXT, changes JSONB, updated_at TEXT)
+RETURNS JSONB AS $$
+DECLARE
+    scene_key TEXT;
+    patch JSONB;
+    saved JSONB;
+BEGIN
+    scene_key := 'scene:' || update_scene_fields.storyboard_id || ':' || update_scene_fields.scene_id;
+
+    SELECT COALESCE(jsonb_object_agg(field.key, field.value), '{}'::jsonb)
+    INTO patch
+    FROM jsonb_each(changes) AS field
+    WHERE field.key IN ('description', 'dialogue', 'notes', 'duration', 'actNumber');
+
+    patch := patch || jsonb_build_object('updatedAt', to_jsonb(update_scene_fields.updated_at));
+
+    UPDATE kv_store_7ee7668a SET value = value || patch WHERE key = scene_key
+    RETURNING value INTO saved;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Scene % not found', scene_key;
+    END IF;
+
+    RETURN saved;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.update_scene_fields(TEXT, TEXT, JSONB, TEXT) TO anon, authenticated, service_role;
+
+COMMENT ON FUNCTION public.update_scene_fields IS 'Merges fields edited on the canvas into a stored scene';
@@ -15,6 +15,14 @@
  *
  *   # Batch image generation
  *   deno run --allow-net --allow-env queue-trigger.ts batch-images prompts.json
+ *
+ *   # Images for every scene of a storyboard that has none yet, and the batch progress
+ *   deno run --allow-net --allow-env queue-trigger.ts storyboard-images sb-001
+ *   deno run --allow-net --allow-env queue-trigger.ts batch batch-...
+ *
+ *   # Inspect / requeue dead-lettered jobs
+ *   deno run --allow-net --allow-env queue-trigger.ts dlq image
+ *   deno run --allow-net --allow-env queue-trigger.ts requeue image 42
  */
 
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
@@ -114,6 +122,127 @@ async function batchImages(prompts: string[]): Promise<void> {
   console.log("✅ All messages enqueued");
 }
 
+interface StoryboardImagesBatch {
+  batchId: string | null;
+  enqueued: number;
+  jobs: { sceneId: string; msgId: number }[];
+}
+
+interface BatchProgress {
+  total: number;
+  queued: number;
+  running: number;
+  done: number;
+  failed: number;
+}
+
+async function enqueueStoryboardImages(storyboardId: string): Promise<void> {
+  console.log(`📸 Enqueueing images for the scenes of ${storyboardId} without one...`);
+
+  const { data, error } = await supabase.rpc("enqueue_storyboard_images", { storyboard_id: storyboardId });
+
+  if (error) {
+    console.error("❌ Error:", error);
+    throw error;
+  }
+
+  const batch = data as StoryboardImagesBatch;
+  if (batch.enqueued === 0) {
+    console.log("✅ Every scene already has an image (or one on the way)");
+    return;
+  }
+
+  for (const job of batch.jobs) {
+    console.log(`   Scene ${job.sceneId} → image_generation_queue #${job.msgId}`);
+  }
+  console.log(`✅ ${batch.enqueued} job(s) enqueued as batch ${batch.batchId}`);
+  console.log(`   Progress: queue-trigger.ts batch ${batch.batchId}`);
+}
+
+async function showBatchProgress(batchId: string): Promise<void> {
+  const { data, error } = await supabase.rpc("generation_batch_progress", { batch_id: batchId });
+
+  if (error) {
+    console.error("❌ Error:", error);
+    throw error;
+  }
+
+  const progress = data as BatchProgress;
+  if (progress.total === 0) {
+    console.log(`⚠️  No jobs in batch ${batchId}`);
+    return;
+  }
+
+  console.log(`📊 Batch ${batchId}: ${progress.done}/${progress.total} done`);
+  console.log(`   Queued: ${progress.queued}, generating: ${progress.running}, failed: ${progress.failed}`);
+}
+
+type GenerationKind = "image" | "video";
+
+interface DeadLetter {
+  msg_id: number;
+  enqueued_at: string;
+  entry: {
+    queue_name: string;
+    msg_id: number;
+    read_ct: number;
+    error: string;
+    failed_at: string;
+    message: ImageMessage | VideoMessage;
+  };
+}
+
+function parseKind(value: string | undefined): GenerationKind {
+  if (value !== "image" && value !== "video") {
+    console.error("❌ Kind must be image or video");
+    Deno.exit(1);
+  }
+  return value;
+}
+
+async function listDeadLetters(kind: GenerationKind): Promise<DeadLetter[]> {
+  const { data, error } = await supabase.rpc("generation_dlq_list", { kind, max_count: 100 });
+
+  if (error) {
+    console.error("❌ Error:", error);
+    throw error;
+  }
+
+  return (data || []) as DeadLetter[];
+}
+
+async function showDeadLetters(kind: GenerationKind): Promise<void> {
+  const deadLetters = await listDeadLetters(kind);
+
+  if (deadLetters.length === 0) {
+    console.log(`✅ ${kind}_generation_dlq is empty`);
+    return;
+  }
+
+  console.log(`☠️  ${deadLetters.length} dead-lettered ${kind} job(s):\n`);
+  for (const { msg_id, entry } of deadLetters) {
+    console.log(`#${msg_id}  (was ${entry.queue_name} #${entry.msg_id}, ${entry.read_ct} attempt(s), ${entry.failed_at})`);
+    console.log("   Prompt:", entry.message.prompt);
+    if (entry.message.sceneId) console.log("   Scene:", entry.message.sceneId);
+    console.log("   Error:", entry.error);
+  }
+}
+
+async function requeueDeadLetter(kind: GenerationKind, msgId: number): Promise<void> {
+  const { data, error } = await supabase.rpc("generation_dlq_requeue", { kind, msg_id: msgId });
+
+  if (error) {
+    console.error("❌ Error:", error);
+    throw error;
+  }
+
+  if (data === null) {
+    console.log(`⚠️  #${msgId} is not in ${kind}_generation_dlq`);
+  } else {
+    console.log(`✅ #${msgId} requeued as ${kind}_generation_queue #${data}`);
+  }
+}
+
 // Parse command line arguments
 const args = Deno.args;
 
@@ -129,6 +258,12 @@ Commands:
   video <prompt>              Generate video from text
   image-edit <prompt>         Edit existing image
   batch-images <file.json>    Batch generate images from JSON file
+  storyboard-images <storyboardId>
+                              Generate images for every scene without one (one batch)
+  batch <batchId>             Show the progress of a batch
+  dlq <image|video>           List dead-lettered jobs with their errors
+  requeue <image|video> <id|all>
+                              Send dead-lettered jobs back to their queue
 
 Options:
   --storyboard=<id>           Storyboard ID (default: test-storyboard-001)
@@ -154,6 +289,13 @@ Examples:
   # Batch images from JSON
   echo '["Hero on cliff", "Dragon flying", "Temple entrance"]' > prompts.json
   deno run --allow-net --allow-env queue-trigger.ts batch-images prompts.json
+
+  # Fill in the missing scene images of a storyboard
+  deno run --allow-net --allow-env queue-trigger.ts storyboard-images sb-001
+
+  # Retry everything that ended up in the video DLQ
+  deno run --allow-net --allow-env queue-trigger.ts dlq video
+  deno run --allow-net --allow-env queue-trigger.ts requeue video all
 `);
   Deno.exit(0);
 }
@@ -244,6 +386,46 @@ try {
       break;
     }
 
+    case "storyboard-images": {
+      if (!args[1]) {
+        console.error("❌ Storyboard ID required");
+        Deno.exit(1);
+      }
+      await enqueueStoryboardImages(args[1]);
+      break;
+    }
+
+    case "batch": {
+      if (!args[1]) {
+        console.error("❌ Batch ID required");
+        Deno.exit(1);
+      }
+      await showBatchProgress(args[1]);
+      break;
+    }
+
+    case "dlq": {
+      await showDeadLetters(parseKind(args[1]));
+      break;
+    }
+
+    case "requeue": {
+      const kind = parseKind(args[1]);
+      const target = args[2];
+      if (!target) {
+        console.error("❌ DLQ message id (or all) required");
+        Deno.exit(1);
+      }
+      if (target === "all") {
+        for (const deadLetter of await listDeadLetters(kind)) {
+          await requeueDeadLetter(kind, deadLetter.msg_id);
+        }
+      } else {
+        await requeueDeadLetter(kind, Number(target));
+      }
+      break;
+    }
+
     default:
       console.error("❌ Unknown command:", command);
       console.log("Run without arguments to see usage");
@@ -0,0 +1,111 @@
+#!/usr/bin/env -S deno run --allow-read --allow-write --allow-run
+
+/**
+ * Local test for the animatic worker (supabase/workers/animatic)
+ * Generates a short video clip and a still with ffmpeg, assembles them with a title card and
+ * checks the order and length of the result. No Supabase or model calls.
+ * Run: deno run --allow-read --allow-write --allow-run test-animatic-local.ts
+ */
+
+import { Scene } from "../functions/_shared/storyboard.ts";
+import { buildTimeline, orderScenes } from "../workers/animatic/timeline.ts";
+import { parseDurationSeconds } from "../../figma-plugin/plugin/types.ts";
+import { LocalClip, probeDuration, renderAnimatic } from "../workers/animatic/render.ts";
+
+function scene(id: string, sceneNumber: number, fields: Partial<Scene>): Scene {
+  return {
+    id,
+    storyboardId: "test-animatic",
+    sceneNumber,
+    shotType: "Wide",
+    description: `Scene ${sceneNumber} description`,
+    dialogue: "",
+    notes: "",
+    imageUrl: "",
+    duration: "3s",
+    metadata: {},
+    createdAt: "",
+    updatedAt: "",
+    ...fields,
+  };
+}
+
+function check(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(message);
+  }
+  console.log(`   ✓ ${message}`);
+}
+
+async function ffmpeg(args: string[]) {
+  const { code, stderr } = await new Deno.Command("ffmpeg", { args: ["-y", "-loglevel", "error", ...args], stderr: "piped" }).output();
+  if (code !== 0) {
+    throw new Error(new TextDecoder().decode(stderr));
+  }
+}
+
+function testTimeline() {
+  console.log("\n🧮 Testing timeline planning...");
+
+  check(parseDurationSeconds("2.5s") === 2.5, "parses \"2.5s\"");
+  check(parseDurationSeconds("about 4 sec") === 4, "parses \"about 4 sec\"");
+  check(parseDurationSeconds("") === 3, "falls back to 3 seconds");
+
+  // 1 → 3 → 2 (3 branches to 4, 2 loops back to 1); 4 is off the main path
+  const scenes = [
+    scene("s2", 2, { nextScenes: ["s1"] }),
+    scene("s1", 1, { nextScenes: ["s3"] }),
+    scene("s4", 4, {}),
+    scene("s3", 3, { nextScenes: ["s2", "s4"] }),
+  ];
+
+  check(orderScenes(scenes, "scene-number").map(s => s.id).join() === "s1,s2,s3,s4", "orders by scene number");
+  check(orderScenes(scenes, "path").map(s => s.id).join() === "s1,s3,s2", "follows the main path and stops at the loop");
+
+  const clips = buildTimeline([
+    scene("v", 1, { videoUrl: "https://example.com/v.mp4", imageUrl: "https://example.com/v.png", dialogue: "Hello" }),
+    scene("i", 2, { imageUrl: "https://example.com/i.png" }),
+    scene("c", 3, {}),
+  ], "scene-number", false);
+
+  check(clips.map(clip => clip.source).join() === "video,image,card", "prefers video, then image, then a card");
+  check(clips[0].caption === undefined, "no captions unless asked for");
+  check((clips[2].caption || "").indexOf("Scene 3") === 0, "cards carry the scene title");
+}
+
+async function testRender() {
+  console.log("\n🎞️  Testing rendering with local clips...");
+
+  const workDir = await Deno.makeTempDir({ prefix: "animatic-test-" });
+  try {
+    const videoFile = `${workDir}/clip.mp4`;
+    const imageFile = `${workDir}/still.png`;
+    await ffmpeg(["-f", "lavfi", "-i", "testsrc=size=640x360:rate=30:duration=2", "-pix_fmt", "yuv420p", videoFile]);
+    await ffmpeg(["-f", "lavfi", "-i", "testsrc2=size=512x512", "-frames:v", "1", imageFile]);
+
+    const timeline = buildTimeline([
+      scene("video", 1, { videoUrl: videoFile, dialogue: "A line of dialogue long enough to be wrapped onto a second caption line" }),
+      scene("still", 2, { imageUrl: imageFile, duration: "3s" }),
+      scene("card", 3, { duration: "1.5s" }),
+    ], "scene-number", true);
+
+    const clips: LocalClip[] = timeline.map(clip => ({ ...clip, file: clip.url }));
+    const output = `${workDir}/animatic.mp4`;
+    await renderAnimatic(clips, output, workDir);
+
+    const duration = await probeDuration(output);
+    console.log(`   Animatic: ${duration.toFixed(2)}s`);
+    check(Math.abs(duration - 6.5) < 0.3, "length is 2s video + 3s still + 1.5s card");
+  } finally {
+    await Deno.remove(workDir, { recursive: true });
+  }
+}
+
+try {
+  testTimeline();
+  await testRender();
+  console.log("\n✅ Animatic tests passed");
+} catch (error) {
+  console.error("\n❌ Animatic test failed:", error instanceof Error ? error.message : error);
+  Deno.exit(1);
+}
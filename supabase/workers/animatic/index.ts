@@ -0,0 +1,203 @@
+#!/usr/bin/env -S deno run --allow-net --allow-env --allow-read --allow-write --allow-run
+
+/**
+ * Animatic worker - stitches the scenes of a storyboard into one MP4
+ *
+ * Reads `animatic_queue` (messages `{ storyboardId, order?, captions? }`, sent by the plugin),
+ * plays each scene's video or holds its still image for the scene duration (a title card when the
+ * scene has neither), uploads the result to `storyboard-videos/{storyboardId}/animatic_{timestamp}.mp4`
+ * and records it in the storyboard's `metadata.animatic`.
+ *
+ * Not an edge function: it needs ffmpeg/ffprobe, which the edge runtime can't run.
+ *
+ * Usage:
+ *   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... deno run -A supabase/workers/animatic/index.ts
+ *   ... index.ts --once   # process what is queued, then exit
+ */
+
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import {
+  AnimaticOrder,
+  KV_TABLE,
+  Scene,
+  StoryboardAnimatic,
+  StoryboardV2,
+  storyboardKey
+} from '../../functions/_shared/storyboard.ts'
+import { LocalClip, probeDuration, renderAnimatic } from './render.ts'
+import { buildTimeline } from './timeline.ts'
+
+const QUEUE_NAME = 'animatic_queue'
+const BUCKET = 'storyboard-videos'
+
+// Rendering a long storyboard takes a while; the message stays hidden meanwhile
+const VISIBILITY_SECONDS = 15 * 60
+const POLL_INTERVAL_MS = 10 * 1000
+const MAX_ATTEMPTS = 3
+
+interface AnimaticMessage {
+  storyboardId: string
+  order?: AnimaticOrder
+  captions?: boolean
+}
+
+interface QueueMessage {
+  msg_id: number
+  read_ct: number
+  message: AnimaticMessage
+}
+
+// Read-modify-write of metadata.animatic (the plugin writes the rest of the metadata)
+async function setAnimatic(supabase: any, storyboardId: string, animatic: Omit<StoryboardAnimatic, 'updatedAt'>) {
+  const key = storyboardKey(storyboardId)
+  const { data, error } = await supabase.from(KV_TABLE).select('value').eq('key', key).maybeSingle()
+  if (error || !data) {
+    console.error(`Storyboard ${storyboardId} not found, animatic status not saved:`, error)
+    return
+  }
+
+  const storyboard = data.value as StoryboardV2
+  const now = new Date().toISOString()
+  const value = {
+    ...storyboard,
+    metadata: { ...storyboard.metadata, animatic: { ...animatic, updatedAt: now } },
+    updatedAt: now
+  }
+
+  const { error: updateError } = await supabase.from(KV_TABLE).update({ value }).eq('key', key)
+  if (updateError) {
+    console.error(`Failed to save animatic status of ${storyboardId}:`, updateError)
+  }
+}
+
+async function loadScenes(supabase: any, storyboardId: string): Promise<Scene[]> {
+  const { data, error } = await supabase
+    .from(KV_TABLE)
+    .select('value')
+    .eq('storyboard_id', storyboardId)
+    .like('key', 'scene:%')
+
+  if (error) {
+    throw new Error(`Failed to load scenes: ${error.message}`)
+  }
+
+  return (data || []).map((row: { value: Scene }) => row.value)
+}
+
+// Best effort: a source that can't be downloaded becomes a title card
+async function downloadClip(clip: LocalClip, index: number, workDir: string): Promise<LocalClip> {
+  if (!clip.url || clip.source === 'card') {
+    return clip
+  }
+
+  try {
+    const response = await fetch(clip.url)
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`)
+    }
+    const extension = clip.source === 'video' ? 'mp4' : (response.headers.get('content-type') || '').indexOf('jpeg') !== -1 ? 'jpg' : 'png'
+    const file = `${workDir}/source-${index}.${extension}`
+    await Deno.writeFile(file, new Uint8Array(await response.arrayBuffer()))
+    return { ...clip, file }
+  } catch (error) {
+    console.log(`Source of scene ${clip.sceneNumber} unavailable (${clip.url}), using a title card:`, error)
+    return { ...clip, source: 'card', caption: `Scene ${clip.sceneNumber}` }
+  }
+}
+
+async function processMessage(supabase: any, message: QueueMessage) {
+  const { storyboardId, order = 'scene-number', captions = false } = message.message
+  const settings = { order, captions }
+
+  console.log(`Assembling animatic of ${storyboardId} (${order}, captions ${captions ? 'on' : 'off'})`)
+  await setAnimatic(supabase, storyboardId, { status: 'rendering', ...settings })
+
+  const workDir = await Deno.makeTempDir({ prefix: 'animatic-' })
+  try {
+    const clips = buildTimeline(await loadScenes(supabase, storyboardId), order, captions)
+    if (clips.length === 0) {
+      throw new Error('Storyboard has no scenes')
+    }
+
+    const localClips: LocalClip[] = []
+    for (let index = 0; index < clips.length; index++) {
+      localClips.push(await downloadClip(clips[index], index, workDir))
+    }
+
+    const output = `${workDir}/animatic.mp4`
+    await renderAnimatic(localClips, output, workDir)
+    const durationSeconds = await probeDuration(output)
+
+    const fileName = `${storyboardId}/animatic_${Date.now()}.mp4`
+    const { error: uploadError } = await supabase.storage
+      .from(BUCKET)
+      .upload(fileName, await Deno.readFile(output), { contentType: 'video/mp4', upsert: false })
+
+    if (uploadError) {
+      throw uploadError
+    }
+
+    const { data: urlData } = supabase.storage.from(BUCKET).getPublicUrl(fileName)
+    console.log(`Animatic uploaded: ${urlData.publicUrl} (${durationSeconds.toFixed(1)}s, ${clips.length} scenes)`)
+
+    await setAnimatic(supabase, storyboardId, {
+      status: 'done',
+      ...settings,
+      url: urlData.publicUrl,
+      durationSeconds: Math.round(durationSeconds * 10) / 10,
+      sceneCount: clips.length
+    })
+    await supabase.rpc('pgmq_delete', { queue_name: QUEUE_NAME, msg_id: message.msg_id })
+  } catch (error) {
+    const errorText = error instanceof Error ? error.message : String(error)
+    console.error(`Animatic of ${storyboardId} failed (attempt ${message.read_ct}/${MAX_ATTEMPTS}):`, errorText)
+
+    if (message.read_ct >= MAX_ATTEMPTS) {
+      await setAnimatic(supabase, storyboardId, { status: 'failed', ...settings, error: errorText })
+      await supabase.rpc('pgmq_delete', { queue_name: QUEUE_NAME, msg_id: message.msg_id })
+    } else {
+      // Retried when the message becomes visible again
+      await setAnimatic(supabase, storyboardId, { status: 'queued', ...settings, error: errorText })
+    }
+  } finally {
+    await Deno.remove(workDir, { recursive: true })
+  }
+}
+
+async function main() {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')
+  const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+  if (!supabaseUrl || !supabaseKey) {
+    console.error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required')
+    Deno.exit(1)
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseKey)
+  const once = Deno.args.indexOf('--once') !== -1
+
+  console.log(`Animatic worker reading ${QUEUE_NAME}${once ? ' (once)' : ''}`)
+
+  while (true) {
+    const { data: messages, error } = await supabase.rpc('pgmq_read', {
+      queue_name: QUEUE_NAME,
+      vt: VISIBILITY_SECONDS,
+      qty: 1
+    })
+
+    if (error) {
+      console.error(`Error reading from ${QUEUE_NAME}:`, error)
+    } else if (messages && messages.length > 0) {
+      await processMessage(supabase, messages[0] as QueueMessage)
+      continue
+    }
+
+    if (once) {
+      break
+    }
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS))
+  }
+}
+
+if (import.meta.main) {
+  await main()
+}
@@ -0,0 +1,147 @@
+// ffmpeg rendering of a timeline: every clip becomes a segment of the same size, frame rate and
+// codec (so the segments can be joined without re-encoding), then the concat demuxer joins them.
+// Needs `ffmpeg` and `ffprobe` on PATH. Audio is dropped: stills and cards have none.
+
+import { TimelineClip } from './timeline.ts'
+
+export const ANIMATIC_WIDTH = 1280
+export const ANIMATIC_HEIGHT = 720
+export const ANIMATIC_FPS = 24
+
+// Characters per caption line before wrapping
+const CAPTION_LINE_LENGTH = 60
+
+// A clip with its source downloaded (video/image clips without file fall back to a card)
+export interface LocalClip extends TimelineClip {
+  file?: string
+}
+
+async function run(command: string, args: string[]): Promise<string> {
+  const { code, stdout, stderr } = await new Deno.Command(command, { args, stdout: 'piped', stderr: 'piped' }).output()
+  if (code !== 0) {
+    const details = new TextDecoder().decode(stderr).trim().split('\n').slice(-5).join('\n')
+    throw new Error(`${command} exited with ${code}: ${details}`)
+  }
+  return new TextDecoder().decode(stdout)
+}
+
+export function wrapCaption(text: string, lineLength = CAPTION_LINE_LENGTH): string {
+  return text.split('\n').map(paragraph => {
+    const lines: string[] = []
+    let line = ''
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      if (line && line.length + word.length + 1 > lineLength) {
+        lines.push(line)
+        line = word
+      } else {
+        line = line ? `${line} ${word}` : word
+      }
+    }
+    lines.push(line)
+    return lines.join('\n')
+  }).join('\n')
+}
+
+// Scale into the frame (letterboxed), fixed frame rate, optional caption from a text file
+// (textfile= avoids escaping dialogue for the filter syntax)
+function videoFilter(captionFile: string | null): string {
+  const filters = [
+    `scale=${ANIMATIC_WIDTH}:${ANIMATIC_HEIGHT}:force_original_aspect_ratio=decrease`,
+    `pad=${ANIMATIC_WIDTH}:${ANIMATIC_HEIGHT}:(ow-iw)/2:(oh-ih)/2:color=black`,
+    'setsar=1',
+    `fps=${ANIMATIC_FPS}`,
+    'format=yuv420p'
+  ]
+
+  if (captionFile) {
+    filters.push(
+      `drawtext=textfile='${captionFile}':fontcolor=white:fontsize=28:line_spacing=6` +
+      ':box=1:boxcolor=black@0.6:boxborderw=12:x=(w-text_w)/2:y=h-text_h-48'
+    )
+  }
+
+  return filters.join(',')
+}
+
+/**
+ * Render one clip to a normalized segment
+ * @param clip Clip with its downloaded file
+ * @param output Segment path (.mp4)
+ * @param workDir Directory for the caption file
+ */
+export async function renderSegment(clip: LocalClip, output: string, workDir: string): Promise<void> {
+  let captionFile: string | null = null
+  if (clip.caption) {
+    captionFile = `${workDir}/caption-${clip.sceneId.replace(/[^\w-]/g, '_')}.txt`
+    await Deno.writeTextFile(captionFile, wrapCaption(clip.caption))
+  }
+
+  const seconds = clip.durationSeconds.toFixed(3)
+  let input: string[]
+
+  if (clip.source === 'video' && clip.file) {
+    input = ['-i', clip.file]
+  } else if (clip.source === 'image' && clip.file) {
+    input = ['-loop', '1', '-t', seconds, '-i', clip.file]
+  } else {
+    input = ['-f', 'lavfi', '-t', seconds, '-i', `color=c=black:s=${ANIMATIC_WIDTH}x${ANIMATIC_HEIGHT}:r=${ANIMATIC_FPS}`]
+  }
+
+  await run('ffmpeg', [
+    '-y', '-loglevel', 'error',
+    ...input,
+    '-vf', videoFilter(captionFile),
+    '-an',
+    '-c:v', 'libx264', '-preset', 'veryfast', '-pix_fmt', 'yuv420p',
+    output
+  ])
+}
+
+/**
+ * Join segments rendered by renderSegment into one MP4
+ */
+export async function concatSegments(segments: string[], output: string, workDir: string): Promise<void> {
+  const listFile = `${workDir}/segments.txt`
+  await Deno.writeTextFile(listFile, segments.map(segment => `file '${segment.replace(/'/g, `'\\''`)}'`).join('\n'))
+
+  await run('ffmpeg', [
+    '-y', '-loglevel', 'error',
+    '-f', 'concat', '-safe', '0', '-i', listFile,
+    '-c', 'copy', '-movflags', '+faststart',
+    output
+  ])
+}
+
+/**
+ * Render a whole timeline
+ * @param clips Clips in playback order, sources downloaded
+ * @param output Path of the animatic (.mp4)
+ * @param workDir Scratch directory for segments and caption files
+ */
+export async function renderAnimatic(clips: LocalClip[], output: string, workDir: string): Promise<void> {
+  if (clips.length === 0) {
+    throw new Error('Timeline has no clips')
+  }
+
+  const segments: string[] = []
+  for (let index = 0; index < clips.length; index++) {
+    const segment = `${workDir}/segment-${index}.mp4`
+    await renderSegment(clips[index], segment, workDir)
+    segments.push(segment)
+  }
+
+  await concatSegments(segments, output, workDir)
+}
+
+/**
+ * Length of a media file in seconds
+ */
+export async function probeDuration(file: string): Promise<number> {
+  const output = await run('ffprobe', [
+    '-v', 'error',
+    '-show_entries', 'format=duration',
+    '-of', 'default=noprint_wrappers=1:nokey=1',
+    file
+  ])
+  return parseFloat(output.trim())
+}
@@ -0,0 +1,84 @@
+// Animatic timeline: which scenes play in which order, from what source and for how long.
+// Pure planning, no downloads or ffmpeg (see render.ts), so it can be checked on its own.
+
+import { AnimaticOrder, Scene } from '../../functions/_shared/storyboard.ts'
+// Shared with the plugin's presentation mode
+import { parseDurationSeconds } from '../../../figma-plugin/plugin/types.ts'
+
+// video: the scene's own clip (plays its full length), image: still held for the duration,
+// card: black title card for scenes without any media
+export type ClipSource = 'video' | 'image' | 'card'
+
+export interface TimelineClip {
+  sceneId: string
+  sceneNumber: number
+  source: ClipSource
+  url?: string
+  durationSeconds: number
+  /** Burned-in text: dialogue (captions on) or the scene title of a card */
+  caption?: string
+}
+
+function bySceneNumber(a: Scene, b: Scene): number {
+  return (a.sceneNumber || 0) - (b.sceneNumber || 0) || a.id.localeCompare(b.id)
+}
+
+/**
+ * Order scenes for playback
+ * 'path' starts at the first scene and follows the first nextScenes link of each scene (the main
+ * branch), stopping at a dead end or a loop; scenes off that path are left out.
+ */
+export function orderScenes(scenes: Scene[], order: AnimaticOrder): Scene[] {
+  const sorted = scenes.slice().sort(bySceneNumber)
+  if (order !== 'path' || sorted.length === 0) {
+    return sorted
+  }
+
+  const byId = new Map(sorted.map(scene => [scene.id, scene]))
+  const path: Scene[] = []
+  const visited = new Set<string>()
+  let current: Scene | undefined = sorted[0]
+
+  while (current && !visited.has(current.id)) {
+    path.push(current)
+    visited.add(current.id)
+    const nextId: string | undefined = (current.nextScenes || []).find(id => byId.has(id))
+    current = nextId ? byId.get(nextId) : undefined
+  }
+
+  return path
+}
+
+/**
+ * Build the clips of an animatic
+ * @param scenes Scenes of the storyboard (any order)
+ * @param order Playback order
+ * @param captions Burn each scene's dialogue into its clip
+ */
+export function buildTimeline(scenes: Scene[], order: AnimaticOrder, captions: boolean): TimelineClip[] {
+  return orderScenes(scenes, order).map(scene => {
+    const dialogue = (scene.dialogue || '').trim()
+    const clip: TimelineClip = {
+      sceneId: scene.id,
+      sceneNumber: scene.sceneNumber,
+      source: scene.videoUrl ? 'video' : scene.imageUrl ? 'image' : 'card',
+      url: scene.videoUrl || scene.imageUrl || undefined,
+      durationSeconds: parseDurationSeconds(scene.duration),
+      caption: captions && dialogue ? dialogue : undefined
+    }
+
+    if (clip.source === 'card') {
+      const title = `Scene ${scene.sceneNumber}${scene.shotType ? ` · ${scene.shotType}` : ''}`
+      clip.caption = [title, scene.description, clip.caption].filter(Boolean).join('\n')
+    }
+
+    return clip
+  })
+}
+
+/**
+ * Planned length of a timeline (video clips count with their scene duration until rendered)
+ */
+export function timelineSeconds(clips: TimelineClip[]): number {
+  return clips.reduce((sum, clip) => sum + clip.durationSeconds, 0)
+}